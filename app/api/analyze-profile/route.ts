@@ -1,47 +1,23 @@
-import { NextRequest, NextResponse } from "next/server"
-import type {
-  AnalyzeProfileRequest,
-  AnalyzeProfileResponse,
-} from "@/types/interview"
-import {
-  analyzeProfileAI,
-  getFallbackBlueprint,
-} from "@/lib/ai/analyzeProfile.ai"
+import { NextResponse } from "next/server"
+import type { AnalyzeProfileResponse } from "@/types/interview"
+import { analyzeProfileAI } from "@/lib/ai/analyzeProfile.ai"
+import { apiRoute } from "@/lib/api/handler"
+import { analyzeProfileRequestSchema } from "@/lib/api/contracts"
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = (await request.json()) as AnalyzeProfileRequest
-    const { jobDescription, resume, roleTitle } = body
-
-    if (!jobDescription || !resume || !roleTitle) {
-      return NextResponse.json(
-        {
-          success: false,
-          blueprint: getFallbackBlueprint(),
-        } as AnalyzeProfileResponse,
-        { status: 400 }
-      )
-    }
-
-    const blueprint = await analyzeProfileAI({
-      jobDescription,
-      resume,
-      roleTitle,
-    })
+export const POST = apiRoute(
+  {
+    name: "Analyze profile",
+    failure: "Failed to analyze profile",
+    access: "admin",
+    body: { schema: analyzeProfileRequestSchema, invalid: "Invalid profile request" },
+    expensive: true,
+  },
+  async (request, { body }) => {
+    const blueprint = await analyzeProfileAI(body)
 
     return NextResponse.json({
       success: true,
       blueprint,
-    } as AnalyzeProfileResponse)
-  } catch (error) {
-    console.error("Analyze profile route error:", error)
-
-    return NextResponse.json(
-      {
-        success: false,
-        blueprint: getFallbackBlueprint(),
-      } as AnalyzeProfileResponse,
-      { status: 500 }
-    )
+    } satisfies AnalyzeProfileResponse)
   }
-}
+)
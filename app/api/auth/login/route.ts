@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import type { StaffUser } from "@/types/interview"
+import { authenticate, loginRequestSchema } from "@/lib/auth/users"
+import { createAuthSession } from "@/lib/auth/sessions"
+import { setAuthCookie } from "@/lib/auth/cookie"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Signs a staff account in and sets the session cookie. Sign-ins count as
+ * expensive requests, per client IP and per username, to slow down
+ * password guessing.
+ */
+export const POST = apiRoute(
+  {
+    name: "Login",
+    failure: "Failed to sign in",
+    access: "public",
+    body: { schema: loginRequestSchema, invalid: "Invalid sign-in request" },
+    expensive: true,
+    sessionKey: ({ body }) => `login:${body.username.trim().toLowerCase()}`,
+  },
+  async (request, { body }) => {
+    const user = await authenticate(body)
+
+    if (!user) return apiError(401, "Wrong username or password")
+
+    const { token, expiresAt } = await createAuthSession(user.id)
+    const response = NextResponse.json(user satisfies StaffUser)
+    setAuthCookie(response, token, expiresAt)
+
+    return response
+  }
+)
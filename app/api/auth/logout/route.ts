@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { endAuthSession } from "@/lib/auth/sessions"
+import { AUTH_COOKIE, clearAuthCookie } from "@/lib/auth/cookie"
+import { apiRoute } from "@/lib/api/handler"
+
+export const POST = apiRoute(
+  { name: "Logout", failure: "Failed to sign out", access: "public" },
+  async (request) => {
+    const token = request.cookies.get(AUTH_COOKIE)?.value
+    if (token) await endAuthSession(token)
+
+    const response = new NextResponse(null, { status: 204 })
+    clearAuthCookie(response)
+
+    return response
+  }
+)
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import type { StaffUser } from "@/types/interview"
+import { apiRoute } from "@/lib/api/handler"
+
+// The signed-in account; 401 without one
+export const GET = apiRoute(
+  { name: "Current user", failure: "Failed to load account", access: "reviewer" },
+  async (_request, { user }) => NextResponse.json(user satisfies StaffUser | null)
+)
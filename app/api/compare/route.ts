@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import type { CandidateComparison } from "@/types/interview"
+import { MAX_COMPARED_CANDIDATES, compareCandidates } from "@/lib/comparison"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * GET /api/compare?ids=<session id>,<session id>[,<session id>]
+ */
+export const GET = apiRoute(
+  { name: "Compare", failure: "Failed to compare candidates", access: "reviewer" },
+  async (request) => {
+    const ids = (request.nextUrl.searchParams.get("ids") ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean)
+
+    if (ids.length < 2 || ids.length > MAX_COMPARED_CANDIDATES) {
+      return apiError(
+        400,
+        `Compare between 2 and ${MAX_COMPARED_CANDIDATES} interviews`
+      )
+    }
+
+    const comparison = await compareCandidates(ids)
+
+    if (!comparison) {
+      return apiError(404, "Some interviews were not found or are not evaluated yet")
+    }
+
+    return NextResponse.json(comparison satisfies CandidateComparison)
+  }
+)
@@ -1,31 +1,20 @@
-import { NextRequest, NextResponse } from "next/server"
-import type {
-  EvaluationRequest,
-  EvaluationResult,
-} from "@/types/interview"
+import { NextResponse } from "next/server"
+import type { EvaluationResult } from "@/types/interview"
 import { evaluateCandidateAI } from "@/lib/ai/evaluateCandidate.ai"
+import { apiRoute } from "@/lib/api/handler"
+import { evaluationRequestSchema } from "@/lib/api/contracts"
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = (await request.json()) as EvaluationRequest
-    const { jobDescription, questions, answers } = body
-
-    if (!jobDescription || !questions?.length || !answers?.length) {
-      return NextResponse.json(
-        { error: "Invalid evaluation request" },
-        { status: 400 }
-      )
-    }
-
+export const POST = apiRoute(
+  {
+    name: "Evaluation",
+    failure: "Failed to evaluate candidate",
+    access: "admin",
+    body: { schema: evaluationRequestSchema, invalid: "Invalid evaluation request" },
+    expensive: true,
+  },
+  async (request, { body }) => {
     const evaluation = await evaluateCandidateAI(body)
 
     return NextResponse.json(evaluation satisfies EvaluationResult)
-  } catch (error) {
-    console.error("Evaluation route error:", error)
-
-    return NextResponse.json(
-      { error: "Failed to evaluate candidate" },
-      { status: 500 }
-    )
   }
-}
+)
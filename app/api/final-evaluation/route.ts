@@ -1,36 +1,45 @@
-import { NextRequest, NextResponse } from "next/server"
-import type {
-  FinalEvaluationRequest,
-  EvaluationResult,
-} from "@/types/interview"
+import { NextResponse } from "next/server"
+import type { EvaluationResult } from "@/types/interview"
 import { finalEvaluationAI } from "@/lib/ai/finalEvaluation.ai"
+import { evaluateSession } from "@/lib/interview-controller"
+import { getSession } from "@/lib/sessions"
+import { presentEvaluation } from "@/lib/redaction/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+import { finalEvaluationRequestSchema } from "@/lib/api/contracts"
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = (await request.json()) as FinalEvaluationRequest
-    const { jobDescription, resume, roleTitle, conversation_history } = body
+export const POST = apiRoute(
+  {
+    name: "Final evaluation",
+    failure: "Failed to evaluate interview",
+    access: "reviewer",
+    body: {
+      schema: finalEvaluationRequestSchema,
+      invalid: "Invalid final evaluation request",
+    },
+    expensive: true,
+    sessionKey: ({ body }) => ("session_id" in body ? body.session_id : undefined),
+  },
+  async (request, { body, user }) => {
+    // Session interviews are evaluated from the stored transcript only
+    if ("session_id" in body) {
+      const evaluation = await evaluateSession(body.session_id)
+      const session = await getSession(body.session_id)
+
+      if (!evaluation || !session) return apiError(404, "Session not found")
 
-    if (
-      !jobDescription ||
-      !resume ||
-      !roleTitle ||
-      !conversation_history?.length
-    ) {
       return NextResponse.json(
-        { error: "Invalid final evaluation request" },
-        { status: 400 }
+        (await presentEvaluation(session, evaluation)) satisfies EvaluationResult
       )
     }
 
+    // Evaluating a transcript from the request is admin-only, like /api/evaluate
+    if (user?.role !== "admin") {
+      return apiError(403, "This needs an admin account")
+    }
+
     const evaluation = await finalEvaluationAI(body)
 
     return NextResponse.json(evaluation satisfies EvaluationResult)
-  } catch (error) {
-    console.error("Final evaluation route error:", error)
-
-    return NextResponse.json(
-      { error: "Failed to evaluate interview" },
-      { status: 500 }
-    )
   }
-}
+)
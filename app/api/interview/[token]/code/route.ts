@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import type { CodeRunResult } from "@/types/interview"
+import { resolveInvite } from "@/lib/invites"
+import {
+  codeRunRequestSchema,
+  toCandidateRunResult,
+} from "@/lib/coding/challenges"
+import { runCodingChallenge } from "@/lib/coding/runner"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Runs the candidate's code for the open coding question against its test
+ * cases, as often as they like before submitting. Hidden cases only report
+ * whether they passed. Nothing is stored: the submitted answer is run again
+ * by the interview controller.
+ */
+export const POST = apiRoute(
+  {
+    name: "Run code",
+    failure: "Failed to run code",
+    access: "candidate",
+    body: { schema: codeRunRequestSchema, invalid: "Invalid code run request" },
+    expensive: true,
+    sessionKey: ({ params }) => params.token,
+  },
+  async (_request, { body, params }) => {
+    const lookup = await resolveInvite(params.token)
+
+    if (lookup.status === "not_found") {
+      return apiError(404, "Interview not found")
+    }
+
+    if (lookup.status === "expired") {
+      return apiError(410, "This interview link has expired")
+    }
+
+    const { session } = lookup
+    const challenge = session.current_challenge
+    if (
+      session.state.interview_phase !== "in_progress" ||
+      body.question_id !== session.state.current_question_id ||
+      !challenge
+    ) {
+      return apiError(409, "Code can only be run for the open coding question")
+    }
+
+    const result = await runCodingChallenge(challenge, body.code)
+
+    return NextResponse.json(
+      toCandidateRunResult(result) satisfies CodeRunResult
+    )
+  }
+)
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import type { AnswerMediaUploadResponse } from "@/types/interview"
+import { resolveInvite } from "@/lib/invites"
+import {
+  MAX_MEDIA_BYTES,
+  isSupportedMediaType,
+  saveAnswerMedia,
+} from "@/lib/answer-media"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Uploads the recording of the open question's answer. The body is the
+ * recording itself, with its media type as Content-Type and the
+ * "question_id" it answers in the query; it is streamed to disk rather than
+ * held in memory. The returned media_id is then sent with the answer
+ * (next-question's media_id).
+ */
+export const POST = apiRoute(
+  {
+    name: "Upload answer media",
+    failure: "Failed to store recording",
+    access: "candidate",
+    maxBodyBytes: MAX_MEDIA_BYTES,
+    streamBody: true,
+    expensive: true,
+    sessionKey: ({ params }) => params.token,
+  },
+  async (request, { params }) => {
+    const lookup = await resolveInvite(params.token)
+
+    if (lookup.status === "not_found") {
+      return apiError(404, "Interview not found")
+    }
+
+    if (lookup.status === "expired") {
+      return apiError(410, "This interview link has expired")
+    }
+
+    const questionId = request.nextUrl.searchParams.get("question_id")
+    const mimeType = request.headers.get("content-type") ?? ""
+
+    if (!request.body || !questionId) {
+      return apiError(400, "A recording and question_id are required")
+    }
+
+    const { state } = lookup.session
+    if (
+      state.interview_phase !== "in_progress" ||
+      questionId !== state.current_question_id
+    ) {
+      return apiError(409, "Recordings can only be uploaded for the open question")
+    }
+
+    if (!isSupportedMediaType(mimeType)) {
+      return apiError(415, "Unsupported media type. Upload audio or video.")
+    }
+
+    const saved = await saveAnswerMedia(
+      lookup.session.id,
+      questionId,
+      request.body,
+      mimeType
+    )
+    if (!saved) {
+      return apiError(413, "Recording is larger than 200 MB")
+    }
+
+    return NextResponse.json(
+      { media_id: saved.id } satisfies AnswerMediaUploadResponse,
+      { status: 201 }
+    )
+  }
+)
@@ -0,0 +1,36 @@
+import { resolveInvite, toCandidateResponse } from "@/lib/invites"
+import { streamNextQuestion } from "@/lib/interview-stream"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+import { candidateNextQuestionRequestSchema } from "@/lib/api/contracts"
+
+/**
+ * Candidate variant of /api/next-question/stream. Same events, with the
+ * session resolved from the invite token and admin-only fields removed.
+ */
+export const POST = apiRoute(
+  {
+    name: "Candidate next-question",
+    failure: "Failed to generate next question",
+    access: "candidate",
+    body: {
+      schema: candidateNextQuestionRequestSchema,
+      invalid: "Invalid next-question request",
+    },
+    expensive: true,
+    sessionKey: ({ params }) => params.token,
+  },
+  async (_request, { body, params }) => {
+    const lookup = await resolveInvite(params.token)
+
+    if (lookup.status === "not_found") {
+      return apiError(404, "Interview not found")
+    }
+
+    if (lookup.status === "expired") {
+      return apiError(410, "This interview link has expired")
+    }
+
+    return streamNextQuestion(lookup.session.id, body, toCandidateResponse)
+  }
+)
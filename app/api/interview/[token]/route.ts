@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import type { CandidateInterview } from "@/types/interview"
+import { resolveInvite, toCandidateInterview } from "@/lib/invites"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Candidate-facing view of the session behind an invite token.
+ */
+export const GET = apiRoute(
+  {
+    name: "Get candidate interview",
+    failure: "Failed to load interview",
+    access: "candidate",
+  },
+  async (_request, { params }) => {
+    const lookup = await resolveInvite(params.token)
+
+    if (lookup.status === "not_found") {
+      return apiError(404, "Interview not found")
+    }
+
+    if (lookup.status === "expired") {
+      return apiError(410, "This interview link has expired")
+    }
+
+    return NextResponse.json(
+      toCandidateInterview(
+        lookup.session,
+        lookup.invite
+      ) satisfies CandidateInterview
+    )
+  }
+)
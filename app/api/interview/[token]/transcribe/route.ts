@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server"
+import type {
+  TranscriptionResponse,
+  TranscriptionStatus,
+} from "@/types/interview"
+import { resolveInvite, type InviteLookup } from "@/lib/invites"
+import { resolveTranscriber, transcribeAudio } from "@/lib/speech/transcriber"
+import { LANGUAGES, getInterviewLanguage } from "@/lib/languages"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024
+
+// Room for the multipart framing around the audio
+const MAX_BODY_BYTES = MAX_AUDIO_BYTES + 64 * 1024
+
+/**
+ * Whether the server can transcribe answers for this interview.
+ */
+export const GET = apiRoute(
+  {
+    name: "Transcription status",
+    failure: "Failed to check speech-to-text",
+    access: "candidate",
+  },
+  async (_request, { params }) => {
+    const lookup = await resolveInvite(params.token)
+    const invalid = rejectInvite(lookup)
+    if (invalid) return invalid
+
+    const transcriber = resolveTranscriber()
+
+    return NextResponse.json({
+      available: transcriber !== null,
+      backend: transcriber?.name,
+    } satisfies TranscriptionStatus)
+  }
+)
+
+/**
+ * Transcribes one recorded segment of an answer. Multipart upload with an
+ * "audio" file field, transcribed in the interview's language; the engines
+ * get the language on their command line, so it never comes from the client.
+ */
+export const POST = apiRoute(
+  {
+    name: "Transcription",
+    failure: "Failed to transcribe audio",
+    access: "candidate",
+    maxBodyBytes: MAX_BODY_BYTES,
+    expensive: true,
+    sessionKey: ({ params }) => params.token,
+  },
+  async (request, { params }) => {
+    const lookup = await resolveInvite(params.token)
+    const invalid = rejectInvite(lookup)
+    if (invalid) return invalid
+
+    if (!resolveTranscriber()) {
+      return apiError(503, "Server-side speech-to-text is not configured")
+    }
+
+    let form: FormData
+    try {
+      form = await request.formData()
+    } catch {
+      return apiError(400, "Expected a multipart upload")
+    }
+
+    const audio = form.get("audio")
+
+    if (!audio || typeof audio === "string") {
+      return apiError(400, "An audio file is required")
+    }
+
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return apiError(413, "Audio segment is larger than 10 MB")
+    }
+
+    const result = await transcribeAudio({
+      audio: Buffer.from(await audio.arrayBuffer()),
+      mimeType: audio.type,
+      language: getInterviewLocale(lookup),
+    })
+
+    return NextResponse.json(result satisfies TranscriptionResponse)
+  }
+)
+
+/* ---------- helpers ---------- */
+
+function getInterviewLocale(lookup: InviteLookup): string | undefined {
+  return lookup.status === "valid"
+    ? LANGUAGES[getInterviewLanguage(lookup.session.setup)].locale
+    : undefined
+}
+
+// Transcription is only offered to candidates while their interview runs
+function rejectInvite(lookup: InviteLookup): NextResponse | null {
+  if (lookup.status === "not_found") {
+    return apiError(404, "Interview not found")
+  }
+
+  if (lookup.status === "expired") {
+    return apiError(410, "This interview link has expired")
+  }
+
+  const { interview_phase } = lookup.session.state
+  if (interview_phase === "evaluating" || interview_phase === "completed") {
+    return apiError(409, "This interview has finished")
+  }
+
+  return null
+}
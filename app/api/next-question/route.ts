@@ -1,40 +1,35 @@
-import { NextRequest, NextResponse } from "next/server"
-import type {
-  NextQuestionRequest,
-  NextQuestionResponse,
-} from "@/types/interview"
-import { nextQuestionAI } from "@/lib/ai/nextQuestion.ai"
+import { NextResponse } from "next/server"
+import type { NextQuestionResponse } from "@/types/interview"
+import { advanceInterview } from "@/lib/interview-controller"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+import { nextQuestionRequestSchema } from "@/lib/api/contracts"
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = (await request.json()) as NextQuestionRequest
-    const { jobDescription, resume, roleTitle, interview_state } = body
+// Violations of the interview state machine are answered with a 409
+// StateViolationResponse by apiRoute
+export const POST = apiRoute(
+  {
+    name: "Next-question",
+    failure: "Failed to generate next question",
+    access: "admin",
+    body: { schema: nextQuestionRequestSchema, invalid: "Invalid next-question request" },
+    expensive: true,
+    sessionKey: ({ body }) => body.session_id,
+  },
+  async (request, { body }) => {
+    const result = await advanceInterview(body.session_id, {
+      clientState: body.interview_state,
+      lastAnswer: body.last_answer,
+      rawAnswer: body.raw_answer,
+      skip: body.skip,
+      answerTiming: body.answer_timing,
+      timedOut: body.timed_out,
+      mediaId: body.media_id,
+      code: body.code,
+    })
 
-    if (!jobDescription || !resume || !roleTitle || !interview_state) {
-      return NextResponse.json(
-        { error: "Invalid next-question request" },
-        { status: 400 }
-      )
-    }
+    if (!result) return apiError(404, "Session not found")
 
-    if (interview_state.interview_phase === "completed") {
-      return NextResponse.json({
-        question: null,
-        question_id: "",
-        question_type: "main",
-        updated_state: interview_state,
-        interview_complete: true,
-      } satisfies NextQuestionResponse)
-    }
-
-    const response = await nextQuestionAI(body)
-
-    return NextResponse.json(response)
-  } catch (error) {
-    console.error("Next-question route error:", error)
-    return NextResponse.json(
-      { error: "Failed to generate next question" },
-      { status: 500 }
-    )
+    return NextResponse.json(result.response satisfies NextQuestionResponse)
   }
-}
+)
@@ -0,0 +1,20 @@
+import { streamNextQuestion } from "@/lib/interview-stream"
+import { apiRoute } from "@/lib/api/handler"
+import { nextQuestionRequestSchema } from "@/lib/api/contracts"
+
+/**
+ * Streaming variant of /api/next-question. See lib/interview-stream.ts for
+ * the event sequence. Requests are validated and limited before the stream
+ * opens; errors after that arrive as an "error" event.
+ */
+export const POST = apiRoute(
+  {
+    name: "Next-question stream",
+    failure: "Failed to generate next question",
+    access: "admin",
+    body: { schema: nextQuestionRequestSchema, invalid: "Invalid next-question request" },
+    expensive: true,
+    sessionKey: ({ body }) => body.session_id,
+  },
+  async (request, { body }) => streamNextQuestion(body.session_id, body)
+)
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server"
+import type { ParseDocumentResponse } from "@/types/interview"
+import {
+  detectDocumentKind,
+  extractDocumentText,
+  type DocumentKind,
+} from "@/lib/documents/extract-text"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+// Room for the multipart framing around the file
+const MAX_BODY_BYTES = MAX_UPLOAD_BYTES + 64 * 1024
+
+const KIND_LABELS: Record<DocumentKind, string> = {
+  pdf: "a PDF",
+  docx: "a DOCX document",
+  markdown: "Markdown",
+  text: "text",
+}
+
+/**
+ * Accepts a multipart upload with a single "file" field (PDF, DOCX,
+ * Markdown or plain text) and returns its extracted text.
+ */
+export const POST = apiRoute(
+  {
+    name: "Parse document",
+    failure: "Failed to read document",
+    access: "admin",
+    maxBodyBytes: MAX_BODY_BYTES,
+    expensive: true,
+  },
+  async (request) => {
+    let form: FormData
+    try {
+      form = await request.formData()
+    } catch {
+      return apiError(400, "Expected a multipart upload")
+    }
+
+    const file = form.get("file")
+
+    if (!file || typeof file === "string") {
+      return apiError(400, "A file is required")
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return apiError(413, "File is larger than 10 MB")
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const kind = detectDocumentKind(file.name, file.type, buffer)
+
+    if (!kind) {
+      return apiError(415, "Unsupported file type. Use PDF, DOCX, Markdown or text.")
+    }
+
+    // pdf-parse and mammoth throw on damaged or mislabelled files
+    let text: string
+    try {
+      text = await extractDocumentText(buffer, kind)
+    } catch (error) {
+      console.warn("Parse document: extraction failed:", error)
+      return apiError(422, `This file could not be read as ${KIND_LABELS[kind]}`)
+    }
+
+    if (!text) {
+      return apiError(422, "No text could be extracted from this file")
+    }
+
+    return NextResponse.json({
+      fileName: file.name,
+      kind,
+      text,
+    } satisfies ParseDocumentResponse)
+  }
+)
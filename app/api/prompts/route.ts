@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import type { PromptTemplate } from "@/types/interview"
+import {
+  createPromptVersion,
+  createPromptVersionSchema,
+  listPromptTemplates,
+} from "@/lib/ai/prompts/registry"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+export const GET = apiRoute(
+  { name: "List prompts", failure: "Failed to list prompts", access: "reviewer" },
+  async () => {
+    const templates = await listPromptTemplates()
+
+    return NextResponse.json(templates satisfies PromptTemplate[])
+  }
+)
+
+/**
+ * Adds the next version of a prompt. Existing versions cannot be changed or
+ * removed, since results are stamped with the version that produced them.
+ */
+export const POST = apiRoute(
+  {
+    name: "Create prompt",
+    failure: "Failed to create prompt",
+    access: "admin",
+    body: { schema: createPromptVersionSchema, invalid: "Invalid prompt" },
+  },
+  async (request, { body }) => {
+    const created = await createPromptVersion(body)
+
+    if ("problems" in created) {
+      return apiError(400, "Invalid prompt", { details: created.problems })
+    }
+
+    return NextResponse.json(created.template satisfies PromptTemplate, {
+      status: 201,
+    })
+  }
+)
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+import type { RoleSummary } from "@/types/interview"
+import { listRoleSummaries } from "@/lib/comparison"
+import { apiRoute } from "@/lib/api/handler"
+
+export const GET = apiRoute(
+  { name: "List roles", failure: "Failed to list roles", access: "reviewer" },
+  async () => {
+    const roles = await listRoleSummaries()
+
+    return NextResponse.json(roles satisfies RoleSummary[])
+  }
+)
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import type { InterviewInvite, InviteLink } from "@/types/interview"
+import { createInvite, createInviteSchema, listInvites } from "@/lib/invites"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+export const GET = apiRoute(
+  { name: "List invites", failure: "Failed to list invites", access: "admin" },
+  async (_request, { params }) => {
+    const invites = await listInvites(params.id)
+
+    return NextResponse.json(invites satisfies InterviewInvite[])
+  }
+)
+
+export const POST = apiRoute(
+  {
+    name: "Create invite",
+    failure: "Failed to create invite",
+    access: "admin",
+    // The body is optional; an empty POST uses the default expiry
+    body: { schema: createInviteSchema, invalid: "Invalid invite", optional: true },
+  },
+  async (request, { body, params }) => {
+    const invite = await createInvite(params.id, body)
+
+    if (!invite) return apiError(404, "Session not found")
+
+    const url = new URL(`/interview/${invite.id}`, request.nextUrl.origin)
+
+    return NextResponse.json(
+      {
+        token: invite.id,
+        url: url.toString(),
+        expiresAt: invite.expiresAt,
+      } satisfies InviteLink,
+      { status: 201 }
+    )
+  }
+)
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { getAnswerMedia, readAnswerMedia } from "@/lib/answer-media"
+import { getSession } from "@/lib/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Plays back an answer recording. Honours single byte-range requests so
+ * players can seek. Blind sessions have no recordings as far as reviewers
+ * are concerned (see presentSession), so their media ids answer 404 too.
+ */
+export const GET = apiRoute(
+  {
+    name: "Get answer media",
+    failure: "Failed to load recording",
+    access: "reviewer",
+  },
+  async (request, { params }) => {
+    const media = await getAnswerMedia(params.mediaId)
+    const session = media && (await getSession(media.sessionId))
+
+    if (
+      !media ||
+      !session ||
+      media.sessionId !== params.id ||
+      session.setup.redaction?.blind
+    ) {
+      return apiError(404, "Recording not found")
+    }
+
+    const headers = {
+      "Content-Type": media.mimeType,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    }
+
+    const rangeHeader = request.headers.get("range")
+    if (!rangeHeader) {
+      return new NextResponse(new Uint8Array(await readAnswerMedia(media)), {
+        headers: { ...headers, "Content-Length": String(media.size) },
+      })
+    }
+
+    const range = parseRange(rangeHeader, media.size)
+    if (!range) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${media.size}` },
+      })
+    }
+
+    const body = new Uint8Array(await readAnswerMedia(media, range))
+    return new NextResponse(body, {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Length": String(body.length),
+        "Content-Range": `bytes ${range.start}-${range.end}/${media.size}`,
+      },
+    })
+  }
+)
+
+/* ---------- helpers ---------- */
+
+// "bytes=start-end", "bytes=start-" or "bytes=-suffix"; multiple ranges are not supported
+function parseRange(
+  header: string,
+  size: number
+): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2])) return null
+
+  const start = match[1]
+    ? Number(match[1])
+    : Math.max(0, size - Number(match[2]))
+  const end =
+    match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+
+  return start <= end && start < size ? { start, end } : null
+}
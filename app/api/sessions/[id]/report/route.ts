@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import type { EvaluationReport, ReportFormat } from "@/types/interview"
+import { getSession } from "@/lib/sessions"
+import {
+  buildEvaluationReport,
+  getReportFilename,
+  renderMarkdownReport,
+} from "@/lib/reports/evaluation-report"
+import { renderPdfReport } from "@/lib/reports/render-pdf"
+import { presentSession } from "@/lib/redaction/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+const FORMATS: ReportFormat[] = ["json", "markdown", "pdf"]
+
+/**
+ * Downloads the evaluation report of a finished interview:
+ *   ?format=json (default) | markdown | pdf
+ */
+export const GET = apiRoute(
+  { name: "Report", failure: "Failed to build report", access: "reviewer" },
+  async (request, { params }) => {
+    const format = (request.nextUrl.searchParams.get("format") ??
+      "json") as ReportFormat
+
+    if (!FORMATS.includes(format)) {
+      return apiError(
+        400,
+        `Unknown report format, expected one of ${FORMATS.join(", ")}`
+      )
+    }
+
+    const session = await getSession(params.id)
+
+    if (!session) return apiError(404, "Session not found")
+
+    // Blind sessions are exported as reviewers see them
+    const report = buildEvaluationReport(await presentSession(session))
+
+    if (!report) {
+      return apiError(409, "The interview has not been evaluated yet")
+    }
+
+    const disposition = `attachment; filename="${getReportFilename(report, format)}"`
+
+    if (format === "pdf") {
+      return new NextResponse(Buffer.from(await renderPdfReport(report)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": disposition,
+        },
+      })
+    }
+
+    if (format === "markdown") {
+      return new NextResponse(renderMarkdownReport(report), {
+        headers: {
+          "Content-Type": "text/markdown; charset=utf-8",
+          "Content-Disposition": disposition,
+        },
+      })
+    }
+
+    return NextResponse.json(report satisfies EvaluationReport, {
+      headers: { "Content-Disposition": disposition },
+    })
+  }
+)
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import type { InterviewSession } from "@/types/interview"
+import { getSession, updateSession } from "@/lib/sessions"
+import { presentSession } from "@/lib/redaction/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+import { updateSessionRequestSchema } from "@/lib/api/contracts"
+
+export const GET = apiRoute(
+  { name: "Get session", failure: "Failed to load session", access: "reviewer" },
+  async (_request, { params }) => {
+    const session = await getSession(params.id)
+
+    if (!session) return apiError(404, "Session not found")
+
+    return NextResponse.json(
+      (await presentSession(session)) satisfies InterviewSession
+    )
+  }
+)
+
+export const PATCH = apiRoute(
+  {
+    name: "Update session",
+    failure: "Failed to update session",
+    access: "admin",
+    body: { schema: updateSessionRequestSchema, invalid: "Invalid session update" },
+  },
+  async (_request, { body, params }) => {
+    const session = await updateSession(params.id, body)
+
+    if (!session) return apiError(404, "Session not found")
+
+    return NextResponse.json(
+      (await presentSession(session)) satisfies InterviewSession
+    )
+  }
+)
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import type { InterviewSession } from "@/types/interview"
+import { createSession, listSessions } from "@/lib/sessions"
+import { checkCodingSetup } from "@/lib/coding/challenges"
+import { checkRunnableSetup } from "@/lib/coding/runner"
+import { checkScoring } from "@/lib/templates"
+import { checkPromptVersions } from "@/lib/ai/prompts/registry"
+import { presentSession } from "@/lib/redaction/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+import { createSessionRequestSchema } from "@/lib/api/contracts"
+
+export const GET = apiRoute(
+  { name: "List sessions", failure: "Failed to list sessions", access: "reviewer" },
+  async () => {
+    const sessions = await Promise.all(
+      (await listSessions()).map(presentSession)
+    )
+
+    return NextResponse.json(sessions satisfies InterviewSession[])
+  }
+)
+
+export const POST = apiRoute(
+  {
+    name: "Create session",
+    failure: "Failed to create session",
+    access: "admin",
+    body: { schema: createSessionRequestSchema, invalid: "Invalid session request" },
+  },
+  async (request, { body: { setup } }) => {
+    const codingProblems = checkCodingSetup(setup)
+    if (codingProblems.length === 0) codingProblems.push(...checkRunnableSetup(setup))
+    if (codingProblems.length > 0) {
+      return apiError(400, "Invalid coding questions", { details: codingProblems })
+    }
+
+    const scoringProblems = setup.scoring ? checkScoring(setup.scoring) : []
+    if (scoringProblems.length > 0) {
+      return apiError(400, "Invalid scoring", { details: scoringProblems })
+    }
+
+    const promptProblems = await checkPromptVersions(setup.promptVersions)
+    if (promptProblems.length > 0) {
+      return apiError(400, "Invalid prompt versions", { details: promptProblems })
+    }
+
+    const session = await presentSession(await createSession(setup))
+
+    return NextResponse.json(session satisfies InterviewSession, {
+      status: 201,
+    })
+  }
+)
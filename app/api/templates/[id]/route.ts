@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import type { InterviewTemplate } from "@/types/interview"
+import {
+  checkTemplate,
+  deleteTemplate,
+  getTemplate,
+  templateInputSchema,
+  updateTemplate,
+} from "@/lib/templates"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+export const GET = apiRoute(
+  { name: "Get template", failure: "Failed to load template", access: "reviewer" },
+  async (_request, { params }) => {
+    const template = await getTemplate(params.id)
+
+    if (!template) return apiError(404, "Template not found")
+
+    return NextResponse.json(template satisfies InterviewTemplate)
+  }
+)
+
+export const PUT = apiRoute(
+  {
+    name: "Update template",
+    failure: "Failed to update template",
+    access: "admin",
+    body: { schema: templateInputSchema, invalid: "Invalid template" },
+  },
+  async (_request, { body, params }) => {
+    const problems = await checkTemplate(body)
+    if (problems.length > 0) {
+      return apiError(400, "Invalid template", { details: problems })
+    }
+
+    const template = await updateTemplate(params.id, body)
+
+    if (!template) return apiError(404, "Template not found")
+
+    return NextResponse.json(template satisfies InterviewTemplate)
+  }
+)
+
+export const DELETE = apiRoute(
+  {
+    name: "Delete template",
+    failure: "Failed to delete template",
+    access: "admin",
+  },
+  async (_request, { params }) => {
+    const deleted = await deleteTemplate(params.id)
+
+    if (!deleted) return apiError(404, "Template not found")
+
+    return new NextResponse(null, { status: 204 })
+  }
+)
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import type { InterviewTemplate } from "@/types/interview"
+import {
+  checkTemplate,
+  createTemplate,
+  listTemplates,
+  templateInputSchema,
+} from "@/lib/templates"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+export const GET = apiRoute(
+  {
+    name: "List templates",
+    failure: "Failed to list templates",
+    access: "reviewer",
+  },
+  async () => {
+    const templates = await listTemplates()
+
+    return NextResponse.json(templates satisfies InterviewTemplate[])
+  }
+)
+
+export const POST = apiRoute(
+  {
+    name: "Create template",
+    failure: "Failed to create template",
+    access: "admin",
+    body: { schema: templateInputSchema, invalid: "Invalid template" },
+  },
+  async (request, { body }) => {
+    const problems = await checkTemplate(body)
+    if (problems.length > 0) {
+      return apiError(400, "Invalid template", { details: problems })
+    }
+
+    const template = await createTemplate(body)
+
+    return NextResponse.json(template satisfies InterviewTemplate, {
+      status: 201,
+    })
+  }
+)
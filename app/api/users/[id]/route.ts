@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import type { StaffUser } from "@/types/interview"
+import { deleteUser, updateUser, updateUserRequestSchema } from "@/lib/auth/users"
+import { endUserAuthSessions } from "@/lib/auth/sessions"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+/**
+ * Changes an account's role or password. A new password signs the account
+ * out everywhere.
+ */
+export const PATCH = apiRoute(
+  {
+    name: "Update user",
+    failure: "Failed to update user",
+    access: "admin",
+    body: { schema: updateUserRequestSchema, invalid: "Invalid user update" },
+  },
+  async (_request, { body, params }) => {
+    const updated = await updateUser(params.id, body)
+
+    if (!updated) return apiError(404, "User not found")
+
+    if ("problems" in updated) {
+      return apiError(409, "Invalid user update", { details: updated.problems })
+    }
+
+    if (body.password) await endUserAuthSessions(params.id)
+
+    return NextResponse.json(updated.user satisfies StaffUser)
+  }
+)
+
+export const DELETE = apiRoute(
+  { name: "Delete user", failure: "Failed to delete user", access: "admin" },
+  async (_request, { params }) => {
+    const deleted = await deleteUser(params.id)
+
+    if ("problems" in deleted) {
+      return apiError(409, deleted.problems[0])
+    }
+
+    if (!deleted.deleted) return apiError(404, "User not found")
+
+    await endUserAuthSessions(params.id)
+
+    return new NextResponse(null, { status: 204 })
+  }
+)
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import type { StaffUser } from "@/types/interview"
+import { createUser, createUserRequestSchema, listUsers } from "@/lib/auth/users"
+import { apiRoute } from "@/lib/api/handler"
+import { apiError } from "@/lib/api/errors"
+
+export const GET = apiRoute(
+  { name: "List users", failure: "Failed to list users", access: "admin" },
+  async () => {
+    const users = await listUsers()
+
+    return NextResponse.json(users satisfies StaffUser[])
+  }
+)
+
+export const POST = apiRoute(
+  {
+    name: "Create user",
+    failure: "Failed to create user",
+    access: "admin",
+    body: { schema: createUserRequestSchema, invalid: "Invalid user" },
+  },
+  async (_request, { body }) => {
+    const created = await createUser(body)
+
+    if ("problems" in created) {
+      return apiError(400, "Invalid user", { details: created.problems })
+    }
+
+    return NextResponse.json(created.user satisfies StaffUser, { status: 201 })
+  }
+)
@@ -0,0 +1,355 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { CandidateComparison, CandidateSummary, RoleSummary } from '@/types/interview'
+
+/**
+ * Comparison Dashboard
+ *
+ * Lists every evaluated interview for one role (or template) with its scores
+ * and verdict, sortable and filterable, and compares two or three selected
+ * candidates side by side: strengths, weaknesses and their answers to the
+ * same main questions.
+ */
+
+type SortKey = 'candidateName' | 'createdAt' | 'alignment_percentage' | 'technical_score' | 'problem_solving_score' | 'communication_score'
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'candidateName', label: 'Candidate' },
+  { key: 'createdAt', label: 'Date' },
+  { key: 'alignment_percentage', label: 'Alignment' },
+  { key: 'technical_score', label: 'Technical' },
+  { key: 'problem_solving_score', label: 'Problem Solving' },
+  { key: 'communication_score', label: 'Communication' },
+]
+
+const VERDICTS = ['Fit', 'Maybe', 'Reject'] as const
+
+const MAX_SELECTED = 3
+
+export default function DashboardPage() {
+  const [roles, setRoles] = useState<RoleSummary[]>([])
+  const [roleKey, setRoleKey] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Table controls
+  const [sortKey, setSortKey] = useState<SortKey>('alignment_percentage')
+  const [sortDescending, setSortDescending] = useState(true)
+  const [verdictFilter, setVerdictFilter] = useState<string>('')
+  const [minAlignment, setMinAlignment] = useState(0)
+  const [search, setSearch] = useState('')
+
+  // Side-by-side comparison
+  const [selected, setSelected] = useState<string[]>([])
+  const [comparison, setComparison] = useState<CandidateComparison | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+
+  useEffect(() => {
+    const loadRoles = async () => {
+      try {
+        const response = await fetch('/api/roles')
+        if (!response.ok) {
+          throw new Error('Failed to load roles')
+        }
+        const data: RoleSummary[] = await response.json()
+        setRoles(data)
+        if (data.length > 0) setRoleKey(data[0].key)
+      } catch (e) {
+        console.error('Failed to load roles:', e)
+        setError('Failed to load evaluated interviews')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadRoles()
+  }, [])
+
+  const role = roles.find(r => r.key === roleKey)
+
+  const selectRole = (key: string) => {
+    setRoleKey(key)
+    setSelected([])
+    setComparison(null)
+  }
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending)
+    } else {
+      setSortKey(key)
+      setSortDescending(key !== 'candidateName')
+    }
+  }
+
+  const toggleSelected = (sessionId: string) => {
+    setComparison(null)
+    setSelected(current =>
+      current.includes(sessionId)
+        ? current.filter(id => id !== sessionId)
+        : current.length < MAX_SELECTED
+          ? [...current, sessionId]
+          : current
+    )
+  }
+
+  const compare = async () => {
+    setIsComparing(true)
+    try {
+      const response = await fetch(`/api/compare?ids=${selected.join(',')}`)
+      if (!response.ok) {
+        throw new Error('Failed to compare candidates')
+      }
+      setComparison(await response.json())
+    } catch (e) {
+      console.error('Failed to compare candidates:', e)
+      setError('Failed to compare candidates')
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const candidates = (role?.candidates ?? [])
+    .filter(c => !verdictFilter || c.final_verdict === verdictFilter)
+    .filter(c => c.alignment_percentage >= minAlignment)
+    .filter(c => !search.trim() || getCandidateLabel(c).toLowerCase().includes(search.trim().toLowerCase()))
+    .sort((a, b) => {
+      const order = compareValues(a, b, sortKey)
+      return sortDescending ? -order : order
+    })
+
+  return (
+    <main className="min-h-screen bg-black py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-2xl font-bold text-gray-200">Candidate Comparison</h1>
+          <Link
+            href="/sessions"
+            className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+          >
+            All Interviews
+          </Link>
+        </div>
+
+        {isLoading && <p className="text-gray-400">Loading interviews...</p>}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-sm">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && !error && roles.length === 0 && (
+          <p className="text-gray-400">No evaluated interviews yet.</p>
+        )}
+
+        {role && (
+          <>
+            {/* Role and filters */}
+            <div className="flex flex-wrap gap-3 mb-4 text-sm">
+              <select
+                value={roleKey}
+                onChange={(e) => selectRole(e.target.value)}
+                className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border rounded-sm"
+              >
+                {roles.map(r => (
+                  <option key={r.key} value={r.key}>
+                    {r.templateName ? `${r.templateName} (${r.roleTitle})` : r.roleTitle} · {r.candidates.length}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={verdictFilter}
+                onChange={(e) => setVerdictFilter(e.target.value)}
+                className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border rounded-sm"
+              >
+                <option value="">All verdicts</option>
+                {VERDICTS.map(verdict => (
+                  <option key={verdict} value={verdict}>{verdict}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-gray-300">
+                Min alignment
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={minAlignment}
+                  onChange={(e) => setMinAlignment(Number(e.target.value))}
+                  className="w-20 px-2 py-2 bg-gray-600/40 text-gray-200/80 border rounded-sm"
+                />
+              </label>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search candidates"
+                className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border rounded-sm"
+              />
+            </div>
+
+            {/* Candidates */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left text-gray-300">
+                <thead className="text-xs uppercase text-gray-400 border-b border-gray-700">
+                  <tr>
+                    <th className="py-2 pr-2" />
+                    {COLUMNS.map(column => (
+                      <th key={column.key} className="py-2 pr-4">
+                        <button onClick={() => toggleSort(column.key)} className="uppercase hover:text-gray-200">
+                          {column.label}
+                          {sortKey === column.key && (sortDescending ? ' ▼' : ' ▲')}
+                        </button>
+                      </th>
+                    ))}
+                    <th className="py-2 pr-4">Verdict</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {candidates.map(candidate => (
+                    <tr key={candidate.session_id} className="border-b border-gray-800">
+                      <td className="py-2 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(candidate.session_id)}
+                          disabled={!selected.includes(candidate.session_id) && selected.length >= MAX_SELECTED}
+                          onChange={() => toggleSelected(candidate.session_id)}
+                        />
+                      </td>
+                      <td className="py-2 pr-4 text-gray-200">
+                        {getCandidateLabel(candidate)}
+                        {candidate.evaluation_source === 'fallback' && (
+                          <span className="ml-2 text-xs text-red-500">(placeholder evaluation)</span>
+                        )}
+                        {(candidate.flagged_count ?? 0) > 0 && (
+                          <span className="ml-2 text-xs text-red-500">
+                            ({candidate.flagged_count} flagged answer{candidate.flagged_count === 1 ? '' : 's'})
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{new Date(candidate.createdAt).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4">{candidate.alignment_percentage}%</td>
+                      <td className="py-2 pr-4">{candidate.technical_score}/10</td>
+                      <td className="py-2 pr-4">{candidate.problem_solving_score}/10</td>
+                      <td className="py-2 pr-4">{candidate.communication_score}/10</td>
+                      <td className={`py-2 pr-4 font-medium ${getVerdictColor(candidate.final_verdict)}`}>
+                        {candidate.final_verdict}
+                      </td>
+                      <td className="py-2">
+                        <Link href={`/result/${candidate.session_id}`} className="text-blue-500 hover:text-blue-400">
+                          Result
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {candidates.length === 0 && (
+                <p className="text-gray-400 text-sm mt-4">No candidates match the filters.</p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-4 mt-4">
+              <button
+                onClick={compare}
+                disabled={selected.length < 2 || isComparing}
+                className="px-3 py-2 bg-blue-600 text-white rounded-sm text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isComparing ? 'Comparing...' : `Compare Selected (${selected.length}/${MAX_SELECTED})`}
+              </button>
+              <p className="text-xs text-gray-500">Select two or three candidates.</p>
+            </div>
+
+            {comparison && <ComparisonView comparison={comparison} />}
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
+
+function ComparisonView({ comparison }: { comparison: CandidateComparison }) {
+  const { candidates, questions } = comparison
+  const gridStyle = { gridTemplateColumns: `repeat(${candidates.length}, minmax(0, 1fr))` }
+
+  return (
+    <section className="mt-10 space-y-6">
+      <h2 className="text-xl font-semibold text-gray-200">Side by Side</h2>
+
+      <div className="grid gap-4" style={gridStyle}>
+        {candidates.map(candidate => (
+          <div key={candidate.session_id} className="bg-gray-800 rounded-sm p-4 text-sm">
+            <p className="text-gray-100 font-medium">{getCandidateLabel(candidate)}</p>
+            <p className={`mb-2 ${getVerdictColor(candidate.final_verdict)}`}>
+              {candidate.final_verdict} · {candidate.alignment_percentage}%
+            </p>
+            <p className="text-gray-400 mb-3">{candidate.summary}</p>
+            <p className="text-green-500 font-medium">Strengths</p>
+            <ul className="list-disc ml-5 text-gray-300 mb-3">
+              {candidate.strengths.map((item, i) => <li key={i}>{item}</li>)}
+            </ul>
+            <p className="text-orange-400 font-medium">Weaknesses</p>
+            <ul className="list-disc ml-5 text-gray-300">
+              {candidate.weaknesses.map((item, i) => <li key={i}>{item}</li>)}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {questions.map(question => (
+        <div key={question.label}>
+          <h3 className="text-sm font-semibold text-gray-300 mb-2">{question.label}</h3>
+          <div className="grid gap-4" style={gridStyle}>
+            {question.answers.map((answer, i) => (
+              <div key={candidates[i].session_id} className="bg-gray-900 border border-gray-800 rounded-sm p-3 text-sm">
+                {answer ? (
+                  <>
+                    <p className="text-gray-400 italic mb-2">{answer.question}</p>
+                    <p className="text-gray-200 whitespace-pre-wrap">{answer.answer || 'No answer provided'}</p>
+                    {answer.assessment && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Technical {answer.assessment.technical_score} · Problem solving {answer.assessment.problem_solving_score} · Communication {answer.assessment.communication_score}
+                      </p>
+                    )}
+                    {answer.followups.map((followup, j) => (
+                      <div key={j} className="mt-2 pl-3 border-l border-gray-700">
+                        <p className="text-gray-400 italic">{followup.question}</p>
+                        <p className="text-gray-300">{followup.answer || 'No answer provided'}</p>
+                      </div>
+                    ))}
+                  </>
+                ) : (
+                  <p className="text-gray-500 italic">Not asked</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </section>
+  )
+}
+
+function getCandidateLabel(candidate: CandidateSummary): string {
+  return candidate.candidateName || `Interview ${candidate.session_id.slice(0, 8)}`
+}
+
+function compareValues(a: CandidateSummary, b: CandidateSummary, key: SortKey): number {
+  if (key === 'candidateName') return getCandidateLabel(a).localeCompare(getCandidateLabel(b))
+  if (key === 'createdAt') return a.createdAt.localeCompare(b.createdAt)
+  return a[key] - b[key]
+}
+
+function getVerdictColor(verdict: CandidateSummary['final_verdict']): string {
+  switch (verdict) {
+    case 'Fit':
+      return 'text-green-500'
+    case 'Maybe':
+      return 'text-yellow-500'
+    case 'Reject':
+      return 'text-red-500'
+  }
+}
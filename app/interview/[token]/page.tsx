@@ -0,0 +1,1165 @@
+'use client'
+
+/**
+ * Interview Page - Refactored Architecture
+ * 
+ * ARCHITECTURE OVERVIEW:
+ * This page implements a dynamic AI-driven interview system with the following components:
+ * 
+ * 1. INTERVIEW STATE CONTROLLER (server-side):
+ *    - lib/interview-state.ts is an explicit state machine
+ *      (initializing → in_progress → evaluating → completed)
+ *    - The server owns the state; this page echoes back the state it was given
+ *      and /api/next-question rejects any state that was tampered with
+ * 
+ * 2. AI QUESTION GENERATION:
+ *    - The server builds the interview blueprint once, before the first question
+ *    - Uses /api/next-question for both AI-generated and manual questions
+ *    - Server decides: main question vs follow-up based on answer quality
+ * 
+ * 3. SPOKEN AI INTERVIEWER:
+ *    - Questions stream in over Server-Sent Events (/api/next-question/stream)
+ *    - Browser TTS (SpeechSynthesis API) speaks each sentence as soon as it is complete
+ *    - AI never speaks directly - browser reads AI-generated text
+ *    - Questions are also displayed on screen for accessibility
+ *    - Speech recognition, synthesis (and its voice) and the page's own text follow
+ *      the interview's language (lib/languages.ts, lib/candidate-messages.ts)
+ * 
+ * 4. SPEECH-BASED ANSWERS:
+ *    - Browser Speech Recognition API captures candidate responses continuously:
+ *      pauses don't end the answer, and stopping then continuing appends to it
+ *    - Live transcript shown in real-time, with interim words as they are recognised
+ *    - Once stopped, the candidate can correct the transcript before submitting;
+ *      the server keeps both the edited answer and the raw recognised text
+ *    - Without Speech Recognition (Firefox, many Linux browsers) the microphone is
+ *      recorded with MediaRecorder in short segments, each transcribed by the
+ *      server's local STT engine (/api/interview/[token]/transcribe)
+ *    - Each answer is also recorded (camera + microphone) and uploaded before it is
+ *      submitted, so reviewers can replay it next to the transcript
+ *    - Coding questions add a code editor; the candidate can run the tests
+ *      (/api/interview/[token]/code) before submitting, and the server runs the
+ *      submitted code once more against every test case, hidden ones included
+ * 
+ * 5. TIME LIMITS:
+ *    - Optional per-question and total limits come with the interview state
+ *    - A countdown auto-submits whatever was said when a limit runs out
+ *    - Each answer reports when the question was shown and when speaking started and
+ *      stopped; the server clamps these to its own clock before recording them
+ * 
+ * 6. SESSION PERSISTENCE:
+ *    - Setup, blueprint and state live in a server-side session (/api/sessions)
+ *    - The URL carries an expiring invite token, not the session ID; the page only
+ *      talks to /api/interview/[token], which returns the candidate view of the
+ *      session (never the resume analysis, blueprint or evaluation)
+ *    - A reload resumes the interview
+ * 
+ * WHY THIS ARCHITECTURE:
+ * - State controller prevents infinite loops (max questions/follow-ups)
+ * - Unified API (/api/next-question) simplifies client logic
+ * - Pre-computed blueprint avoids re-analyzing JD+Resume per question
+ * - Server-authoritative state stops candidates extending or shortening the interview
+ * - Browser APIs handle speech; only interview data goes to the server
+ */
+
+import { useState, useEffect, useRef } from 'react'
+import type { AnswerTiming, CandidateChallenge, CandidateInterview, CandidateNextQuestionRequest, InterviewState, NextQuestionResponse, NextQuestionStreamError, QuestionDeltaEvent, TranscriptionResponse, TranscriptionStatus, AnswerMediaUploadResponse, CodeRunRequest, CodeRunResult } from '@/types/interview'
+import type { SpeechRecognition, SpeechRecognitionEvent } from '@/types/speech-recognition'
+import { 
+  canContinueInterview,
+  getInterviewProgress,
+  getQuestionContext,
+  getRemainingTime,
+} from '@/lib/interview-state'
+import { readServerSentEvents } from '@/lib/sse'
+import {
+  isSegmentRecordingSupported,
+  startSegmentRecorder,
+  type SegmentRecorder,
+} from '@/lib/speech/segment-recorder'
+import { startAnswerRecording, type AnswerRecording } from '@/lib/answer-recorder'
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/languages'
+import { getCandidateMessages, type CandidateError } from '@/lib/candidate-messages'
+import { CODE_LANGUAGE_LABELS } from '@/lib/coding/challenges'
+
+
+export default function InterviewPage({ params }: { params: { token: string } }) {
+  const { token } = params
+  
+  // Candidate view of the interview (from the invite)
+  const [interview, setInterview] = useState<CandidateInterview | null>(null)
+  
+  // Interview state (managed by state controller)
+  const [interviewState, setInterviewState] = useState<InterviewState | null>(null)
+  const [currentQuestion, setCurrentQuestion] = useState<string | null>(null)
+  
+  // Answer recording
+  const [currentAnswer, setCurrentAnswer] = useState('')
+  const [isRecording, setIsRecording] = useState(false)
+  const [isListening, setIsListening] = useState(false)
+  // Words the recogniser has heard but not settled on yet
+  const [interimText, setInterimText] = useState('')
+  // 'server' when the browser lacks Speech Recognition and answers are recorded for server STT
+  const [speechMode, setSpeechMode] = useState<'browser' | 'server' | null>(null)
+  const [pendingSegments, setPendingSegments] = useState(0)
+  
+  // Coding questions: the challenge as the candidate sees it, their code and its last test run
+  const [challenge, setChallenge] = useState<CandidateChallenge | null>(null)
+  const [code, setCode] = useState('')
+  const [codeRun, setCodeRun] = useState<CodeRunResult | null>(null)
+  const [isRunningCode, setIsRunningCode] = useState(false)
+  
+  // UI state
+  const [error, setError] = useState<CandidateError | null>(null)
+  const [cameraPermission, setCameraPermission] = useState<boolean | null>(null)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const [isLoadingQuestion, setIsLoadingQuestion] = useState(false)
+  const [isInitializing, setIsInitializing] = useState(true)
+  const [isComplete, setIsComplete] = useState(false)
+  
+  // Countdown (seconds; null when there is no limit)
+  const [timeLeft, setTimeLeft] = useState<{ question: number | null; total: number | null }>({
+    question: null,
+    total: null,
+  })
+  
+  // Refs for browser APIs
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const recognitionRef = useRef<SpeechRecognition | null>(null)
+  const segmentRecorderRef = useRef<SegmentRecorder | null>(null)
+  // Pending segment transcriptions, chained so they land in recording order (server STT only)
+  const transcriptionRef = useRef<Promise<void>>(Promise.resolve())
+  // Camera + microphone recording of the current answer, and the finished one
+  const answerRecordingRef = useRef<AnswerRecording | null>(null)
+  // The answer as shown and edited by the candidate, and as recognised; refs so
+  // async handlers always see the latest text
+  const answerTextRef = useRef('')
+  const rawAnswerRef = useRef('')
+  // Continuous capture keeps restarting the recogniser while this is set
+  const listeningRef = useRef(false)
+  const synthRef = useRef<SpeechSynthesis | null>(null)
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null)
+  const spokenLengthRef = useRef(0)
+  // BCP 47 tag of the interview language, for recognition, synthesis and server STT
+  const localeRef = useRef(LANGUAGES[DEFAULT_LANGUAGE].locale)
+  
+  // Answer timing and countdown deadlines (client clock, ms)
+  const questionShownAtRef = useRef<number | null>(null)
+  const answerStartedAtRef = useRef<number | null>(null)
+  const answerEndedAtRef = useRef<number | null>(null)
+  const questionDeadlineRef = useRef<number | null>(null)
+  const totalDeadlineRef = useRef<number | null>(null)
+  const timedOutQuestionRef = useRef<string | undefined>(undefined)
+
+  // Candidate-facing text, in the interview language once it is known
+  const t = getCandidateMessages(interview?.language)
+
+  // ============================================
+  // INITIALIZATION
+  // ============================================
+
+  /**
+   * Initialize TTS
+   * ARCHITECTURE NOTE: Browser TTS is initialized once and reused throughout interview
+   */
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      synthRef.current = window.speechSynthesis
+    }
+  }, [])
+
+  /**
+   * Load interview session and initialize
+   * ARCHITECTURE FLOW:
+   * 1. Load the candidate view (role and authoritative state) for the invite token
+   * 2. If the interview was already under way: resume the current question
+   * 3. Otherwise ask the server for the first question
+   *    (it analyzes the profile first when using AI-generated questions)
+   */
+  useEffect(() => {
+    const initializeInterview = async () => {
+      try {
+        const response = await fetch(`/api/interview/${token}`)
+        if (response.status === 404 || response.status === 410) {
+          setError(response.status === 404 ? 'notFound' : 'linkExpired')
+          setIsInitializing(false)
+          return
+        }
+        if (!response.ok) {
+          throw new Error('Failed to load interview')
+        }
+
+        const candidate: CandidateInterview = await response.json()
+        localeRef.current = LANGUAGES[candidate.language].locale
+        document.documentElement.lang = localeRef.current
+        setInterview(candidate)
+
+        const { interview_phase } = candidate.state
+        if (interview_phase === 'evaluating' || interview_phase === 'completed') {
+          setIsComplete(true)
+          setIsInitializing(false)
+          return
+        }
+
+        setInterviewState(candidate.state)
+
+        // Resume where the candidate left off
+        if (interview_phase === 'in_progress' && candidate.current_question) {
+          setCurrentQuestion(candidate.current_question)
+          startChallenge(candidate.current_challenge)
+          startQuestionClock(candidate.state, true)
+          setIsInitializing(false)
+          speakQuestion(candidate.current_question)
+          return
+        }
+
+        await loadNextQuestion({ interview_state: candidate.state })
+        setIsInitializing(false)
+      } catch (e) {
+        console.error('Failed to initialize interview:', e)
+        setError('loadFailed')
+        setIsInitializing(false)
+      }
+    }
+
+    initializeInterview()
+  }, [token])
+
+  /**
+   * Load Next Question
+   * ARCHITECTURE FLOW:
+   * 1. Call /api/interview/[token]/next-question with the last answer and the state we were given
+   * 2. Server validates the state, records the answer and decides: main question or follow-up
+   * 3. Render and speak the question while it streams in
+   * 4. Replace local state with the server's from the final event
+   */
+  const loadNextQuestion = async (request: CandidateNextQuestionRequest) => {
+    setIsLoadingQuestion(true)
+    try {
+      const response = await fetch(`/api/interview/${token}/next-question`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      })
+
+      if (response.status === 410) {
+        setError('linkExpired')
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to get next question')
+      }
+
+      let streamed = ''
+      let result: NextQuestionResponse | null = null
+      let streamError: NextQuestionStreamError | null = null
+      spokenLengthRef.current = 0
+
+      await readServerSentEvents(response, ({ event, data }) => {
+        if (event === 'question-delta') {
+          const { text } = JSON.parse(data) as QuestionDeltaEvent
+          if (!streamed) {
+            synthRef.current?.cancel()
+            resetAnswer()
+            startChallenge(undefined)
+            questionShownAtRef.current = Date.now()
+          }
+          streamed += text
+          setCurrentQuestion(streamed)
+          speakCompletedSentences(streamed, false)
+        } else if (event === 'done') {
+          result = JSON.parse(data) as NextQuestionResponse
+        } else if (event === 'error') {
+          streamError = JSON.parse(data) as NextQuestionStreamError
+        }
+      })
+
+      if (streamError) {
+        const { status, error, violations } = streamError as NextQuestionStreamError
+        if (status === 409) {
+          console.error('Interview state rejected:', violations)
+          setError('outOfSync')
+          return
+        }
+        throw new Error(error)
+      }
+
+      if (!result) {
+        throw new Error('Question stream ended early')
+      }
+
+      const data: NextQuestionResponse = result
+      setInterviewState(data.updated_state)
+
+      if (data.interview_complete) {
+        // Interview complete; the admin runs the evaluation
+        finishInterview()
+        return
+      }
+
+      if (data.question) {
+        setCurrentQuestion(data.question)
+        startChallenge(data.challenge)
+        startQuestionClock(data.updated_state, false)
+        if (data.question.trim() === streamed.trim()) {
+          speakCompletedSentences(streamed, true)
+        } else {
+          // The server fell back to a different question than it streamed
+          speakQuestion(data.question)
+        }
+      }
+    } catch (error) {
+      console.error('Error loading next question:', error)
+      setError('nextQuestionFailed')
+    } finally {
+      setIsLoadingQuestion(false)
+    }
+  }
+
+  // COUNTDOWN
+
+  /**
+   * Start Question Clock
+   * A new question gets its full limit from now; a resumed one gets what the
+   * server says is left. The total deadline always follows the server.
+   */
+  const startQuestionClock = (state: InterviewState, resumed: boolean) => {
+    const now = Date.now()
+    const remaining = getRemainingTime(state, now)
+    const questionSeconds = resumed ? remaining.question : state.question_time_limit_seconds ?? null
+
+    if (resumed || questionShownAtRef.current === null) {
+      questionShownAtRef.current = now
+    }
+    answerStartedAtRef.current = null
+    answerEndedAtRef.current = null
+    questionDeadlineRef.current = questionSeconds === null ? null : now + questionSeconds * 1000
+    totalDeadlineRef.current = remaining.total === null ? null : now + remaining.total * 1000
+  }
+
+  useEffect(() => {
+    if (interviewState?.interview_phase !== 'in_progress') return
+
+    const tick = () => {
+      const now = Date.now()
+      const left = (deadline: number | null) =>
+        deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000))
+      setTimeLeft({
+        question: left(questionDeadlineRef.current),
+        total: left(totalDeadlineRef.current),
+      })
+    }
+
+    tick()
+    const timer = setInterval(tick, 500)
+    return () => clearInterval(timer)
+  }, [interviewState])
+
+  /**
+   * Auto-advance once per question when either limit runs out
+   */
+  useEffect(() => {
+    if (!interviewState || interviewState.interview_phase !== 'in_progress') return
+    if (isLoadingQuestion || (timeLeft.question !== 0 && timeLeft.total !== 0)) return
+    if (timedOutQuestionRef.current === interviewState.current_question_id) return
+
+    timedOutQuestionRef.current = interviewState.current_question_id
+    saveAnswer(true)
+  }, [timeLeft])
+
+  // SPEECH SYNTHESIS (TTS)
+  
+  const speakQuestion = (question: string) => {
+    if (!synthRef.current) return
+
+    // Stop any ongoing speech
+    synthRef.current.cancel()
+    spokenLengthRef.current = question.length
+    queueSpeech(question)
+  }
+
+  /**
+   * Speak Completed Sentences
+   * Queues every sentence of a streaming question that has not been spoken yet.
+   * Until the stream is final, a trailing partial sentence is held back.
+   */
+  const speakCompletedSentences = (text: string, isFinal: boolean) => {
+    const pending = text.slice(spokenLengthRef.current)
+    const match = isFinal ? pending : pending.match(/^[\s\S]*[.?!](\s|$)/)?.[0]
+    if (!match || !match.trim()) return
+
+    spokenLengthRef.current += match.length
+    queueSpeech(match.trim())
+  }
+
+  const queueSpeech = (text: string) => {
+    if (!synthRef.current) return
+
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.rate = 0.9 // Slightly slower for clarity
+    utterance.pitch = 1
+    utterance.volume = 1
+    utterance.lang = localeRef.current
+    const voice = findVoice(synthRef.current.getVoices(), localeRef.current)
+    if (voice) utterance.voice = voice
+
+    utterance.onstart = () => {
+      setIsSpeaking(true)
+    }
+
+    utterance.onend = () => {
+      setIsSpeaking(false)
+    }
+
+    utterance.onerror = () => {
+      setIsSpeaking(false)
+    }
+
+    utteranceRef.current = utterance
+    synthRef.current.speak(utterance)
+  }
+
+  // SPEECH RECOGNITION
+  
+  useEffect(() => {
+  if (!interview) return
+
+  const SR =
+    window.SpeechRecognition || (window as any).webkitSpeechRecognition
+  if (!SR) {
+    // Fall back to recording the answer for the server to transcribe
+    fetch(`/api/interview/${token}/transcribe`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((status: TranscriptionStatus | null) => {
+        if (status?.available && isSegmentRecordingSupported()) {
+          setSpeechMode('server')
+        } else {
+          setError('speechUnsupported')
+        }
+      })
+      .catch(() => setError('speechUnsupported'))
+    return
+  }
+
+  setSpeechMode('browser')
+  const recognition = new SR()
+  // Continuous capture: a pause does not end the answer, and the browser's own
+  // end of a session (silence, time limits) is followed by a restart
+  recognition.continuous = true
+  recognition.interimResults = true
+  recognition.lang = localeRef.current
+
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    let interim = ''
+    // Results before resultIndex are unchanged, and each result turns final once
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const transcript = event.results[i][0].transcript
+      if (event.results[i].isFinal) {
+        appendRecognizedText(transcript)
+      } else {
+        interim += transcript
+      }
+    }
+    setInterimText(interim.trim())
+  }
+
+  recognition.onerror = (event) => {
+    // Other errors (no-speech, network) end the session and onend restarts it
+    if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+      listeningRef.current = false
+      setError('microphoneDenied')
+    }
+  }
+
+  recognition.onend = () => {
+    setInterimText('')
+    if (listeningRef.current) {
+      try {
+        recognition.start()
+        return
+      } catch (e) {
+        console.error('Failed to restart recognition:', e)
+      }
+    }
+    listeningRef.current = false
+    setIsRecording(false)
+    setIsListening(false)
+  }
+
+  recognitionRef.current = recognition
+
+  return () => {
+    recognition.abort()
+  }
+}, [interview, token])
+
+
+  // cam init 
+
+  useEffect(() => {
+    if (!interview) return
+
+    const initCamera = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: true,
+          audio: true,
+        })
+        
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream
+          streamRef.current = stream
+          setCameraPermission(true)
+        }
+      } catch (err) {
+        console.error('Camera/microphone access denied:', err)
+        setCameraPermission(false)
+        setError('cameraRequired')
+      }
+    }
+
+    initCamera()
+
+    return () => {
+      if (streamRef.current) {
+        streamRef.current.getTracks().forEach(track => track.stop())
+      }
+    }
+  }, [interview])
+
+ 
+ 
+  const startAnswer = () => {
+    if (speechMode === 'server') {
+      startRecordedAnswer()
+      return
+    }
+
+    if (!recognitionRef.current) {
+      setError('recognitionNotInitialized')
+      return
+    }
+
+    try {
+      listeningRef.current = true
+      recognitionRef.current.start()
+      markAnswerStarted()
+    } catch (e) {
+      listeningRef.current = false
+      console.error('Failed to start recognition:', e)
+      setError('recognitionFailed')
+    }
+  }
+
+  const markAnswerStarted = () => {
+    startMediaRecording()
+    setIsRecording(true)
+    setIsListening(true)
+    // Dictating again continues the answer, and keeps its original start time
+    if (answerStartedAtRef.current === null) {
+      answerStartedAtRef.current = Date.now()
+    }
+    answerEndedAtRef.current = null
+  }
+
+  /**
+   * Answer text: recognised speech is appended to both the raw transcript and
+   * the editable answer; the candidate's edits only change the latter
+   */
+  const setAnswerText = (text: string) => {
+    answerTextRef.current = text
+    setCurrentAnswer(text)
+  }
+
+  const appendRecognizedText = (text: string) => {
+    if (!text.trim()) return
+    rawAnswerRef.current = joinText(rawAnswerRef.current, text)
+    setAnswerText(joinText(answerTextRef.current, text))
+  }
+
+  const resetAnswer = () => {
+    rawAnswerRef.current = ''
+    setAnswerText('')
+    setInterimText('')
+  }
+
+  /**
+   * Media recording: paused while the candidate is not dictating, so an answer
+   * given in several bursts is still one recording. Recording is best effort
+   * and never blocks answering.
+   */
+  const startMediaRecording = () => {
+    if (answerRecordingRef.current) {
+      answerRecordingRef.current.resume()
+      return
+    }
+    if (!streamRef.current || !isSegmentRecordingSupported()) return
+
+    try {
+      answerRecordingRef.current = startAnswerRecording(streamRef.current)
+    } catch (e) {
+      console.error('Failed to start answer recording:', e)
+    }
+  }
+
+  const discardMediaRecording = () => {
+    answerRecordingRef.current?.stop()
+    answerRecordingRef.current = null
+  }
+
+  const uploadAnswerMedia = async (questionId?: string): Promise<string | undefined> => {
+    const recording = answerRecordingRef.current
+    answerRecordingRef.current = null
+    const media = await recording?.stop()
+    if (!media || !questionId) return undefined
+
+    try {
+      const query = new URLSearchParams({ question_id: questionId })
+      const response = await fetch(`/api/interview/${token}/media?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': media.type },
+        body: media,
+      })
+      if (!response.ok) {
+        throw new Error('Upload failed')
+      }
+
+      const result: AnswerMediaUploadResponse = await response.json()
+      return result.media_id
+    } catch (e) {
+      // The transcript still goes through without its recording
+      console.error('Failed to upload answer recording:', e)
+      return undefined
+    }
+  }
+
+  /**
+   * Server STT: record the microphone in segments and transcribe each one as
+   * it completes, appending to the answer in recording order
+   */
+  const startRecordedAnswer = () => {
+    if (!streamRef.current) {
+      setError('microphoneUnavailable')
+      return
+    }
+
+    try {
+      segmentRecorderRef.current = startSegmentRecorder(streamRef.current, transcribeSegment)
+      markAnswerStarted()
+    } catch (e) {
+      console.error('Failed to start recording:', e)
+      setError('recordingFailed')
+    }
+  }
+
+  const transcribeSegment = (audio: Blob) => {
+    setPendingSegments((count) => count + 1)
+
+    transcriptionRef.current = transcriptionRef.current.then(async () => {
+      try {
+        const form = new FormData()
+        form.append('audio', audio, 'answer-segment')
+
+        const response = await fetch(`/api/interview/${token}/transcribe`, {
+          method: 'POST',
+          body: form,
+        })
+        if (!response.ok) {
+          throw new Error('Transcription failed')
+        }
+
+        const result: TranscriptionResponse = await response.json()
+        appendRecognizedText(result.text)
+      } catch (e) {
+        console.error('Failed to transcribe segment:', e)
+        setError('transcriptionFailed')
+      } finally {
+        setPendingSegments((count) => count - 1)
+      }
+    })
+  }
+
+  
+  const stopAnswer = async () => {
+    answerRecordingRef.current?.pause()
+
+    const recorder = segmentRecorderRef.current
+    if (!recorder && !listeningRef.current) return
+
+    if (recorder) {
+      segmentRecorderRef.current = null
+    } else {
+      listeningRef.current = false
+      recognitionRef.current?.stop()
+    }
+    setIsRecording(false)
+    setIsListening(false)
+    answerEndedAtRef.current = Date.now()
+
+    // The last segment is handed over once the recorder has flushed it
+    await recorder?.stop()
+  }
+
+  const buildAnswerTiming = (): AnswerTiming => {
+    const iso = (time: number | null) => (time === null ? undefined : new Date(time).toISOString())
+    return {
+      question_shown_at: iso(questionShownAtRef.current),
+      answer_started_at: iso(answerStartedAtRef.current),
+      answer_ended_at: iso(answerEndedAtRef.current ?? Date.now()),
+    }
+  }
+
+  // CODING QUESTIONS
+
+  const startChallenge = (next: CandidateChallenge | undefined) => {
+    setChallenge(next ?? null)
+    setCode(next?.starter_code ?? '')
+    setCodeRun(null)
+  }
+
+  /**
+   * Run Tests
+   * Runs the code against the question's test cases without submitting it;
+   * hidden cases only say whether they passed
+   */
+  const runCode = async () => {
+    if (!interviewState?.current_question_id) return
+    setIsRunningCode(true)
+    try {
+      const response = await fetch(`/api/interview/${token}/code`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          question_id: interviewState.current_question_id,
+          code,
+        } satisfies CodeRunRequest),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to run code')
+      }
+
+      setCodeRun(await response.json())
+    } catch (e) {
+      console.error('Failed to run code:', e)
+      setError('codeRunFailed')
+    } finally {
+      setIsRunningCode(false)
+    }
+  }
+
+  // Tab indents instead of leaving the editor
+  const handleCodeKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || e.shiftKey) return
+    e.preventDefault()
+    const editor = e.currentTarget
+    const { selectionStart, selectionEnd } = editor
+    const indent = challenge?.language === 'python' ? '    ' : '  '
+    setCode(code.slice(0, selectionStart) + indent + code.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      editor.selectionStart = editor.selectionEnd = selectionStart + indent.length
+    })
+  }
+
+  /**
+   * Save Answer
+   * On timeout whatever has been said so far is submitted, even if nothing.
+   * For a coding question the code alone is an answer.
+   */
+  const saveAnswer = async (timedOut = false) => {
+    if (!interview || !interviewState || !currentQuestion) return
+    const submittedCode = challenge && code.trim() ? code : undefined
+    if (!timedOut && currentAnswer.trim().length === 0 && !submittedCode) {
+      alert(t.emptyAnswer)
+      return
+    }
+
+    // Refs, not isRecording: the timeout effect may hold a stale render
+    await stopAnswer()
+
+    // Recorded answers are complete once every segment has been transcribed
+    await transcriptionRef.current
+    const answer = answerTextRef.current.trim()
+    const rawAnswer = rawAnswerRef.current.trim()
+    const answerTiming = buildAnswerTiming()
+    resetAnswer()
+    questionShownAtRef.current = null
+
+    setIsLoadingQuestion(true)
+    const mediaId = await uploadAnswerMedia(interviewState.current_question_id)
+
+    // Server records the answer and returns the next question
+    await loadNextQuestion({
+      interview_state: interviewState,
+      last_answer: answer || undefined,
+      raw_answer: rawAnswer || undefined,
+      answer_timing: answerTiming,
+      timed_out: timedOut || undefined,
+      media_id: mediaId,
+      code: submittedCode,
+    })
+  }
+
+  /**
+   * Skip Question
+   */
+  const skipQuestion = () => {
+    if (!interview || !interviewState) return
+    
+    // Stop any ongoing speech
+    if (synthRef.current) {
+      synthRef.current.cancel()
+      setIsSpeaking(false)
+    }
+
+    discardMediaRecording()
+    questionShownAtRef.current = null
+    loadNextQuestion({
+      interview_state: interviewState,
+      skip: true,
+    })
+  }
+
+  
+  const finishInterview = () => {
+    // Stop camera stream
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop())
+    }
+
+    // Stop any ongoing speech
+    if (synthRef.current) {
+      synthRef.current.cancel()
+      setIsSpeaking(false)
+    }
+
+    // Final state is already stored server-side; results are for the admin only
+    setIsComplete(true)
+  }
+
+  if (isInitializing) {
+    return (
+      <main className="min-h-screen flex items-center bg-black justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">{t.initializing}</p>
+          <p className="text-sm text-gray-500 mt-2">{t.preparingQuestions}</p>
+        </div>
+      </main>
+    )
+  }
+
+  if (isComplete) {
+    return (
+      <main className="min-h-screen flex items-center bg-black justify-center px-4">
+        <div className="text-center max-w-md">
+          <h1 className="text-xl font-bold text-gray-100 mb-2">{t.thankYou}</h1>
+          <p className="text-gray-400 text-sm">
+            {t.interviewComplete(interview?.roleTitle)}
+          </p>
+        </div>
+      </main>
+    )
+  }
+
+  if (!interview || !interviewState) {
+    return (
+      <main className="min-h-screen flex items-center bg-black justify-center">
+        <div className="text-center">
+          <p className="text-gray-400">{error ? t.errors[error] : t.loadingInterview}</p>
+        </div>
+      </main>
+    )
+  }
+
+  const progress = getInterviewProgress(interviewState)
+  const context = getQuestionContext(interviewState)
+  const displayQuestion = currentQuestion || t.loadingQuestion
+
+  return (
+    <main className="min-h-screen bg-black py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-xl font-bold text-gray-100 mb-2">
+            {t.interviewTitle(interview.roleTitle)}
+          </h1>
+          <div className="w-full bg-gray-300 rounded-full h-1">
+            <div
+              className="bg-blue-600 h-1 rounded-full transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          <div className="flex justify-between items-center mt-2">
+            <p className="text-sm text-gray-400">
+              {t.questionProgress(context.questionNumber, context.totalQuestions)}
+              {context.isFollowUp && t.followUpProgress(context.followupCount, context.maxFollowups)}
+            </p>
+            {isLoadingQuestion ? (
+              <p className="text-sm text-blue-600">{t.loadingNextQuestion}</p>
+            ) : (timeLeft.question !== null || timeLeft.total !== null) && (
+              <p className={`text-sm ${timeLeft.question !== null && timeLeft.question <= 15 ? 'text-red-500' : 'text-gray-400'}`}>
+                {timeLeft.question !== null && t.timeLeft(formatSeconds(timeLeft.question))}
+                {timeLeft.question !== null && timeLeft.total !== null && ' · '}
+                {timeLeft.total !== null && t.totalTimeLeft(formatSeconds(timeLeft.total))}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Error Display */}
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-sm">
+            {t.errors[error]}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h2 className="text-lg font-semibold mb-2">{t.cameraPreview}</h2>
+            <div className="bg-gray-800 rounded-md overflow-hidden aspect-video">
+              {cameraPermission === false ? (
+                <div className="h-full flex items-center justify-center text-white">
+                  <p>{t.cameraDenied}</p>
+                </div>
+              ) : (
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  muted
+                  playsInline
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            {cameraPermission && (
+              <p className="text-xs text-gray-500 mt-1">
+                {t.recordingNotice}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-md font-semibold">
+                  {context.isFollowUp ? t.followUpQuestion : t.currentQuestion}
+                </h2>
+                {isSpeaking && (
+                  <span className="text-sm text-blue-600 flex items-center gap-2">
+                    <span className="w-2 h-2 bg-blue-600 rounded-full animate-pulse" />
+                    {t.speaking}
+                  </span>
+                )}
+                <button
+                  onClick={() => displayQuestion && speakQuestion(displayQuestion)}
+                  className="text-sm text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                  title={t.replayTitle}
+                >
+                  <span>🔊</span> {t.replay}
+                </button>
+              </div>
+              <div className="bg-gray-700 border  border-blue-200 rounded-md p-2">
+                <p className="text-gray-200 text-sm">{displayQuestion}</p>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-md font-semibold mb-2">{t.yourAnswer}</h2>
+              {challenge && (
+                <p className="text-xs text-gray-500 mb-1">{t.codingAnswerHint}</p>
+              )}
+              {!isRecording && currentAnswer ? (
+                <>
+                  <textarea
+                    value={currentAnswer}
+                    onChange={(e) => setAnswerText(e.target.value)}
+                    disabled={isLoadingQuestion}
+                    className="w-full bg-gray-700 border border-gray-300 rounded-md p-2 min-h-[200px] text-gray-200 text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {t.editHint}
+                  </p>
+                </>
+              ) : (
+                <div className="bg-gray-700 border border-gray-300 rounded-md p-2 min-h-[200px]">
+                  {currentAnswer || interimText ? (
+                    <p className="text-gray-800 whitespace-pre-wrap">
+                      {currentAnswer}
+                      {interimText && <span className="text-gray-400 italic"> {interimText}</span>}
+                    </p>
+                  ) : (
+                    <p className="text-gray-400 italic">
+                      {isRecording ? t.listening : t.startPrompt}
+                    </p>
+                  )}
+                </div>
+              )}
+              {speechMode === 'server' && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {pendingSegments > 0
+                    ? t.transcribing
+                    : t.serverTranscriptionHint}
+                </p>
+              )}
+              {isListening && (
+                <p className="text-sm text-green-600 mt-2 flex items-center gap-2">
+                  <span className="w-2 h-2 bg-green-600 rounded-full animate-pulse" />
+                  {t.recording}
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-2 flex-wrap">
+              {!isRecording ? (
+                <button
+                  onClick={startAnswer}
+                  disabled={isSpeaking || isLoadingQuestion}
+                  className="px-3 py-2 bg-green-600 text-white rounded-sm text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {currentAnswer ? t.continueAnswer : t.startAnswer}
+                </button>
+              ) : (
+                <button
+                  onClick={stopAnswer}
+                  className="px-3 py-2 bg-red-600 text-sm text-white rounded-sm hover:bg-red-700 transition-colors"
+                >
+                  {t.stopAnswer}
+                </button>
+              )}
+              
+              <button
+                onClick={() => saveAnswer()}
+                disabled={(!currentAnswer.trim() && !(challenge && code.trim())) || isLoadingQuestion || pendingSegments > 0 || isRunningCode}
+                className="px-3 py-2 bg-blue-600 text-white rounded-sm text-sm hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {canContinueInterview(interviewState) ? t.submitAnswer : t.finishInterview}
+              </button>
+              
+              <button
+                onClick={skipQuestion}
+                disabled={isLoadingQuestion}
+                className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-sm hover:bg-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t.skip}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {challenge && (
+          <div className="mt-6 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-md font-semibold">
+                {t.yourCode} · {CODE_LANGUAGE_LABELS[challenge.language]}
+              </h2>
+              <button
+                onClick={runCode}
+                disabled={isRunningCode || isLoadingQuestion || !code.trim()}
+                className="px-3 py-2 bg-green-600 text-white rounded-sm text-sm hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRunningCode ? t.runningTests : t.runTests}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {t.codingTask(CODE_LANGUAGE_LABELS[challenge.language], challenge.function_name)}
+            </p>
+            <textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={handleCodeKeyDown}
+              disabled={isLoadingQuestion}
+              spellCheck={false}
+              className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 min-h-[280px] text-gray-100 text-sm font-mono"
+            />
+
+            {challenge.examples.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-300 mb-1">{t.examples}</h3>
+                <ul className="text-xs font-mono text-gray-400 space-y-1">
+                  {challenge.examples.map((example, i) => (
+                    <li key={i}>
+                      {formatCall(challenge.function_name, example.args)} → {formatJson(example.expected)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {codeRun && (
+              <div className="bg-gray-800 border border-gray-600 rounded-md p-2 text-sm">
+                <p className={codeRun.status === 'passed' ? 'text-green-500' : 'text-red-500'}>
+                  {t.testsPassed(codeRun.passed, codeRun.total)}
+                </p>
+                {codeRun.status === 'timeout' ? (
+                  <p className="text-xs text-red-400 mt-1">{t.codeTimedOut}</p>
+                ) : codeRun.error && (
+                  <pre className="text-xs text-red-400 mt-1 whitespace-pre-wrap">{codeRun.error}</pre>
+                )}
+                <ul className="mt-2 space-y-2">
+                  {codeRun.tests.map((test, i) => (
+                    <li key={i} className="text-xs">
+                      <span className={test.passed ? 'text-green-500' : 'text-red-500'}>
+                        {test.passed ? '✓' : '✗'} {t.testLabel(i + 1, test.hidden)}
+                      </span>
+                      {!test.hidden && !test.passed && (
+                        <div className="font-mono text-gray-400 ml-4">
+                          {test.args && <p>{formatCall(challenge.function_name, test.args)}</p>}
+                          <p>{t.expected}: {formatJson(test.expected)}</p>
+                          {test.error ? (
+                            <p className="text-red-400">{test.error}</p>
+                          ) : (
+                            <p>{t.got}: {formatJson(test.actual)}</p>
+                          )}
+                        </div>
+                      )}
+                      {!test.hidden && test.output && (
+                        <pre className="font-mono text-gray-500 ml-4 whitespace-pre-wrap">
+                          {t.output}: {test.output}
+                        </pre>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+function joinText(text: string, addition: string): string {
+  return [text.trim(), addition.trim()].filter(Boolean).join(' ')
+}
+
+// An exact locale match, else any voice for the language
+function findVoice(voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | undefined {
+  const language = locale.split('-')[0].toLowerCase()
+  return (
+    voices.find((voice) => voice.lang.replace('_', '-').toLowerCase() === locale.toLowerCase()) ??
+    voices.find((voice) => voice.lang.toLowerCase().startsWith(language))
+  )
+}
+
+function formatCall(functionName: string, args: unknown[]): string {
+  return `${functionName}(${args.map(formatJson).join(', ')})`
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: typeof SpeechRecognition
+    webkitSpeechRecognition: typeof SpeechRecognition
+  }
+}
@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { LoginRequest } from '@/types/interview'
+
+/**
+ * Login Page
+ *
+ * Staff sign in here before setting up interviews or reading results, and
+ * are sent back to the page they came from. Candidates never see it: their
+ * invite link is all they need.
+ */
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
+  const router = useRouter()
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password } satisfies LoginRequest),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        setError(data?.error ?? 'Failed to sign in')
+        return
+      }
+
+      router.push(getNextPath(searchParams.next))
+      router.refresh()
+    } catch (e) {
+      console.error('Failed to sign in:', e)
+      setError('Failed to sign in')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-black flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="max-w-sm w-full space-y-4">
+        <h1 className="text-2xl font-bold text-gray-200 mb-4">Sign In</h1>
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 text-sm rounded-sm">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
+            Username
+          </label>
+          <input
+            type="text"
+            id="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+            Password
+          </label>
+          <input
+            type="password"
+            id="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </main>
+  )
+}
+
+// Only paths on this site, so the link cannot send anyone elsewhere. Resolved
+// as the browser would, since "/\evil.example" is another site too.
+function getNextPath(next: string | undefined): string {
+  if (!next) return '/sessions'
+
+  const url = new URL(next, window.location.origin)
+  return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/sessions'
+}
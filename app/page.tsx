@@ -20,10 +20,10 @@ export default function Home() {
             Admin Setup
           </Link>
           <Link
-            href="/interview"
+            href="/sessions"
             className="px-3 py-2 bg-gray-100 rounded-sm text-xs hover:bg-gray-200/90 transition-colors font-medium"
           >
-            Start Interview
+            Interviews
           </Link>
         </div>
       </div>
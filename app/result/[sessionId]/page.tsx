@@ -0,0 +1,672 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import type { CodeSubmission, ConsensusConfidence, DimensionConsensus, EvaluationConsensus, FlaggedAnswer, InterviewSetup, InterviewAnswer, InterviewSession, InterviewBlueprint, EvaluationResult, QuestionDifficulty, ReportFormat } from '@/types/interview'
+import { getAnswerDurations, getAnswerKey, getPeakDifficulty } from '@/lib/interview-state'
+import { COVERAGE_CATEGORIES, getBlueprintCoverage } from '@/lib/blueprint-coverage'
+import { DEFAULT_LANGUAGE, LANGUAGES, getInterviewLanguage } from '@/lib/languages'
+import { CODE_LANGUAGE_LABELS } from '@/lib/coding/challenges'
+import { describeGeneration } from '@/lib/provenance'
+import { describeSpread, describeVotes } from '@/lib/ai/consensus'
+import { describeInjection } from '@/lib/prompt-injection'
+
+/**
+ * Result Page
+ * 
+ * Displays the evaluation report after interview completion.
+ * Shows scores, strengths, weaknesses, and final verdict, plus the
+ * per-answer scores and quoted evidence behind them, which blueprint
+ * items each question covered, each answer's recording for replay, and the
+ * code and test results of coding questions. The prompt version and model
+ * behind the evaluation, the blueprint and each question are shown with them.
+ * When several evaluation runs were combined, each score shows how far the
+ * runs agreed on it, and the verdict shows how they voted.
+ * Answers that looked like attempts to instruct the model are listed above
+ * the scores and marked in the transcript.
+ * The evaluation is stored on the session, so it is only computed once.
+ */
+const EXPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+]
+
+const CONFIDENCE_STYLES: Record<ConsensusConfidence, string> = {
+  high: 'text-green-700',
+  medium: 'text-yellow-700',
+  low: 'text-red-700',
+}
+
+const DIFFICULTY_STYLES: Record<QuestionDifficulty, string> = {
+  easy: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  hard: 'bg-red-100 text-red-800',
+}
+
+export default function ResultPage({ params }: { params: { sessionId: string } }) {
+  const router = useRouter()
+  const { sessionId } = params
+  const [setup, setSetup] = useState<InterviewSetup | null>(null)
+  const [answers, setAnswers] = useState<InterviewAnswer[]>([])
+  const [blueprint, setBlueprint] = useState<InterviewBlueprint | null>(null)
+  const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${sessionId}`)
+        if (response.status === 404) {
+          alert('No interview session found')
+          router.push('/setup')
+          return
+        }
+        if (!response.ok) {
+          throw new Error('Failed to load session')
+        }
+
+        const session: InterviewSession = await response.json()
+        const history = session.state.conversation_history
+        const { interview_phase } = session.state
+
+        if (interview_phase !== 'evaluating' && interview_phase !== 'completed') {
+          alert('This interview has not finished yet')
+          router.push('/sessions')
+          return
+        }
+
+        setSetup(session.setup)
+        setAnswers(history)
+        setBlueprint(session.blueprint ?? null)
+
+        if (session.evaluation) {
+          setEvaluation(session.evaluation)
+          setIsLoading(false)
+          return
+        }
+
+        // Call evaluation API
+        evaluateInterview()
+      } catch (e) {
+        console.error('Failed to load session:', e)
+        setError('Failed to load interview data')
+        setIsLoading(false)
+      }
+    }
+
+    loadSession()
+  }, [router, sessionId])
+
+  const evaluateInterview = async () => {
+    try {
+      setIsLoading(true)
+      
+      // The server evaluates the stored transcript and saves the result on the session
+      const response = await fetch('/api/final-evaluation', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ session_id: sessionId }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Evaluation failed')
+      }
+
+      const result: EvaluationResult = await response.json()
+      setEvaluation(result)
+    } catch (e) {
+      console.error('Evaluation error:', e)
+      setError('Failed to evaluate interview. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getVerdictColor = (verdict: string) => {
+    switch (verdict) {
+      case 'Fit':
+        return 'bg-green-100 text-green-800 border-green-300'
+      case 'Maybe':
+        return 'bg-yellow-100 text-yellow-800 border-yellow-300'
+      case 'Reject':
+        return 'bg-red-100 text-red-800 border-red-300'
+      default:
+        return 'bg-gray-100 text-gray-800 border-gray-300'
+    }
+  }
+
+  const peakDifficulty = getPeakDifficulty(answers)
+  const language = setup ? getInterviewLanguage(setup) : DEFAULT_LANGUAGE
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Evaluating interview...</p>
+        </div>
+      </main>
+    )
+  }
+
+  if (error || !evaluation) {
+    return (
+      <main className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error || 'Failed to load evaluation'}</p>
+          <button
+            onClick={() => router.push('/sessions')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Go Back
+          </button>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Interview Evaluation Report</h1>
+          {setup && (
+            <p className="text-lg text-gray-600">Role: {setup.roleTitle}</p>
+          )}
+          {language !== DEFAULT_LANGUAGE && (
+            <p className="text-sm text-gray-500">
+              Interview held in {LANGUAGES[language].name}
+            </p>
+          )}
+          {setup?.redaction?.blind && (
+            <p className="text-sm text-gray-500">
+              Blind evaluation: personal details are shown as placeholders and recordings are hidden
+            </p>
+          )}
+          {peakDifficulty && (
+            <p className="text-sm text-gray-500">
+              Adaptive interview, highest difficulty reached: {peakDifficulty}
+            </p>
+          )}
+          {describeGeneration(evaluation.generation) && (
+            <p className="text-xs text-gray-400 mt-1">
+              Evaluated with {describeGeneration(evaluation.generation)}
+            </p>
+          )}
+        </div>
+
+        {/* Provenance */}
+        {evaluation.generation?.source === 'fallback' && (
+          <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-800 rounded-lg">
+            <p className="font-semibold">Automated evaluation failed</p>
+            <p className="text-sm">
+              The scores below are placeholders, not a model judgement. Review the transcript manually.
+            </p>
+            {evaluation.generation.errors && evaluation.generation.errors.length > 0 && (
+              <ul className="mt-2 text-xs list-disc ml-5">
+                {evaluation.generation.errors.map((message, index) => (
+                  <li key={index}>{message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        {evaluation.generation?.source === 'repair' && (
+          <div className="mb-6 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 text-sm rounded-lg">
+            The model&apos;s evaluation needed {evaluation.generation.attempts} attempts to match the expected format.
+          </div>
+        )}
+        {evaluation.flagged_answers && evaluation.flagged_answers.length > 0 && (
+          <FlaggedAnswers flagged={evaluation.flagged_answers} answers={answers} />
+        )}
+
+        {/* Alignment Percentage */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">Overall Alignment</h2>
+          <div className="mb-4">
+            <div className="flex justify-between mb-2">
+              <span className="text-gray-700 font-medium">Alignment with Job Description</span>
+              <span className="text-gray-900 font-bold text-xl">
+                {evaluation.alignment_percentage}%
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-6">
+              <div
+                className={`h-6 rounded-full transition-all ${
+                  evaluation.alignment_percentage >= 80
+                    ? 'bg-green-600'
+                    : evaluation.alignment_percentage >= 60
+                    ? 'bg-yellow-500'
+                    : 'bg-red-500'
+                }`}
+                style={{ width: `${evaluation.alignment_percentage}%` }}
+              />
+            </div>
+            {evaluation.consensus && (
+              <ScoreSpread dimension={evaluation.consensus.dimensions.alignment_percentage} unit="%" />
+            )}
+          </div>
+        </div>
+
+        {/* Scores */}
+        <div className="grid md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="text-sm font-medium text-gray-600 mb-2">Technical Score</h3>
+            <p className="text-3xl font-bold text-blue-600">{evaluation.technical_score}/10</p>
+            {evaluation.consensus && (
+              <ScoreSpread dimension={evaluation.consensus.dimensions.technical_score} unit="/10" />
+            )}
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="text-sm font-medium text-gray-600 mb-2">Problem Solving</h3>
+            <p className="text-3xl font-bold text-purple-600">{evaluation.problem_solving_score}/10</p>
+            {evaluation.consensus && (
+              <ScoreSpread dimension={evaluation.consensus.dimensions.problem_solving_score} unit="/10" />
+            )}
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="text-sm font-medium text-gray-600 mb-2">Communication</h3>
+            <p className="text-3xl font-bold text-green-600">{evaluation.communication_score}/10</p>
+            {evaluation.consensus && (
+              <ScoreSpread dimension={evaluation.consensus.dimensions.communication_score} unit="/10" />
+            )}
+          </div>
+        </div>
+
+        {/* Final Verdict */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-2xl font-semibold mb-4">Final Verdict</h2>
+          <div
+            className={`inline-block px-6 py-3 rounded-lg border-2 font-bold text-lg ${getVerdictColor(
+              evaluation.final_verdict
+            )}`}
+          >
+            {evaluation.final_verdict}
+          </div>
+          {evaluation.consensus && <ConsensusDetails consensus={evaluation.consensus} />}
+        </div>
+
+        {/* Strengths & Weaknesses */}
+        <div className="grid md:grid-cols-2 gap-6 mb-6">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-4 text-green-700">Strengths</h2>
+            <ul className="space-y-2">
+              {evaluation.strengths.map((strength, index) => (
+                <li key={index} className="flex items-start">
+                  <span className="text-green-600 mr-2">✓</span>
+                  <span className="text-gray-700">{strength}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-4 text-red-700">Areas for Improvement</h2>
+            <ul className="space-y-2">
+              {evaluation.weaknesses.map((weakness, index) => (
+                <li key={index} className="flex items-start">
+                  <span className="text-red-600 mr-2">•</span>
+                  <span className="text-gray-700">{weakness}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">Summary</h2>
+          <p className="text-gray-700 leading-relaxed">{evaluation.summary}</p>
+        </div>
+
+        {/* Blueprint Coverage */}
+        {blueprint && answers.length > 0 && (
+          <CoverageMatrix blueprint={blueprint} answers={answers} />
+        )}
+
+        {/* Q&A Review */}
+        {setup && answers.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4">Question & Answer Review</h2>
+            <div className="space-y-6">
+              {answers.map((answer, index) => {
+                const assessment = evaluation.answer_breakdown?.find(
+                  (item) => item.question_id === getAnswerKey(answer, index)
+                )
+                return (
+                  <div key={index} className="border-b border-gray-200 pb-4 last:border-b-0">
+                    <h3 className="font-semibold text-gray-900 mb-2">
+                      Q{index + 1}{answer.questionType === 'followup' ? ' (Follow-up)' : ''}: {answer.question}
+                      {answer.questionGeneration?.source === 'fallback' && (
+                        <span className="ml-2 text-xs font-normal text-red-600">(fallback question)</span>
+                      )}
+                    </h3>
+                    {describeGeneration(answer.questionGeneration) && (
+                      <p className="ml-4 mb-1 text-xs text-gray-400">
+                        Asked with {describeGeneration(answer.questionGeneration)}
+                      </p>
+                    )}
+                    {answer.difficulty && (
+                      <p className="ml-4 mb-1 text-xs text-gray-500">
+                        <span className={`px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[answer.difficulty]}`}>
+                          {answer.difficulty}
+                        </span>
+                        {answer.quality && <span className="ml-2">Graded {answer.quality} during the interview</span>}
+                      </p>
+                    )}
+                    <p className="text-gray-700 ml-4">
+                      {answer.answer || 'No answer provided'}
+                    </p>
+                    {answer.injection && (
+                      <p className="ml-4 mt-1 text-xs text-red-700">
+                        Possible prompt injection: {describeInjection(answer.injection)}
+                      </p>
+                    )}
+                    {answer.rawAnswer && answer.rawAnswer !== answer.answer && (
+                      <details className="ml-4 mt-1 text-xs text-gray-500">
+                        <summary className="cursor-pointer">Corrected by the candidate: show recognised speech</summary>
+                        <p className="mt-1 whitespace-pre-wrap">{answer.rawAnswer}</p>
+                      </details>
+                    )}
+                    {answer.code && <CodeSubmissionView submission={answer.code} />}
+                    {answer.media && (
+                      <AnswerMediaPlayer
+                        src={`/api/sessions/${sessionId}/media/${answer.media.id}`}
+                        mimeType={answer.media.mimeType}
+                      />
+                    )}
+                    {(answer.answerEndedAt || answer.timedOut) && (
+                      <p className="ml-4 mt-1 text-xs text-gray-500">
+                        {describeAnswerTiming(answer)}
+                      </p>
+                    )}
+                    {assessment && (
+                      <div className="ml-4 mt-3 p-3 bg-gray-50 border border-gray-200 rounded-md text-sm">
+                        <div className="flex gap-4 mb-2 font-medium">
+                          <span className="text-blue-600">Technical {assessment.technical_score}/10</span>
+                          <span className="text-purple-600">Problem Solving {assessment.problem_solving_score}/10</span>
+                          <span className="text-green-600">Communication {assessment.communication_score}/10</span>
+                        </div>
+                        {assessment.rationale && (
+                          <p className="text-gray-700 mb-2">{assessment.rationale}</p>
+                        )}
+                        {assessment.evidence.length > 0 && (
+                          <ul className="space-y-1">
+                            {assessment.evidence.map((quote, quoteIndex) => (
+                              <li key={quoteIndex} className="text-gray-600 italic border-l-2 border-gray-300 pl-2">
+                                &ldquo;{quote}&rdquo;
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-4">
+          <button
+            onClick={() => router.push('/sessions')}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            All Interviews
+          </button>
+          <button
+            onClick={() => router.push('/setup')}
+            className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors font-medium"
+          >
+            Admin Setup
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="flex gap-4 mt-4 text-sm">
+          <span className="text-gray-500">Export report:</span>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={`/api/sessions/${sessionId}/report?format=${format}`}
+              download
+              className="text-blue-600 hover:text-blue-700 underline"
+            >
+              {label}
+            </a>
+          ))}
+        </div>
+      </div>
+    </main>
+  )
+}
+
+function ScoreSpread({ dimension, unit }: { dimension: DimensionConsensus; unit: string }) {
+  return (
+    <p className={`text-xs mt-2 ${CONFIDENCE_STYLES[dimension.confidence]}`}>
+      Runs: {describeSpread(dimension, unit)}
+    </p>
+  )
+}
+
+function ConsensusDetails({ consensus }: { consensus: EvaluationConsensus }) {
+  return (
+    <div className="mt-4 text-sm text-gray-700">
+      <p>
+        Median of {consensus.succeeded} independent evaluation{consensus.succeeded === 1 ? '' : 's'}
+        {consensus.succeeded < consensus.runs && ` (${consensus.runs - consensus.succeeded} of ${consensus.runs} failed and were left out)`}.
+        Votes: {describeVotes(consensus)}.{' '}
+        <span className={`font-semibold ${CONFIDENCE_STYLES[consensus.confidence]}`}>
+          Confidence: {consensus.confidence}
+        </span>
+      </p>
+      {consensus.confidence === 'low' && (
+        <p className="mt-2 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-lg">
+          The runs disagreed. Treat this verdict as provisional and review the transcript before deciding.
+        </p>
+      )}
+      <details className="mt-2">
+        <summary className="cursor-pointer text-gray-500">Individual runs</summary>
+        <table className="mt-2 w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-2">Run</th>
+              <th className="py-1 pr-2">Alignment</th>
+              <th className="py-1 pr-2">Technical</th>
+              <th className="py-1 pr-2">Problem solving</th>
+              <th className="py-1 pr-2">Communication</th>
+              <th className="py-1 pr-2">Verdict</th>
+              <th className="py-1">Model</th>
+            </tr>
+          </thead>
+          <tbody>
+            {consensus.samples.map((sample, index) => (
+              <tr
+                key={index}
+                className={`border-t ${sample.generation?.source === 'fallback' ? 'text-gray-400 line-through' : ''}`}
+              >
+                <td className="py-1 pr-2">{index + 1}</td>
+                <td className="py-1 pr-2">{sample.scores.alignment_percentage}%</td>
+                <td className="py-1 pr-2">{sample.scores.technical_score}</td>
+                <td className="py-1 pr-2">{sample.scores.problem_solving_score}</td>
+                <td className="py-1 pr-2">{sample.scores.communication_score}</td>
+                <td className="py-1 pr-2">{sample.final_verdict}</td>
+                <td className="py-1">{describeGeneration(sample.generation) ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  )
+}
+
+function FlaggedAnswers({ flagged, answers }: { flagged: FlaggedAnswer[]; answers: InterviewAnswer[] }) {
+  const keys = answers.map((answer, index) => getAnswerKey(answer, index))
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border border-red-300 text-red-800 text-sm rounded-lg">
+      <p className="font-semibold">
+        {flagged.length === 1 ? 'One answer looks' : `${flagged.length} answers look`} like an attempt to instruct the AI evaluator.
+      </p>
+      <p className="mt-1">
+        The model was told to treat answers as the candidate&apos;s words only, but check the scores against the transcript before relying on them.
+      </p>
+      <ul className="mt-2 space-y-2">
+        {flagged.map((item) => {
+          const index = keys.indexOf(item.question_id)
+          return (
+            <li key={item.question_id}>
+              <span className="font-medium">{index >= 0 ? `Q${index + 1}` : item.question}</span>: {describeInjection(item)}
+              {item.excerpts.map((excerpt, i) => (
+                <blockquote key={i} className="ml-4 mt-1 italic text-red-700">&ldquo;{excerpt}&rdquo;</blockquote>
+              ))}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+function describeAnswerTiming(answer: InterviewAnswer): string {
+  const { thought, spoke, total } = getAnswerDurations(answer)
+
+  return [
+    thought !== undefined && `Thought ${thought}s`,
+    spoke !== undefined && `Spoke ${spoke}s`,
+    total !== undefined && `${total}s total`,
+    answer.timedOut && 'Ran out of time',
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+// Hidden tests are shown in full here: only the candidate never sees them
+function CodeSubmissionView({ submission }: { submission: CodeSubmission }) {
+  const { language, code, result } = submission
+
+  return (
+    <div className="ml-4 mt-2 text-sm">
+      <p className="text-xs text-gray-500 mb-1">
+        {CODE_LANGUAGE_LABELS[language]} ·{' '}
+        <span className={result.status === 'passed' ? 'text-green-600' : 'text-red-600'}>
+          {result.passed}/{result.total} tests passed
+        </span>
+        {result.status === 'timeout' && ' · Ran out of time'}
+      </p>
+      <pre className="bg-gray-900 text-gray-100 text-xs font-mono rounded-md p-3 overflow-x-auto">{code}</pre>
+      {result.error && result.status !== 'timeout' && (
+        <p className="mt-1 text-xs text-red-600 font-mono whitespace-pre-wrap">{result.error}</p>
+      )}
+      <ul className="mt-2 space-y-1 text-xs font-mono">
+        {result.tests.map((test, i) => (
+          <li key={i} className={test.passed ? 'text-green-700' : 'text-red-700'}>
+            {test.passed ? '✓' : '✗'} Test {i + 1}{test.hidden ? ' (hidden)' : ''}: ({(test.args ?? []).map(arg => JSON.stringify(arg)).join(', ')})
+            {' → '}{JSON.stringify(test.expected)}
+            {!test.passed && (test.error ? ` · ${test.error}` : ` · got ${JSON.stringify(test.actual)}`)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function CoverageMatrix({
+  blueprint,
+  answers,
+}: {
+  blueprint: InterviewBlueprint
+  answers: InterviewAnswer[]
+}) {
+  const coverage = getBlueprintCoverage(blueprint, answers)
+  const keys = answers.map((answer, index) => getAnswerKey(answer, index))
+  const uncoveredGaps = coverage.filter(
+    (entry) => entry.item.category === 'skill_gaps' && entry.answer_keys.length === 0
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">Blueprint Coverage</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Which questions probed each item of the interview blueprint.
+        {uncoveredGaps.length > 0 &&
+          ` ${uncoveredGaps.length} skill gap${uncoveredGaps.length === 1 ? ' was' : 's were'} never probed.`}
+      </p>
+      {describeGeneration(blueprint.generation) && (
+        <p className="text-xs text-gray-400 -mt-3 mb-4">
+          Blueprint built with {describeGeneration(blueprint.generation)}
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="text-left font-medium text-gray-700 py-2 pr-4">Item</th>
+              {answers.map((answer, index) => (
+                <th
+                  key={index}
+                  title={answer.question}
+                  className="font-medium text-gray-700 py-2 px-2 text-center"
+                >
+                  Q{index + 1}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {COVERAGE_CATEGORIES.map(({ category, label }) => {
+            const entries = coverage.filter((entry) => entry.item.category === category)
+            if (entries.length === 0) return null
+
+            return (
+              <tbody key={category}>
+                <tr>
+                  <td colSpan={answers.length + 1} className="pt-3 pb-1 text-xs uppercase text-gray-500">
+                    {label}
+                  </td>
+                </tr>
+                {entries.map(({ item, answer_keys }) => (
+                  <tr
+                    key={item.id}
+                    className={answer_keys.length === 0 ? 'bg-red-50' : ''}
+                  >
+                    <td className="py-1 pr-4 text-gray-800">
+                      {item.item}
+                      {answer_keys.length === 0 && (
+                        <span className="ml-2 text-xs text-red-600">not covered</span>
+                      )}
+                    </td>
+                    {keys.map((key) => (
+                      <td key={key} className="py-1 px-2 text-center text-green-600">
+                        {answer_keys.includes(key) ? '●' : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            )
+          })}
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function AnswerMediaPlayer({ src, mimeType }: { src: string; mimeType: string }) {
+  return mimeType.startsWith('audio/') ? (
+    <audio controls preload="metadata" src={src} className="ml-4 mt-2 w-full max-w-md" />
+  ) : (
+    <video
+      controls
+      preload="metadata"
+      src={src}
+      className="ml-4 mt-2 w-full max-w-md rounded-md bg-black"
+    />
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { InterviewSession, InviteLink, StaffUser } from '@/types/interview'
+
+/**
+ * Sessions Page
+ *
+ * Lists every interview session stored on the server so admins can
+ * send a candidate a fresh invite link or review the result afterwards.
+ * Reviewers see the same list without the admin actions.
+ */
+export default function SessionsPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<StaffUser | null>(null)
+  const [sessions, setSessions] = useState<InterviewSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [invites, setInvites] = useState<Record<string, InviteLink>>({})
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      try {
+        const response = await fetch('/api/sessions')
+        // The cookie outlived its session (signed out elsewhere, password reset)
+        if (response.status === 401) {
+          router.push('/login?next=/sessions')
+          return
+        }
+        if (!response.ok) {
+          throw new Error('Failed to load sessions')
+        }
+        setSessions(await response.json())
+      } catch (e) {
+        console.error('Failed to load sessions:', e)
+        setError('Failed to load interview sessions')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    const loadUser = async () => {
+      const response = await fetch('/api/auth/me')
+      if (response.ok) setUser(await response.json())
+    }
+
+    loadSessions()
+    loadUser()
+  }, [router])
+
+  const signOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    router.push('/login')
+  }
+
+  const isAdmin = user?.role === 'admin'
+
+  const createInvite = async (sessionId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/invites`, { method: 'POST' })
+      if (!response.ok) {
+        throw new Error('Failed to create invite link')
+      }
+      const invite: InviteLink = await response.json()
+      setInvites(current => ({ ...current, [sessionId]: invite }))
+    } catch (e) {
+      console.error('Failed to create invite:', e)
+      setError('Failed to create invite link')
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-black py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-2xl font-bold text-gray-200">Interviews</h1>
+          <div className="flex gap-2">
+            <Link
+              href="/dashboard"
+              className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+            >
+              Compare Candidates
+            </Link>
+            {isAdmin && (
+              <>
+                <Link
+                  href="/setup"
+                  className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+                >
+                  New Interview
+                </Link>
+                <Link
+                  href="/users"
+                  className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+                >
+                  Users
+                </Link>
+              </>
+            )}
+            <button
+              onClick={signOut}
+              title={user ? `Signed in as ${user.username}` : undefined}
+              className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-sm hover:bg-gray-300 transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
+        </div>
+
+        {isLoading && <p className="text-gray-400">Loading sessions...</p>}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-sm">
+            {error}
+          </div>
+        )}
+
+        {!isLoading && !error && sessions.length === 0 && (
+          <p className="text-gray-400">No interviews yet.</p>
+        )}
+
+        <ul className="space-y-2">
+          {sessions.map((session) => {
+            const finished =
+              session.state.interview_phase === 'evaluating' ||
+              session.state.interview_phase === 'completed'
+            const invite = invites[session.id]
+            return (
+              <li
+                key={session.id}
+                className="flex items-center justify-between bg-gray-800 rounded-sm px-4 py-3"
+              >
+                <div>
+                  <p className="text-gray-200 text-sm font-medium">
+                    {session.setup.roleTitle}
+                    {session.setup.candidateName && ` · ${session.setup.candidateName}`}
+                  </p>
+                  <p className="text-gray-400 text-xs">
+                    {new Date(session.createdAt).toLocaleString()} · {session.state.conversation_history.length} answers
+                    {session.evaluation && ` · ${session.evaluation.final_verdict}`}
+                  </p>
+                  {invite && (
+                    <p className="text-gray-300 text-xs mt-1 break-all">
+                      {invite.url} (expires {new Date(invite.expiresAt).toLocaleString()})
+                    </p>
+                  )}
+                </div>
+                {finished ? (
+                  <Link
+                    href={`/result/${session.id}`}
+                    className="text-sm text-blue-500 hover:text-blue-400"
+                  >
+                    View Result
+                  </Link>
+                ) : isAdmin && (
+                  <button
+                    onClick={() => createInvite(session.id)}
+                    className="text-sm text-blue-500 hover:text-blue-400"
+                  >
+                    {invite ? 'New Invite Link' : 'Invite Link'}
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    </main>
+  )
+}
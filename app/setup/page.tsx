@@ -2,15 +2,83 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import type { CodeLanguage, InterviewLanguage, InterviewSession, InterviewTemplate, InviteLink, InterviewTemplateInput, ManualCodingChallenge, ParseDocumentResponse, PiiCategory, PromptId, PromptTemplate, PromptVersions, RedactionSettings, ScoringPreferences } from '@/types/interview'
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES, LANGUAGES } from '@/lib/languages'
+import { CODE_LANGUAGES, CODE_LANGUAGE_LABELS } from '@/lib/coding/challenges'
+import { PROMPT_IDS, PROMPT_LABELS } from '@/lib/provenance'
+import { MAX_EVALUATION_RUNS } from '@/lib/ai/consensus'
+import { PII_CATEGORIES, PII_CATEGORY_LABELS } from '@/lib/redaction/pii'
+
+const DEFAULT_SCORING: ScoringPreferences = {
+  technical_weight: 1,
+  problem_solving_weight: 1,
+  communication_weight: 1,
+  fit_threshold: 75,
+  reject_threshold: 50,
+}
+
+const SCORING_FIELDS: { key: keyof ScoringPreferences; label: string; max: number }[] = [
+  { key: 'technical_weight', label: 'Technical weight', max: 10 },
+  { key: 'problem_solving_weight', label: 'Problem solving weight', max: 10 },
+  { key: 'communication_weight', label: 'Communication weight', max: 10 },
+  { key: 'fit_threshold', label: 'Fit at alignment ≥', max: 100 },
+  { key: 'reject_threshold', label: 'Reject below alignment', max: 100 },
+]
+
+const CODING_CHALLENGES_PLACEHOLDER = `[
+  {
+    "question_number": 2,
+    "language": "python",
+    "function_name": "two_sum",
+    "starter_code": "def two_sum(nums, target):\n    pass\n",
+    "tests": [
+      { "args": [[2, 7, 11, 15], 9], "expected": [0, 1] },
+      { "args": [[3, 3], 6], "expected": [0, 1], "hidden": true }
+    ]
+  }
+]`
+
+// The prompts an interview session uses; "evaluate" only serves /api/evaluate
+const SESSION_PROMPT_IDS = PROMPT_IDS.filter(id => id !== 'evaluate')
+const DYNAMIC_PROMPT_IDS: PromptId[] = ['analyze-profile', 'main-question', 'follow-up']
+
+// Everything is redacted from the model unless the admin opts out
+const DEFAULT_REDACTION: RedactionSettings = { categories: PII_CATEGORIES, blind: false }
+
+const DOCUMENT_ACCEPT = '.pdf,.docx,.md,.markdown,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/markdown,text/plain'
 
 export default function SetupPage() {
   const router = useRouter()
   const [roleTitle, setRoleTitle] = useState('')
+  const [candidateName, setCandidateName] = useState('')
   const [jobDescription, setJobDescription] = useState('')
   const [resume, setResume] = useState('')
   const [questions, setQuestions] = useState('')
   const [useDynamicQuestions, setUseDynamicQuestions] = useState(true)
+  const [maxQuestions, setMaxQuestions] = useState(7)
+  const [maxFollowups, setMaxFollowups] = useState(2)
+  const [scoring, setScoring] = useState<ScoringPreferences>(DEFAULT_SCORING)
+  // Empty means no limit
+  const [questionTimeLimit, setQuestionTimeLimit] = useState<number | ''>('')
+  const [totalTimeLimit, setTotalTimeLimit] = useState<number | ''>('')
+  // The candidate's language, and the hiring team's for the evaluation
+  const [language, setLanguage] = useState<InterviewLanguage>(DEFAULT_LANGUAGE)
+  const [reportLanguage, setReportLanguage] = useState<InterviewLanguage>(DEFAULT_LANGUAGE)
+  // AI-generated coding questions ('' for none), and challenges for manual questions as JSON
+  const [codingLanguage, setCodingLanguage] = useState<CodeLanguage | ''>('')
+  const [codingChallenges, setCodingChallenges] = useState('')
+  // Pinned prompt versions; unpinned prompts use their latest version
+  const [promptVersions, setPromptVersions] = useState<PromptVersions>({})
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([])
+  // Independent evaluations combined into the result; empty means the server default
+  const [evaluationRuns, setEvaluationRuns] = useState<number | ''>('')
+  // Personal details kept from the model, and whether reviewers see them
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION)
+  const [templates, setTemplates] = useState<InterviewTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [invite, setInvite] = useState<InviteLink | null>(null)
+  const [uploadingField, setUploadingField] = useState<'jobDescription' | 'resume' | null>(null)
 
   useEffect(() => {
     const savedData = localStorage.getItem('interviewSetup')
@@ -22,12 +90,178 @@ export default function SetupPage() {
         setResume(parsed.resume || '')
         setQuestions(parsed.questions?.join('\n') || '')
         setUseDynamicQuestions(parsed.useDynamicQuestions !== false) // Default to true
+        setMaxQuestions(parsed.maxQuestions ?? 7)
+        setMaxFollowups(parsed.maxFollowups ?? 2)
+        setScoring(parsed.scoring ?? DEFAULT_SCORING)
+        setQuestionTimeLimit(parsed.questionTimeLimitSeconds ?? '')
+        setTotalTimeLimit(parsed.totalTimeLimitMinutes ?? '')
+        setLanguage(parsed.language ?? DEFAULT_LANGUAGE)
+        setReportLanguage(parsed.reportLanguage ?? DEFAULT_LANGUAGE)
+        setCodingLanguage(parsed.codingLanguage ?? '')
+        setCodingChallenges(formatCodingChallenges(parsed.codingChallenges))
+        setPromptVersions(parsed.promptVersions ?? {})
+        setEvaluationRuns(parsed.evaluationRuns ?? '')
+        setRedaction(parsed.redaction ?? DEFAULT_REDACTION)
+        setTemplateId(parsed.templateId ?? '')
       } catch (e) {
         console.error('Failed to load saved data:', e)
       }
     }
+
+    loadTemplates()
+    loadPrompts()
   }, [])
 
+  // ============================================
+  // TEMPLATES
+  // ============================================
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch('/api/templates')
+      if (!response.ok) throw new Error('Failed to load templates')
+      setTemplates(await response.json())
+    } catch (error) {
+      console.error('Error loading templates:', error)
+    }
+  }
+
+  const loadPrompts = async () => {
+    try {
+      const response = await fetch('/api/prompts')
+      if (!response.ok) throw new Error('Failed to load prompts')
+      setPrompts(await response.json())
+    } catch (error) {
+      console.error('Error loading prompts:', error)
+    }
+  }
+
+  /**
+   * Apply Template
+   * Fills the form from a stored template; the resume stays as entered
+   */
+  const applyTemplate = (id: string) => {
+    setTemplateId(id)
+    const template = templates.find(t => t.id === id)
+    if (!template) return
+
+    setRoleTitle(template.roleTitle)
+    setJobDescription(template.jobDescription)
+    setQuestions(template.questions.join('\n'))
+    setUseDynamicQuestions(template.useDynamicQuestions)
+    setMaxQuestions(template.maxQuestions)
+    setMaxFollowups(template.maxFollowups)
+    setScoring(template.scoring)
+    setQuestionTimeLimit(template.questionTimeLimitSeconds ?? '')
+    setTotalTimeLimit(template.totalTimeLimitMinutes ?? '')
+    setLanguage(template.language ?? DEFAULT_LANGUAGE)
+    setReportLanguage(template.reportLanguage ?? DEFAULT_LANGUAGE)
+    setCodingLanguage(template.codingLanguage ?? '')
+    setCodingChallenges(formatCodingChallenges(template.codingChallenges))
+    setPromptVersions(template.promptVersions ?? {})
+    setEvaluationRuns(template.evaluationRuns ?? '')
+    setRedaction(template.redaction ?? DEFAULT_REDACTION)
+  }
+
+  const buildTemplateInput = (name: string): InterviewTemplateInput => ({
+    name,
+    roleTitle: roleTitle.trim(),
+    jobDescription: jobDescription.trim(),
+    questions: parseQuestions(questions),
+    maxQuestions,
+    maxFollowups,
+    useDynamicQuestions,
+    scoring,
+    questionTimeLimitSeconds: questionTimeLimit || undefined,
+    totalTimeLimitMinutes: totalTimeLimit || undefined,
+    language,
+    reportLanguage,
+    codingLanguage: codingLanguage || undefined,
+    codingChallenges: parseCodingChallenges(codingChallenges),
+    promptVersions: toPinnedVersions(promptVersions),
+    evaluationRuns: evaluationRuns || undefined,
+    redaction,
+  })
+
+  /**
+   * Save Template
+   * Creates a new template, or updates the selected one
+   */
+  const saveTemplate = async (mode: 'create' | 'update') => {
+    if (!roleTitle.trim() || !jobDescription.trim()) {
+      alert('Please fill in role title and job description')
+      return
+    }
+
+    const existing = templates.find(t => t.id === templateId)
+    const name = mode === 'update' && existing
+      ? existing.name
+      : window.prompt('Template name', roleTitle.trim())?.trim()
+    if (!name) return
+
+    try {
+      const response = await fetch(
+        mode === 'update' && existing ? `/api/templates/${existing.id}` : '/api/templates',
+        {
+          method: mode === 'update' && existing ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(buildTemplateInput(name)),
+        }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.join('\n') || data.error || 'Failed to save template')
+      }
+
+      const saved = data as InterviewTemplate
+      setTemplateId(saved.id)
+      await loadTemplates()
+    } catch (error) {
+      console.error('Template save error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to save template')
+    }
+  }
+
+  /**
+   * Upload Document
+   * Extracts text from a PDF/DOCX/Markdown/text file on the server and
+   * pre-fills the matching textarea
+   */
+  const uploadDocument = async (
+    field: 'jobDescription' | 'resume',
+    file: File | undefined
+  ) => {
+    if (!file) return
+
+    setUploadingField(field)
+    try {
+      const form = new FormData()
+      form.append('file', file)
+
+      const response = await fetch('/api/parse-document', {
+        method: 'POST',
+        body: form,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read document')
+      }
+
+      const { text } = data as ParseDocumentResponse
+      if (field === 'resume') {
+        setResume(text)
+      } else {
+        setJobDescription(text)
+      }
+    } catch (error) {
+      console.error('Document upload error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to read document')
+    } finally {
+      setUploadingField(null)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
   
@@ -46,18 +280,21 @@ export default function SetupPage() {
       return
     }
   
+    let challenges: ManualCodingChallenge[] | undefined
+    try {
+      challenges = parseCodingChallenges(codingChallenges)
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Invalid coding challenges')
+      return
+    }
+  
     setIsLoading(true)
   
     try {
-      let questionsList: string[] = []
+      // Manual questions in static mode, seed questions in AI mode
+      const questionsList = parseQuestions(questions)
   
       if (!useDynamicQuestions) {
-        // Manual questions ONLY parsed here
-        questionsList = questions
-          .split('\n')
-          .map(q => q.trim())
-          .filter(Boolean)
-  
         if (questionsList.length === 0) {
           alert('Please provide at least one interview question')
           setIsLoading(false)
@@ -67,18 +304,60 @@ export default function SetupPage() {
   
       const setupData = {
         roleTitle: roleTitle.trim(),
+        candidateName: candidateName.trim() || undefined,
         jobDescription: jobDescription.trim(),
         resume: resume.trim(),
         questions: questionsList,
         useDynamicQuestions,
+        templateId: templateId || undefined,
+        maxQuestions,
+        maxFollowups,
+        scoring,
+        questionTimeLimitSeconds: questionTimeLimit || undefined,
+        totalTimeLimitMinutes: totalTimeLimit || undefined,
+        language,
+        reportLanguage,
+        codingLanguage: codingLanguage || undefined,
+        codingChallenges: challenges,
+        promptVersions: toPinnedVersions(promptVersions),
+        evaluationRuns: evaluationRuns || undefined,
+        redaction,
         createdAt: new Date().toISOString(),
       }
   
+      // Keep the form as a draft for the next setup; the interview itself
+      // lives in the server-side session.
       localStorage.setItem('interviewSetup', JSON.stringify(setupData))
-      sessionStorage.setItem('interviewSetup', JSON.stringify(setupData))
-  
+
+      const response = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ setup: setupData }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        if (data?.details) {
+          alert(`${data.error}:\n${data.details.join('\n')}`)
+          setIsLoading(false)
+          return
+        }
+        throw new Error('Failed to create session')
+      }
+
+      const session: InterviewSession = await response.json()
+
+      // The candidate takes the interview from an expiring invite link
+      const inviteResponse = await fetch(`/api/sessions/${session.id}/invites`, {
+        method: 'POST',
+      })
+
+      if (!inviteResponse.ok) {
+        throw new Error('Failed to create invite link')
+      }
+
+      setInvite(await inviteResponse.json())
       setIsLoading(false)
-      router.push('/interview')
     } catch (error) {
       console.error('Setup error:', error)
       setIsLoading(false)
@@ -87,12 +366,94 @@ export default function SetupPage() {
   }
   
 
+  if (invite) {
+    return (
+      <main className="min-h-screen bg-black py-12 px-4">
+        <div className="max-w-3xl mx-auto">
+          <h1 className="text-2xl font-bold text-gray-200 mb-4">Interview Created</h1>
+          <p className="text-sm text-gray-400 mb-2">
+            Send this link to the candidate. It expires {new Date(invite.expiresAt).toLocaleString()}.
+          </p>
+          <div className="flex gap-2 mb-6">
+            <input
+              readOnly
+              value={invite.url}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm"
+            />
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(invite.url)}
+              className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+            >
+              Copy
+            </button>
+          </div>
+          <div className="flex gap-4">
+            <button
+              type="button"
+              onClick={() => router.push('/sessions')}
+              className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+            >
+              View Interviews
+            </button>
+            <button
+              type="button"
+              onClick={() => setInvite(null)}
+              className="px-3 py-2 bg-gray-200 text-gray-700 text-sm rounded-sm hover:bg-gray-300 transition-colors"
+            >
+              Set Up Another
+            </button>
+          </div>
+        </div>
+      </main>
+    )
+  }
+
   return (
     <main className="min-h-screen bg-black py-12 px-4">
       <div className="max-w-3xl mx-auto">
         <h1 className="text-2xl font-bold text-gray-200 mb-8">Admin Setup</h1>
         
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Template */}
+          <div>
+            <label htmlFor="template" className="block text-sm font-medium text-gray-300 mb-2">
+              Template
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="template"
+                value={templateId}
+                onChange={(e) => applyTemplate(e.target.value)}
+                className="flex-1 px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No template</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {templateId && (
+                <button
+                  type="button"
+                  onClick={() => saveTemplate('update')}
+                  className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+                >
+                  Update Template
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => saveTemplate('create')}
+                className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+              >
+                Save as Template
+              </button>
+            </div>
+          </div>
+
           {/* Role Title */}
           <div>
             <label htmlFor="roleTitle" className="block text-sm font-medium text-gray-300 mb-2">
@@ -109,11 +470,41 @@ export default function SetupPage() {
             />
           </div>
 
-          {/* Job Description */}
+          {/* Candidate Name */}
           <div>
-            <label htmlFor="jobDescription" className="block text-sm font-medium text-gray-300 mb-2">
-              Job Description *
+            <label htmlFor="candidateName" className="block text-sm font-medium text-gray-300 mb-2">
+              Candidate Name
             </label>
+            <input
+              type="text"
+              id="candidateName"
+              value={candidateName}
+              onChange={(e) => setCandidateName(e.target.value)}
+              placeholder="Shown on the comparison dashboard"
+              className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          {/* Job Description */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="jobDescription" className="block text-sm font-medium text-gray-300">
+                Job Description *
+              </label>
+              <label className="text-xs text-blue-500 hover:text-blue-400 cursor-pointer">
+                {uploadingField === 'jobDescription' ? 'Reading file...' : 'Upload PDF / DOCX / MD / TXT'}
+                <input
+                  type="file"
+                  accept={DOCUMENT_ACCEPT}
+                  className="hidden"
+                  disabled={uploadingField !== null}
+                  onChange={(e) => {
+                    uploadDocument('jobDescription', e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+            </div>
             <textarea
               id="jobDescription"
               value={jobDescription}
@@ -127,14 +518,29 @@ export default function SetupPage() {
 
           {/* Resume (for AI-generated questions) */}
           <div>
-            <label htmlFor="resume" className="block text-sm font-medium text-gray-300 mb-2">
-              Candidate Resume (for AI-generated questions)
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="resume" className="block text-sm font-medium text-gray-300">
+                Candidate Resume (for AI-generated questions)
+              </label>
+              <label className="text-xs text-blue-500 hover:text-blue-400 cursor-pointer">
+                {uploadingField === 'resume' ? 'Reading file...' : 'Upload PDF / DOCX / MD / TXT'}
+                <input
+                  type="file"
+                  accept={DOCUMENT_ACCEPT}
+                  className="hidden"
+                  disabled={uploadingField !== null}
+                  onChange={(e) => {
+                    uploadDocument('resume', e.target.files?.[0])
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+            </div>
             <textarea
               id="resume"
               value={resume}
               onChange={(e) => setResume(e.target.value)}
-              placeholder="Paste the candidate's resume text here..."
+              placeholder="Paste the candidate's resume text here, or upload a file..."
               rows={8}
               className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
@@ -157,8 +563,274 @@ export default function SetupPage() {
             </label>
           </div>
 
-          {/* Interview Questions (manual mode) */}
-          {!useDynamicQuestions && (
+          {/* Interview Limits */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="maxQuestions" className="block text-sm font-medium text-gray-300 mb-2">
+                Max main questions
+              </label>
+              <input
+                type="number"
+                id="maxQuestions"
+                min={1}
+                max={30}
+                value={maxQuestions}
+                onChange={(e) => setMaxQuestions(Number(e.target.value))}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="maxFollowups" className="block text-sm font-medium text-gray-300 mb-2">
+                Max follow-ups per question
+              </label>
+              <input
+                type="number"
+                id="maxFollowups"
+                min={0}
+                max={5}
+                value={maxFollowups}
+                disabled={!useDynamicQuestions}
+                onChange={(e) => setMaxFollowups(Number(e.target.value))}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {/* Time Limits */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="questionTimeLimit" className="block text-sm font-medium text-gray-300 mb-2">
+                Time per question (seconds)
+              </label>
+              <input
+                type="number"
+                id="questionTimeLimit"
+                min={10}
+                max={1800}
+                placeholder="No limit"
+                value={questionTimeLimit}
+                onChange={(e) => setQuestionTimeLimit(e.target.value ? Number(e.target.value) : '')}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label htmlFor="totalTimeLimit" className="block text-sm font-medium text-gray-300 mb-2">
+                Total time (minutes)
+              </label>
+              <input
+                type="number"
+                id="totalTimeLimit"
+                min={1}
+                max={240}
+                placeholder="No limit"
+                value={totalTimeLimit}
+                onChange={(e) => setTotalTimeLimit(e.target.value ? Number(e.target.value) : '')}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {/* Languages */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="language" className="block text-sm font-medium text-gray-300 mb-2">
+                Interview language
+              </label>
+              <select
+                id="language"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as InterviewLanguage)}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {INTERVIEW_LANGUAGES.map(code => (
+                  <option key={code} value={code}>
+                    {LANGUAGES[code].label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                What the candidate hears and reads. Write manual questions in this language.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="reportLanguage" className="block text-sm font-medium text-gray-300 mb-2">
+                Report language
+              </label>
+              <select
+                id="reportLanguage"
+                value={reportLanguage}
+                onChange={(e) => setReportLanguage(e.target.value as InterviewLanguage)}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {INTERVIEW_LANGUAGES.map(code => (
+                  <option key={code} value={code}>
+                    {LANGUAGES[code].label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                What the evaluation is written in for the hiring team.
+              </p>
+            </div>
+          </div>
+
+          {/* Coding Questions */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="codingLanguage" className="block text-sm font-medium text-gray-300 mb-2">
+                AI coding questions
+              </label>
+              <select
+                id="codingLanguage"
+                value={codingLanguage}
+                disabled={!useDynamicQuestions}
+                onChange={(e) => setCodingLanguage(e.target.value as CodeLanguage | '')}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+              >
+                <option value="">Off</option>
+                {CODE_LANGUAGES.map(code => (
+                  <option key={code} value={code}>
+                    {CODE_LANGUAGE_LABELS[code]}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                The AI may make a few main questions live coding tasks, with its own tests.
+              </p>
+            </div>
+            <div>
+              <label htmlFor="codingChallenges" className="block text-sm font-medium text-gray-300 mb-2">
+                Coding challenges for manual questions (JSON)
+              </label>
+              <textarea
+                id="codingChallenges"
+                value={codingChallenges}
+                disabled={useDynamicQuestions}
+                onChange={(e) => setCodingChallenges(e.target.value)}
+                placeholder={CODING_CHALLENGES_PLACEHOLDER}
+                rows={6}
+                spellCheck={false}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-xs font-mono rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Turns the numbered questions into coding questions. Hidden tests are never shown to the candidate.
+              </p>
+            </div>
+          </div>
+
+          {/* Scoring Preferences */}
+          <fieldset className="border border-gray-700 rounded-sm p-3">
+            <legend className="text-sm font-medium text-gray-300 px-1">Scoring</legend>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {SCORING_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label htmlFor={field.key} className="block text-xs text-gray-400 mb-1">
+                    {field.label}
+                  </label>
+                  <input
+                    type="number"
+                    id={field.key}
+                    min={0}
+                    max={field.max}
+                    value={scoring[field.key]}
+                    onChange={(e) => setScoring({ ...scoring, [field.key]: Number(e.target.value) })}
+                    className="w-full px-2 py-1 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-3">
+              <label htmlFor="evaluationRuns" className="text-xs text-gray-400">
+                Evaluation runs
+              </label>
+              <input
+                type="number"
+                id="evaluationRuns"
+                min={1}
+                max={MAX_EVALUATION_RUNS}
+                placeholder="Default"
+                value={evaluationRuns}
+                onChange={(e) => setEvaluationRuns(e.target.value ? Number(e.target.value) : '')}
+                className="w-24 px-2 py-1 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm"
+              />
+              <p className="text-xs text-gray-500">
+                More than one run scores the interview independently several times and reports the median with its confidence.
+              </p>
+            </div>
+          </fieldset>
+
+          {/* Prompt Versions */}
+          <fieldset className="border border-gray-700 rounded-sm p-3">
+            <legend className="text-sm font-medium text-gray-300 px-1">Prompt versions</legend>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {SESSION_PROMPT_IDS.map(id => {
+                const versions = prompts.filter(prompt => prompt.promptId === id)
+                const latest = versions[versions.length - 1]
+                return (
+                  <div key={id}>
+                    <label htmlFor={`prompt-${id}`} className="block text-xs text-gray-400 mb-1">
+                      {PROMPT_LABELS[id]}
+                    </label>
+                    <select
+                      id={`prompt-${id}`}
+                      value={promptVersions[id] ?? ''}
+                      disabled={!useDynamicQuestions && DYNAMIC_PROMPT_IDS.includes(id)}
+                      onChange={(e) => setPromptVersions({
+                        ...promptVersions,
+                        [id]: e.target.value ? Number(e.target.value) : undefined,
+                      })}
+                      className="w-full px-2 py-1 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm disabled:opacity-50"
+                    >
+                      <option value="">Latest{latest ? ` (v${latest.version})` : ''}</option>
+                      {versions.map(prompt => (
+                        <option key={prompt.version} value={prompt.version} title={prompt.description}>
+                          v{prompt.version}{prompt.builtin ? ' (built-in)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Pin a version to keep this interview on it when new versions are added. Every result records the prompt version and model behind it.
+            </p>
+          </fieldset>
+
+          {/* Privacy */}
+          <fieldset className="border border-gray-700 rounded-sm p-3">
+            <legend className="text-sm font-medium text-gray-300 px-1">Privacy</legend>
+            <p className="text-xs text-gray-400 mb-2">Replace with placeholders before anything is sent to the model:</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {PII_CATEGORIES.map(category => (
+                <label key={category} className="flex items-center gap-2 text-xs text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={redaction.categories.includes(category)}
+                    onChange={(e) => setRedaction({
+                      ...redaction,
+                      categories: toggleCategory(redaction.categories, category, e.target.checked),
+                    })}
+                  />
+                  {PII_CATEGORY_LABELS[category]}
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 mt-3">
+              <input
+                type="checkbox"
+                checked={redaction.blind ?? false}
+                onChange={(e) => setRedaction({ ...redaction, blind: e.target.checked })}
+              />
+              Blind evaluation
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Reviewers see the placeholders too, and no recordings, on the result page, the dashboard and the reports.
+            </p>
+          </fieldset>
+
+          {/* Interview Questions (manual mode) / seed questions (AI mode) */}
+          {!useDynamicQuestions ? (
             <div>
               <label htmlFor="questions" className="block text-sm font-medium text-gray-700 mb-2">
                 Interview Questions (one per line) *
@@ -175,6 +847,20 @@ export default function SetupPage() {
                 Enter each question on a new line. Questions will be asked in order.
               </p>
             </div>
+          ) : (
+            <div>
+              <label htmlFor="questions" className="block text-sm font-medium text-gray-300 mb-2">
+                Seed Questions (optional, one per line)
+              </label>
+              <textarea
+                id="questions"
+                value={questions}
+                onChange={(e) => setQuestions(e.target.value)}
+                placeholder="Questions the AI should work into the interview..."
+                rows={4}
+                className="w-full px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
           )}
 
           {/* Submit Button */}
@@ -184,7 +870,7 @@ export default function SetupPage() {
               disabled={isLoading}
               className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {isLoading ? 'Saving...' : 'Save & Start Interview'}
+              {isLoading ? 'Saving...' : 'Save & Create Invite Link'}
             </button>
             <button
               type="button"
@@ -200,3 +886,40 @@ export default function SetupPage() {
   )
 }
 
+function parseQuestions(text: string): string[] {
+  return text
+    .split('\n')
+    .map(q => q.trim())
+    .filter(Boolean)
+}
+
+// Empty text means none; the server validates the challenges themselves
+function parseCodingChallenges(text: string): ManualCodingChallenge[] | undefined {
+  if (!text.trim()) return undefined
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Coding challenges are not valid JSON')
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Coding challenges must be a JSON array')
+  }
+  return parsed
+}
+
+// Unpinned prompts are left out; undefined when nothing is pinned
+function toggleCategory(categories: PiiCategory[], category: PiiCategory, on: boolean): PiiCategory[] {
+  return PII_CATEGORIES.filter(c => (c === category ? on : categories.includes(c)))
+}
+
+function toPinnedVersions(versions: PromptVersions): PromptVersions | undefined {
+  const pinned = Object.fromEntries(
+    Object.entries(versions).filter(([, version]) => version !== undefined)
+  )
+  return Object.keys(pinned).length > 0 ? pinned : undefined
+}
+
+function formatCodingChallenges(challenges?: ManualCodingChallenge[]): string {
+  return challenges?.length ? JSON.stringify(challenges, null, 2) : ''
+}
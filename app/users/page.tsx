@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import type { CreateUserRequest, StaffRole, StaffUser, UpdateUserRequest } from '@/types/interview'
+
+/**
+ * Users Page
+ *
+ * Admins create staff accounts, change their roles, reset passwords and
+ * delete them. Admins set up interviews and manage accounts; reviewers read
+ * and evaluate finished interviews.
+ */
+
+const ROLES: { value: StaffRole; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'reviewer', label: 'Reviewer' },
+]
+
+const MIN_PASSWORD_LENGTH = 10
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<StaffUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // New account
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [role, setRole] = useState<StaffRole>('reviewer')
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      try {
+        const response = await fetch('/api/users')
+        if (!response.ok) {
+          const data = await response.json().catch(() => null)
+          throw new Error(data?.error ?? 'Failed to load users')
+        }
+        setUsers(await response.json())
+      } catch (e) {
+        console.error('Failed to load users:', e)
+        setError(e instanceof Error ? e.message : 'Failed to load users')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadUsers()
+  }, [])
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const response = await fetch('/api/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password, role } satisfies CreateUserRequest),
+    })
+    const data = await response.json().catch(() => null)
+
+    if (!response.ok) {
+      setError(describeError(data, 'Failed to create user'))
+      return
+    }
+
+    setUsers(current => [...current, data as StaffUser].sort((a, b) => a.username.localeCompare(b.username)))
+    setUsername('')
+    setPassword('')
+  }
+
+  const updateUser = async (id: string, update: UpdateUserRequest) => {
+    setError(null)
+
+    const response = await fetch(`/api/users/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(update),
+    })
+    const data = await response.json().catch(() => null)
+
+    if (!response.ok) {
+      setError(describeError(data, 'Failed to update user'))
+      return
+    }
+
+    setUsers(current => current.map(user => (user.id === id ? (data as StaffUser) : user)))
+  }
+
+  const resetPassword = (user: StaffUser) => {
+    const newPassword = prompt(`New password for ${user.username} (at least ${MIN_PASSWORD_LENGTH} characters)`)
+    if (newPassword) updateUser(user.id, { password: newPassword })
+  }
+
+  const deleteUser = async (user: StaffUser) => {
+    if (!confirm(`Delete ${user.username}?`)) return
+    setError(null)
+
+    const response = await fetch(`/api/users/${user.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      setError(describeError(data, 'Failed to delete user'))
+      return
+    }
+
+    setUsers(current => current.filter(u => u.id !== user.id))
+  }
+
+  return (
+    <main className="min-h-screen bg-black py-12 px-4">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-2xl font-bold text-gray-200">Users</h1>
+          <Link
+            href="/sessions"
+            className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+          >
+            Interviews
+          </Link>
+        </div>
+
+        {isLoading && <p className="text-gray-400">Loading users...</p>}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded-sm whitespace-pre-line">
+            {error}
+          </div>
+        )}
+
+        <ul className="space-y-2 mb-8">
+          {users.map(user => (
+            <li
+              key={user.id}
+              className="flex items-center justify-between bg-gray-800 rounded-sm px-4 py-3"
+            >
+              <div>
+                <p className="text-gray-200 text-sm font-medium">{user.username}</p>
+                <p className="text-gray-400 text-xs">
+                  {user.lastLoginAt
+                    ? `Last sign-in ${new Date(user.lastLoginAt).toLocaleString()}`
+                    : 'Never signed in'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={user.role}
+                  onChange={(e) => updateUser(user.id, { role: e.target.value as StaffRole })}
+                  className="px-2 py-1 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm"
+                >
+                  {ROLES.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => resetPassword(user)}
+                  className="text-sm text-blue-500 hover:text-blue-400"
+                >
+                  Reset Password
+                </button>
+                <button
+                  onClick={() => deleteUser(user)}
+                  className="text-sm text-red-500 hover:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={createUser} className="bg-gray-800 rounded-sm p-4 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-200">New Account</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="off"
+              className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+              autoComplete="new-password"
+              minLength={MIN_PASSWORD_LENGTH}
+              className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as StaffRole)}
+              className="px-3 py-2 bg-gray-600/40 text-gray-200/80 border text-sm rounded-sm"
+            >
+              {ROLES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            className="px-3 py-2 bg-gray-600 text-white rounded-sm text-sm hover:bg-gray-700 transition-colors"
+          >
+            Create Account
+          </button>
+        </form>
+      </div>
+    </main>
+  )
+}
+
+function describeError(data: { error?: string; details?: string[] } | null, fallback: string): string {
+  if (!data?.error) return fallback
+  return data.details?.length ? `${data.error}:\n${data.details.join('\n')}` : data.error
+}
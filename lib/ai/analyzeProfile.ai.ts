@@ -2,74 +2,38 @@ import type {
     AnalyzeProfileRequest,
     InterviewBlueprint,
   } from "@/types/interview"
-  import { genAI } from "./gemini.client"
+  import { generateStructured } from "./structured-output"
+  import { blueprintSchema } from "./schemas"
+  import { renderPrompt } from "./prompts/registry"
+  import type { Redactor } from "@/lib/redaction/pii"
+  import { createSetupRedactor } from "@/lib/redaction/sessions"
   
   export async function analyzeProfileAI(
-    data: AnalyzeProfileRequest
+    data: AnalyzeProfileRequest,
+    options: { redactor?: Redactor } = {}
   ): Promise<InterviewBlueprint> {
-    const { jobDescription, resume, roleTitle } = data
-  
-    const prompt = `You are an expert technical recruiter analyzing a candidate for a ${roleTitle} role.
-  
-  Job Description:
-  ${jobDescription}
-  
-  Candidate Resume:
-  ${resume}
-  
-  Return STRICT JSON only:
-  {
-    "key_skills": [],
-    "skill_gaps": [],
-    "notable_projects": [],
-    "focus_areas": [],
-    "suggested_question_themes": []
-  }`
-  
-    try {
-      const result = await genAI.models.generateContent({
-        model: "gemini-1.5-pro",
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: prompt }],
-          },
-        ],
-      })
-      
-      const text = result.text
-      
-  
-      const json = extractJson(text)
-      const parsed = JSON.parse(json)
-  
-      if (!isValidBlueprint(parsed)) {
-        throw new Error("Invalid blueprint structure")
-      }
-  
-      return parsed
-    } catch (error) {
-      console.error("analyzeProfileAI failed:", error)
-      return getFallbackBlueprint()
-    }
-  }
-  
-  // helpers
+    const { jobDescription, resume, roleTitle, promptVersions } = data
+    const redactor = options.redactor ?? createSetupRedactor({ resume })
+  
+    const prompt = await renderPrompt(
+      "analyze-profile",
+      promptVersions,
+      {
+        role_title: roleTitle,
+        job_description: jobDescription,
+        resume,
+      },
+      redactor
+    )
   
-  function extractJson(text: string): string {
-    const match = text.match(/\{[\s\S]*\}/)
-    return match ? match[0] : "{}"
-  }
+    const { value, generation } = await generateStructured({
+      task: "analyze-profile",
+      prompt,
+      schema: blueprintSchema,
+      fallback: getFallbackBlueprint,
+    })
   
-  function isValidBlueprint(obj: any): obj is InterviewBlueprint {
-    return (
-      obj &&
-      Array.isArray(obj.key_skills) &&
-      Array.isArray(obj.skill_gaps) &&
-      Array.isArray(obj.notable_projects) &&
-      Array.isArray(obj.focus_areas) &&
-      Array.isArray(obj.suggested_question_themes)
-    )
+    return { ...value, generation }
   }
   
   export function getFallbackBlueprint(): InterviewBlueprint {
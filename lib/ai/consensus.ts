@@ -0,0 +1,264 @@
+import type {
+  AnswerAssessment,
+  ConsensusConfidence,
+  DimensionConsensus,
+  EvaluationConsensus,
+  EvaluationResult,
+  ScoreDimension,
+  Verdict,
+} from "@/types/interview"
+import { number } from "@/lib/schema"
+
+/**
+ * Combines independent final evaluation runs of the same transcript, so one
+ * noisy model call cannot decide a verdict:
+ *
+ *   EVALUATION_RUNS=3        runs per evaluation when the setup does not say
+ *   EVALUATION_PROVIDERS=openai:gpt-4o-mini,gemini:gemini-1.5-pro
+ *                            providers the runs take turns on; unset means
+ *                            every run uses the final-evaluation provider
+ *                            (read in lib/ai/finalEvaluation.ai.ts, since
+ *                            this module is shared with the browser)
+ *
+ * Scores are the median of the runs that returned a model judgement. The
+ * verdict is the one most runs reached, and "Maybe" when the vote is tied.
+ * Strengths, weaknesses, summary and evidence come from the run closest to
+ * the medians that reached that verdict.
+ */
+
+export const MAX_EVALUATION_RUNS = 7
+
+export const evaluationRunsSchema = number({
+  min: 1,
+  max: MAX_EVALUATION_RUNS,
+  integer: true,
+})
+
+const DIMENSIONS: { key: ScoreDimension; scale: number }[] = [
+  { key: "alignment_percentage", scale: 100 },
+  { key: "technical_score", scale: 10 },
+  { key: "problem_solving_score", scale: 10 },
+  { key: "communication_score", scale: 10 },
+]
+
+const VERDICTS: Verdict[] = ["Fit", "Maybe", "Reject"]
+
+const CONFIDENCE_ORDER: ConsensusConfidence[] = ["low", "medium", "high"]
+
+export function getEvaluationRuns(requested?: number): number {
+  const runs = requested ?? (Number(process.env.EVALUATION_RUNS) || 1)
+  return Math.min(MAX_EVALUATION_RUNS, Math.max(1, Math.round(runs)))
+}
+
+/**
+ * One result from several runs. Runs that fell back are recorded but not
+ * counted; when every run fell back, the first fallback is returned as is.
+ */
+export function buildConsensus(
+  evaluations: EvaluationResult[]
+): EvaluationResult {
+  const succeeded = evaluations.filter(
+    (evaluation) => evaluation.generation?.source !== "fallback"
+  )
+  if (succeeded.length === 0) return evaluations[0]
+
+  const dimensions = Object.fromEntries(
+    DIMENSIONS.map(({ key, scale }) => [
+      key,
+      summarize(
+        succeeded.map((evaluation) => evaluation[key]),
+        scale
+      ),
+    ])
+  ) as Record<ScoreDimension, DimensionConsensus>
+
+  const votes = Object.fromEntries(
+    VERDICTS.map((verdict) => [
+      verdict,
+      succeeded.filter((evaluation) => evaluation.final_verdict === verdict)
+        .length,
+    ])
+  ) as Record<Verdict, number>
+  const verdict = pickVerdict(votes)
+  const agreement = votes[verdict] / succeeded.length
+
+  const representative = pickRepresentative(succeeded, dimensions, verdict)
+
+  return {
+    ...representative,
+    alignment_percentage: dimensions.alignment_percentage.median,
+    technical_score: dimensions.technical_score.median,
+    problem_solving_score: dimensions.problem_solving_score.median,
+    communication_score: dimensions.communication_score.median,
+    final_verdict: verdict,
+    answer_breakdown: combineBreakdowns(
+      representative.answer_breakdown ?? [],
+      succeeded
+    ),
+    consensus: {
+      runs: evaluations.length,
+      succeeded: succeeded.length,
+      dimensions,
+      verdict_votes: votes,
+      verdict_agreement: round(agreement, 2),
+      confidence: getOverallConfidence(
+        Object.values(dimensions),
+        agreement,
+        succeeded.length
+      ),
+      samples: evaluations.map((evaluation) => ({
+        scores: {
+          alignment_percentage: evaluation.alignment_percentage,
+          technical_score: evaluation.technical_score,
+          problem_solving_score: evaluation.problem_solving_score,
+          communication_score: evaluation.communication_score,
+        },
+        final_verdict: evaluation.final_verdict,
+        generation: evaluation.generation,
+      })),
+    },
+  }
+}
+
+// e.g. "6–8/10, ±0.82, medium confidence"
+export function describeSpread(
+  dimension: DimensionConsensus,
+  unit = ""
+): string {
+  const range =
+    dimension.min === dimension.max
+      ? `${dimension.min}${unit}`
+      : `${dimension.min}–${dimension.max}${unit}`
+  return `${range}, ±${dimension.stdev}, ${dimension.confidence} confidence`
+}
+
+// e.g. "Fit 2 · Maybe 1", leaving out verdicts no run reached
+export function describeVotes(consensus: EvaluationConsensus): string {
+  return VERDICTS.filter((verdict) => consensus.verdict_votes[verdict] > 0)
+    .map((verdict) => `${verdict} ${consensus.verdict_votes[verdict]}`)
+    .join(" · ")
+}
+
+/* ---------- helpers ---------- */
+
+function summarize(values: number[], scale: number): DimensionConsensus {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    values.length
+
+  // Spread as a share of the scale: within 10% is high, within 20% medium
+  const spread = (max - min) / scale
+  const confidence: ConsensusConfidence =
+    values.length < 2
+      ? "low"
+      : spread <= 0.1
+        ? "high"
+        : spread <= 0.2
+          ? "medium"
+          : "low"
+
+  return {
+    median: round(median(values), 1),
+    min,
+    max,
+    stdev: round(Math.sqrt(variance), 2),
+    confidence,
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Most votes wins; a tie is never settled in favour of either extreme
+function pickVerdict(votes: Record<Verdict, number>): Verdict {
+  const top = Math.max(...Object.values(votes))
+  const leaders = VERDICTS.filter((verdict) => votes[verdict] === top)
+  return leaders.length === 1 ? leaders[0] : "Maybe"
+}
+
+function pickRepresentative(
+  evaluations: EvaluationResult[],
+  dimensions: Record<ScoreDimension, DimensionConsensus>,
+  verdict: Verdict
+): EvaluationResult {
+  const matching = evaluations.filter(
+    (evaluation) => evaluation.final_verdict === verdict
+  )
+  const candidates = matching.length > 0 ? matching : evaluations
+
+  const distance = (evaluation: EvaluationResult) =>
+    DIMENSIONS.reduce(
+      (sum, { key, scale }) =>
+        sum + Math.abs(evaluation[key] - dimensions[key].median) / scale,
+      0
+    )
+
+  return candidates.reduce((best, evaluation) =>
+    distance(evaluation) < distance(best) ? evaluation : best
+  )
+}
+
+// The representative run's entries, with each score replaced by the median
+// across the runs that scored that answer
+function combineBreakdowns(
+  breakdown: AnswerAssessment[],
+  evaluations: EvaluationResult[]
+): AnswerAssessment[] {
+  const scoreKeys = [
+    "technical_score",
+    "problem_solving_score",
+    "communication_score",
+  ] as const
+
+  return breakdown.map((item) => {
+    const assessments = evaluations.flatMap(
+      (evaluation) =>
+        evaluation.answer_breakdown?.filter(
+          (other) => other.question_id === item.question_id
+        ) ?? []
+    )
+
+    return {
+      ...item,
+      ...Object.fromEntries(
+        scoreKeys.map((key) => [
+          key,
+          round(median(assessments.map((assessment) => assessment[key])), 1),
+        ])
+      ),
+    }
+  })
+}
+
+// The weakest of the dimensions and the verdict vote: unanimous is high,
+// a clear majority medium, anything less low
+function getOverallConfidence(
+  dimensions: DimensionConsensus[],
+  agreement: number,
+  succeeded: number
+): ConsensusConfidence {
+  if (succeeded < 2) return "low"
+
+  const verdict: ConsensusConfidence =
+    agreement === 1 ? "high" : agreement > 0.5 ? "medium" : "low"
+
+  return [verdict, ...dimensions.map((dimension) => dimension.confidence)].reduce(
+    (lowest, confidence) =>
+      CONFIDENCE_ORDER.indexOf(confidence) < CONFIDENCE_ORDER.indexOf(lowest)
+        ? confidence
+        : lowest
+  )
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -3,90 +3,58 @@ import type {
     EvaluationResult,
     InterviewAnswer,
   } from "@/types/interview"
-  import { geminiModel } from "./gemini.client"
+  import { generateStructured } from "./structured-output"
+  import { evaluationSchema } from "./schemas"
+  import { renderPrompt } from "./prompts/registry"
+  import type { Redactor } from "@/lib/redaction/pii"
+  import { createSetupRedactor } from "@/lib/redaction/sessions"
+  import { fenceAnswer, getAnswerInjection } from "@/lib/prompt-injection"
+  import { getFlaggedAnswers } from "@/lib/interview-state"
   
   export async function evaluateCandidateAI(
-    data: EvaluationRequest
+    data: EvaluationRequest,
+    options: { redactor?: Redactor } = {}
   ): Promise<EvaluationResult> {
-    const { jobDescription, questions, answers, resume } = data
-  
-    const prompt = buildEvaluationPrompt(
-      jobDescription,
-      questions,
-      answers,
-      resume
+    const { jobDescription, answers, resume, prompt_versions } = data
+    const redactor = options.redactor ?? createSetupRedactor({ resume })
+  
+    const prompt = await renderPrompt(
+      "evaluate",
+      prompt_versions,
+      {
+        job_description: jobDescription,
+        resume_section: resume ? `Candidate Resume:\n${resume}\n` : "",
+        transcript: buildTranscript(answers),
+      },
+      redactor
     )
   
-    try {
-      const result = await geminiModel.generateContent(prompt)
-      const text = result.response.text()
-  
-      const json = extractJson(text)
-      const parsed = JSON.parse(json)
+    const { value, generation } = await generateStructured({
+      task: "evaluate",
+      prompt,
+      schema: evaluationSchema,
+      fallback: () => getFallbackEvaluation(answers),
+    })
   
-      if (!isValidEvaluation(parsed)) {
-        throw new Error("Invalid evaluation structure")
-      }
-  
-      return parsed
-    } catch (error) {
-      console.error("evaluateCandidateAI failed:", error)
-      return getFallbackEvaluation(answers)
+    const flagged = getFlaggedAnswers(answers)
+    return {
+      ...value,
+      generation,
+      flagged_answers: flagged.length > 0 ? flagged : undefined,
     }
   }
   
   
-  function buildEvaluationPrompt(
-    jobDescription: string,
-    questions: string[],
-    answers: InterviewAnswer[],
-    resume?: string
-  ): string {
-    const qa = answers
+  function buildTranscript(answers: InterviewAnswer[]): string {
+    return answers
       .map(
-        (a, i) => `Q${i + 1}: ${a.question}\nA${i + 1}: ${a.answer}`
+        (a, i) =>
+          `Q${i + 1}: ${a.question}\nA${i + 1}:\n${fenceAnswer(
+            a.answer,
+            getAnswerInjection(a)
+          )}`
       )
       .join("\n\n")
-  
-    return `You are a senior technical interviewer.
-  
-  Job Description:
-  ${jobDescription}
-  
-  ${resume ? `Candidate Resume:\n${resume}\n` : ""}
-  
-  Interview Q&A:
-  ${qa}
-  
-  Evaluate the candidate and return STRICT JSON only:
-  {
-    "alignment_percentage": 0,
-    "technical_score": 0,
-    "problem_solving_score": 0,
-    "communication_score": 0,
-    "strengths": [],
-    "weaknesses": [],
-    "final_verdict": "Fit" | "Maybe" | "Reject",
-    "summary": ""
-  }`
-  }
-  
-  function extractJson(text: string): string {
-    const match = text.match(/\{[\s\S]*\}/)
-    return match ? match[0] : "{}"
-  }
-  
-  function isValidEvaluation(obj: any): obj is EvaluationResult {
-    return (
-      obj &&
-      typeof obj.alignment_percentage === "number" &&
-      typeof obj.technical_score === "number" &&
-      typeof obj.problem_solving_score === "number" &&
-      typeof obj.communication_score === "number" &&
-      Array.isArray(obj.strengths) &&
-      Array.isArray(obj.weaknesses) &&
-      typeof obj.summary === "string"
-    )
   }
   
   function getFallbackEvaluation(
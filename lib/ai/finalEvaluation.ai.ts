@@ -2,11 +2,35 @@ import type {
     FinalEvaluationRequest,
     EvaluationResult,
     InterviewAnswer,
+    AnswerAssessment,
+    ScoringPreferences,
+    QuestionDifficulty,
+    InterviewLanguage,
+    CodeSubmission,
   } from "@/types/interview"
-  import { geminiModel } from "./gemini.client"
+  import { generateStructured } from "./structured-output"
+  import { evaluationSchema } from "./schemas"
+  import { renderPrompt } from "./prompts/registry"
+  import { buildConsensus, getEvaluationRuns } from "./consensus"
+  import { isProviderName, type ProviderOverride } from "./provider"
+  import type { Redactor } from "@/lib/redaction/pii"
+  import { createSetupRedactor } from "@/lib/redaction/sessions"
+  import {
+    getAnswerDurations,
+    getAnswerKey,
+    getFlaggedAnswers,
+    getPeakDifficulty,
+  } from "@/lib/interview-state"
+  import {
+    fenceAnswer,
+    fenceCode,
+    getAnswerInjection,
+  } from "@/lib/prompt-injection"
+  import { DEFAULT_LANGUAGE, LANGUAGES } from "@/lib/languages"
   
   export async function finalEvaluationAI(
-    data: FinalEvaluationRequest
+    data: FinalEvaluationRequest,
+    options: { redactor?: Redactor } = {}
   ): Promise<EvaluationResult> {
     const {
       jobDescription,
@@ -14,88 +38,252 @@ import type {
       roleTitle,
       conversation_history,
       blueprint,
+      scoring,
+      question_time_limit_seconds,
+      language = DEFAULT_LANGUAGE,
+      report_language = DEFAULT_LANGUAGE,
+      prompt_versions,
+      evaluation_runs,
     } = data
   
-    const transcript = buildTranscript(conversation_history)
+    const redactor = options.redactor ?? createSetupRedactor({ resume })
+    const transcript = buildTranscript(
+      conversation_history,
+      question_time_limit_seconds
+    )
+    const peakDifficulty = getPeakDifficulty(conversation_history)
+    const hasCode = conversation_history.some((qa) => qa.code)
+  
+    const prompt = await renderPrompt(
+      "final-evaluation",
+      prompt_versions,
+      {
+        role_title: roleTitle,
+        job_description: jobDescription,
+        resume,
+        focus_areas_section: blueprint
+          ? `Focus Areas: ${blueprint.focus_areas.join(", ")}`
+          : "",
+        scoring_section: scoring ? buildScoringGuidance(scoring) : "",
+        transcript,
+        difficulty_section: peakDifficulty
+          ? buildDifficultyGuidance(peakDifficulty)
+          : "",
+        language_section: buildLanguageGuidance(language, report_language),
+        coding_section: hasCode ? CODING_GUIDANCE : "",
+      },
+      redactor
+    )
   
-    const prompt = `You are a senior interviewer evaluating a candidate for a ${roleTitle} role.
+    // Runs are independent model calls on the same prompt, made side by side
+    const runs = getEvaluationRuns(evaluation_runs)
+    const evaluations = await Promise.all(
+      getEvaluationProviders(runs).map(async (override) => {
+        const { value, generation } = await generateStructured({
+          task: "final-evaluation",
+          prompt,
+          schema: evaluationSchema,
+          fallback: () => getFallbackEvaluation(conversation_history.length),
+          override,
+        })
   
-  Job Description:
-  ${jobDescription}
+        return {
+          ...sanitizeEvaluation(value, conversation_history),
+          generation,
+        }
+      })
+    )
   
-  Candidate Resume:
-  ${resume}
+    // Listed from the transcript, whatever the model made of them
+    const flagged = getFlaggedAnswers(conversation_history)
+    return {
+      ...(runs === 1 ? evaluations[0] : buildConsensus(evaluations)),
+      flagged_answers: flagged.length > 0 ? flagged : undefined,
+    }
+  }
   
-  ${blueprint ? `Focus Areas: ${blueprint.focus_areas.join(", ")}` : ""}
+  /* ---------- helpers ---------- */
+
+  // The provider for each run from EVALUATION_PROVIDERS (lib/ai/consensus.ts),
+  // or undefined to use the configured one. An unknown provider name is a
+  // configuration error, not a run that falls back.
+  function getEvaluationProviders(runs: number): (ProviderOverride | undefined)[] {
+    const entries = (process.env.EVALUATION_PROVIDERS ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry): ProviderOverride => {
+        // Model names may contain colons themselves, e.g. "llama3:8b"
+        const [provider, ...model] = entry.split(":")
+        if (!isProviderName(provider)) {
+          throw new Error(`Unknown AI provider "${provider}" in EVALUATION_PROVIDERS`)
+        }
+        return { provider, model: model.join(":") || undefined }
+      })
+
+    return Array.from({ length: runs }, (_, i) =>
+      entries.length > 0 ? entries[i % entries.length] : undefined
+    )
+  }
   
-  Interview Transcript:
-  ${transcript}
+  function buildScoringGuidance(scoring: ScoringPreferences): string {
+    return `Scoring preferences from the hiring team:
+  - Relative weight when judging overall fit: technical ${scoring.technical_weight}, problem solving ${scoring.problem_solving_weight}, communication ${scoring.communication_weight}
+  - "Fit" needs an alignment_percentage of at least ${scoring.fit_threshold}; below ${scoring.reject_threshold} is "Reject"; in between is "Maybe"`
+  }
   
-  Return STRICT JSON only:
-  {
-    "alignment_percentage": 0,
-    "technical_score": 0,
-    "problem_solving_score": 0,
-    "communication_score": 0,
-    "strengths": [],
-    "weaknesses": [],
-    "final_verdict": "Fit" | "Maybe" | "Reject",
-    "summary": ""
-  }`
+  function buildDifficultyGuidance(peak: QuestionDifficulty): string {
+    return `The interview adapted its difficulty (easy, medium, hard) to the
+  candidate: questions got harder after strong answers and easier after weak
+  ones. The highest level reached was "${peak}". Judge each answer against the
+  level of its question, and credit a candidate who reached and held the
+  harder levels above one who only answered easy questions well. Easier
+  questions after a weak answer are a second chance, not further evidence of
+  weakness: do not count the same gap against the candidate repeatedly.`
+  }
   
-    try {
-      const result = await geminiModel.generateContent(prompt)
-      const text = result.response.text()
+  const CODING_GUIDANCE = `Some questions were coding exercises. Their entries show the code the
+  candidate submitted and the result of running it against the test cases,
+  hidden ones included. Treat the test results as direct evidence for
+  technical_score: passing code outweighs claims made in spoken answers, and
+  failing tests count against it. Also judge the code's correctness, clarity
+  and handling of edge cases, and quote from the code in "evidence" where it
+  supports a score.`
   
-      const parsed = JSON.parse(extractJson(text))
+  function buildLanguageGuidance(
+    language: InterviewLanguage,
+    reportLanguage: InterviewLanguage
+  ): string {
+    const interview = LANGUAGES[language].name
+    const report = LANGUAGES[reportLanguage].name
+    const lines = [
+      language !== DEFAULT_LANGUAGE
+        ? `The interview was held in ${interview}. Judge the answers on their content, not on the language they are in.`
+        : "",
+      language !== reportLanguage || reportLanguage !== DEFAULT_LANGUAGE
+        ? `Write "strengths", "weaknesses", "summary" and each "rationale" in ${report} for the hiring team.`
+        : "",
+      language !== reportLanguage
+        ? `Quote "evidence" exactly as the candidate said it, in ${interview}; do not translate it.`
+        : "",
+    ].filter(Boolean)
   
-      return sanitizeEvaluation(parsed)
-    } catch (error) {
-      console.error("finalEvaluationAI failed:", error)
-      return getFallbackEvaluation(conversation_history.length)
-    }
+    return lines.join("\n")
   }
   
-  /* ---------- helpers ---------- */
-  
-  function buildTranscript(history: InterviewAnswer[]): string {
+  function buildTranscript(
+    history: InterviewAnswer[],
+    timeLimitSeconds?: number
+  ): string {
     return history
-      .map(
-        (qa, i) =>
-          `Q${i + 1}${qa.questionType === "followup" ? " (Follow-up)" : ""}: ${
-            qa.question
-          }\nA${i + 1}: ${qa.answer}`
-      )
+      .map((qa, i) => {
+        const timing = describeTiming(qa, timeLimitSeconds)
+        return `Q${i + 1}${qa.questionType === "followup" ? " (Follow-up)" : ""} [${getAnswerKey(
+          qa,
+          i
+        )}]: ${qa.question}${
+          qa.difficulty ? `\nDifficulty: ${qa.difficulty}` : ""
+        }${timing ? `\nTiming: ${timing}` : ""}\nA${i + 1}:\n${
+          qa.answer
+            ? fenceAnswer(qa.answer, getAnswerInjection(qa))
+            : qa.code
+              ? "(code only)"
+              : "(no answer)"
+        }${qa.code ? `\n${describeCode(qa.code)}` : ""}`
+      })
       .join("\n\n")
   }
   
-  function extractJson(text: string): string {
-    const match = text.match(/\{[\s\S]*\}/)
-    return match ? match[0] : "{}"
+  function describeCode({ language, code, result }: CodeSubmission): string {
+    const failures = result.tests
+      .map((test, i) =>
+        test.passed
+          ? ""
+          : `- Test ${i + 1}${test.hidden ? " (hidden)" : ""}: ${
+              test.error ??
+              `expected ${JSON.stringify(test.expected)}, got ${JSON.stringify(test.actual)}`
+            }`
+      )
+      .filter(Boolean)
+  
+    return [
+      `Code (${language}):`,
+      fenceCode(code),
+      `Tests: ${result.passed}/${result.total} passed (${result.status})${
+        result.error ? `: ${result.error}` : ""
+      }`,
+      ...failures,
+    ].join("\n")
   }
   
-  function sanitizeEvaluation(parsed: any): EvaluationResult {
+  function describeTiming(
+    qa: InterviewAnswer,
+    timeLimitSeconds?: number
+  ): string {
+    const { thought, spoke, total } = getAnswerDurations(qa)
+  
+    const parts = [
+      thought !== undefined ? `thought ${thought}s` : "",
+      spoke !== undefined ? `spoke ${spoke}s` : "",
+      thought === undefined && total !== undefined ? `${total}s in total` : "",
+      timeLimitSeconds ? `limit ${timeLimitSeconds}s` : "",
+      qa.timedOut ? "ran out of time" : "",
+    ].filter(Boolean)
+  
+    return parts.join(", ")
+  }
+  
+  function sanitizeEvaluation(
+    evaluation: EvaluationResult,
+    history: InterviewAnswer[]
+  ): EvaluationResult {
     return {
-      alignment_percentage: clamp(parsed.alignment_percentage, 0, 100),
-      technical_score: clamp(parsed.technical_score, 0, 10),
-      problem_solving_score: clamp(parsed.problem_solving_score, 0, 10),
-      communication_score: clamp(parsed.communication_score, 0, 10),
-      strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
-      weaknesses: Array.isArray(parsed.weaknesses) ? parsed.weaknesses : [],
-      final_verdict: ["Fit", "Maybe", "Reject"].includes(parsed.final_verdict)
-        ? parsed.final_verdict
-        : "Maybe",
-      summary:
-        typeof parsed.summary === "string"
-          ? parsed.summary
-          : "Evaluation completed.",
+      ...evaluation,
+      answer_breakdown: sanitizeBreakdown(
+        evaluation.answer_breakdown ?? [],
+        history
+      ),
     }
   }
   
-  function clamp(value: any, min: number, max: number): number {
-    const num = Number(value)
-    if (Number.isNaN(num)) return min
-    return Math.min(max, Math.max(min, num))
+  // Keeps one entry per known answer and drops evidence that is not actually
+  // a quote from that answer, so every cited line can be checked.
+  function sanitizeBreakdown(
+    breakdown: AnswerAssessment[],
+    history: InterviewAnswer[]
+  ): AnswerAssessment[] {
+    // Code is part of what a coding answer can be quoted from
+    const answers = new Map(
+      history.map((qa, i) => [
+        getAnswerKey(qa, i),
+        qa.code ? `${qa.answer}\n${qa.code.code}` : qa.answer,
+      ])
+    )
+    const seen = new Set<string>()
+  
+    return breakdown.flatMap((item): AnswerAssessment[] => {
+      const answer = answers.get(item.question_id)
+      if (answer === undefined || seen.has(item.question_id)) return []
+      seen.add(item.question_id)
+  
+      return [
+        {
+          ...item,
+          evidence: item.evidence.filter(
+            (quote) =>
+              quote.trim().length > 0 &&
+              normalize(answer).includes(normalize(quote))
+          ),
+        },
+      ]
+    })
+  }
+  
+  function normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/^["'\s]+|["'\s]+$/g, "")
+      .replace(/\s+/g, " ")
   }
   
   function getFallbackEvaluation(count: number): EvaluationResult {
@@ -108,6 +296,7 @@ import type {
       weaknesses: ["Automated evaluation incomplete"],
       final_verdict: "Maybe",
       summary: `The candidate answered ${count} questions. Manual review is recommended.`,
+      answer_breakdown: [],
     }
   }
   
\ No newline at end of file
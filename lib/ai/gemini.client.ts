@@ -1,5 +1,16 @@
 import { GoogleGenAI } from "@google/genai"
 
-export const genAI = new GoogleGenAI({
-  apiKey: process.env.GEMINI_API_KEY!,
-})
+let client: GoogleGenAI | null = null
+
+// Created on first use so that importing lib/ai does not require a key
+// when another provider is configured.
+export function getGenAI(): GoogleGenAI {
+  if (!client) {
+    const apiKey = process.env.GEMINI_API_KEY
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not set")
+    }
+    client = new GoogleGenAI({ apiKey })
+  }
+  return client
+}
@@ -1,214 +1,377 @@
 import type {
-    NextQuestionRequest,
-    NextQuestionResponse,
+    QuestionGenerationRequest,
+    QuestionProposal,
     InterviewState,
     InterviewBlueprint,
+    QuestionDifficulty,
+    InterviewLanguage,
+    CodeLanguage,
+    CodingChallenge,
   } from "@/types/interview"
-  import { geminiModel } from "./gemini.client"
-  
+  import type { Infer } from "@/lib/schema"
+  import {
+    COVERAGE_CATEGORIES,
+    getUncoveredItems,
+    listBlueprintItems,
+    resolveTargetIds,
+    type BlueprintItem,
+  } from "@/lib/blueprint-coverage"
+  import { DIFFICULTY_LEVELS } from "@/lib/interview-state"
+  import {
+    detectInjection,
+    fenceAnswer,
+    fenceCode,
+    getAnswerInjection,
+  } from "@/lib/prompt-injection"
+  import { DEFAULT_LANGUAGE, LANGUAGES } from "@/lib/languages"
+  import { CODE_LANGUAGE_LABELS, checkChallenge } from "@/lib/coding/challenges"
+  import { createPlaceholderStream, type Redactor } from "@/lib/redaction/pii"
+  import { createSetupRedactor } from "@/lib/redaction/sessions"
+  import { streamText, type AITask } from "./provider"
+  import { generateStructured } from "./structured-output"
+  import { nextQuestionSchema } from "./schemas"
+  import { renderPrompt, type RenderedPrompt } from "./prompts/registry"
+  import { createJsonStringFieldReader } from "./stream-json"
+  
+  type QuestionOutput = Infer<typeof nextQuestionSchema>
+  
+  // Per interview, when the setup allows coding questions at all
+  const MAX_CODING_QUESTIONS = 2
+  
+  /**
+   * Proposes the next question. State transitions are not applied here; the
+   * interview controller decides whether to accept the proposal.
+   *
+   * When onQuestionDelta is given the first model call is streamed and the
+   * question text is reported as it arrives; the returned proposal is still
+   * the authoritative result, since a repair or fallback may replace it.
+   * Personal details are redacted from the prompt; placeholders the model
+   * repeats are restored in the streamed text and the proposal alike.
+   *
+   * Main questions are steered by blueprint coverage: uncovered skill gaps
+   * first, then uncovered focus areas. The proposal names the blueprint items
+   * it targets so the state machine can record them.
+   *
+   * In adaptive interviews (interview_state.difficulty is set) the model also
+   * grades the last answer, which the controller applies as a "grade" event,
+   * and pitches the question at the level that grade leads to.
+   *
+   * Questions are asked in the interview's language; so are the fallback
+   * questions, since the candidate hears them too.
+   *
+   * When the setup names a coding language, a main question may come back as
+   * a coding exercise: the proposal then carries the challenge (starter code
+   * and test cases), which is dropped if it cannot be run.
+   */
   export async function nextQuestionAI(
-    data: NextQuestionRequest
-  ): Promise<NextQuestionResponse> {
+    data: QuestionGenerationRequest,
+    options: {
+      onQuestionDelta?: (text: string) => void
+      redactor?: Redactor
+    } = {}
+  ): Promise<QuestionProposal> {
     const {
       jobDescription,
       resume,
       roleTitle,
       interview_state,
+      question_type,
       last_answer,
       blueprint,
+      seed_questions,
+      language = DEFAULT_LANGUAGE,
+      coding_language,
+      prompt_versions,
     } = data
-  
-    const shouldAskFollowUp =
-      Boolean(last_answer) &&
-      interview_state.question_type === "main" &&
-      interview_state.followup_count < interview_state.max_followups
+    const { onQuestionDelta } = options
+    const redactor = options.redactor ?? createSetupRedactor({ resume })
+  
+    const shouldAskFollowUp = question_type === "followup" && Boolean(last_answer)
+    const uncovered = blueprint
+      ? getUncoveredItems(blueprint, interview_state.conversation_history)
+      : []
+    const history = interview_state.conversation_history
+    // Each answer is graded once, by the first proposal made after it
+    const shouldGrade =
+      Boolean(interview_state.difficulty && last_answer) &&
+      history.length > 0 &&
+      !history[history.length - 1].quality
+  
+    const codingQuestionsAsked = history.filter((qa) => qa.code).length
+    const offerCoding =
+      Boolean(coding_language) &&
+      !shouldAskFollowUp &&
+      codingQuestionsAsked < MAX_CODING_QUESTIONS
   
     const transcript = interview_state.conversation_history
       .map((qa, i) => {
         const label =
           qa.questionType === "followup" ? " (Follow-up)" : ""
-        return `Q${i + 1}${label}: ${qa.question}\nA${i + 1}: ${qa.answer}`
+        const code = qa.code
+          ? `\nCode (${qa.code.language}, ${qa.code.result.passed}/${qa.code.result.total} tests passed):\n${fenceCode(qa.code.code)}`
+          : ""
+        return `Q${i + 1}${label}: ${qa.question}\nA${i + 1}:\n${fenceAnswer(
+          qa.answer,
+          getAnswerInjection(qa)
+        )}${code}`
       })
       .join("\n\n")
   
+    const difficultySection = interview_state.difficulty
+      ? buildDifficultySection(interview_state.difficulty, shouldGrade)
+      : ""
+    const codingLanguage = offerCoding ? coding_language : undefined
+  
     const prompt = shouldAskFollowUp
-      ? buildFollowUpPrompt(
-          jobDescription,
+      ? await renderPrompt("follow-up", prompt_versions, {
+          role_title: roleTitle,
+          job_description: jobDescription,
           resume,
-          roleTitle,
           transcript,
-          last_answer!,
-          blueprint
-        )
-      : buildMainQuestionPrompt(
-          jobDescription,
+          last_answer: fenceAnswer(last_answer!, detectInjection(last_answer!)),
+          difficulty_section: difficultySection,
+          language_section: buildLanguageSection(language),
+          response_format: buildFollowUpFormat(shouldGrade),
+        }, redactor)
+      : await renderPrompt("main-question", prompt_versions, {
+          role_title: roleTitle,
+          job_description: jobDescription,
           resume,
-          roleTitle,
-          transcript,
-          interview_state,
-          blueprint
-        )
-  
-    try {
-      const result = await geminiModel.generateContent(prompt)
-      const raw = extractJson(result.response.text())
-      const parsed = JSON.parse(raw)
-  
-      const question =
-        typeof parsed.question === "string" && parsed.question.trim()
-          ? parsed.question.trim()
-          : null
+          coverage_section: blueprint
+            ? buildCoverageSection(blueprint, interview_state)
+            : "",
+          seed_questions_section: buildSeedQuestionsSection(seed_questions),
+          transcript: transcript || "No questions yet.",
+          question_number: String(
+            interview_state.interview_phase === "initializing"
+              ? 1
+              : interview_state.current_question_index + 2
+          ),
+          max_questions: String(interview_state.max_questions),
+          difficulty_section: difficultySection,
+          language_section: buildLanguageSection(language),
+          coding_section: codingLanguage ? buildCodingSection(codingLanguage) : "",
+          response_format: buildMainQuestionFormat(shouldGrade, codingLanguage),
+        }, redactor)
+  
+    const task: AITask = shouldAskFollowUp ? "follow-up" : "main-question"
+  
+    const { value, generation } = await generateStructured({
+      task,
+      prompt,
+      schema: nextQuestionSchema,
+      fallback: () =>
+        fallbackNextQuestion(shouldAskFollowUp, roleTitle, uncovered, language),
+      firstAttempt: onQuestionDelta
+        ? () => streamQuestion(task, prompt, onQuestionDelta)
+        : undefined,
+    })
   
-      const reasoning =
-        typeof parsed.reasoning === "string" ? parsed.reasoning : undefined
-  
-      return applyStateTransition(
-        interview_state,
-        question,
-        shouldAskFollowUp,
-        reasoning
-      )
-    } catch (error) {
-      console.error("nextQuestionAI failed:", error)
-      return fallbackNextQuestion(interview_state, roleTitle)
+    return {
+      question: value.question?.trim() || null,
+      reasoning: value.reasoning,
+      generation,
+      // Follow-ups inherit their main question's targets in the state machine
+      targets:
+        blueprint && !shouldAskFollowUp
+          ? resolveTargetIds(blueprint, value.targets)
+          : undefined,
+      answer_quality: shouldGrade ? value.answer_quality : undefined,
+      challenge:
+        offerCoding && coding_language && value.coding
+          ? toChallenge(value.coding, coding_language)
+          : undefined,
     }
   }
   
   /* ================= helpers ================= */
   
-  function applyStateTransition(
-    state: InterviewState,
-    question: string | null,
-    isFollowUp: boolean,
-    reasoning?: string
-  ): NextQuestionResponse {
-    const updated: InterviewState = { ...state }
-  
-    if (!question) {
-      updated.interview_phase = "completed"
-      return {
-        question: null,
-        question_id: "",
-        question_type: "main",
-        updated_state: updated,
-        interview_complete: true,
-        reasoning,
-      }
-    }
-  
-    if (isFollowUp) {
-      updated.followup_count += 1
-      updated.question_type = "followup"
-      updated.current_question_id = `followup-${state.current_question_index}-${Date.now()}`
-    } else {
-      updated.current_question_index += 1
-      updated.followup_count = 0
-      updated.question_type = "main"
-      updated.current_question_id = `main-${updated.current_question_index}-${Date.now()}`
+  async function streamQuestion(
+    task: AITask,
+    prompt: RenderedPrompt,
+    onQuestionDelta: (text: string) => void
+  ): Promise<string> {
+    const reader = createJsonStringFieldReader("question")
+    const restorer = createPlaceholderStream(prompt.redactions ?? [])
+    let text = ""
+  
+    for await (const chunk of streamText(task, prompt.text, { json: true })) {
+      text += chunk
+      const delta = restorer.push(reader.push(chunk))
+      if (delta) onQuestionDelta(delta)
     }
   
-    const completed =
-      updated.current_question_index >= updated.max_questions &&
-      updated.question_type === "main"
+    const rest = restorer.flush()
+    if (rest) onQuestionDelta(rest)
+    return text
+  }
   
-    updated.interview_phase = completed ? "completed" : "in_progress"
+  const ANSWER_QUALITY_FIELD = `"answer_quality": "weak" | "adequate" | "strong"`
   
-    return {
-      question,
-      question_id: updated.current_question_id!,
-      question_type: updated.question_type,
-      updated_state: updated,
-      interview_complete: completed,
-      reasoning,
-    }
+  function buildFollowUpFormat(grade: boolean): string {
+    return formatJsonShape([
+      `"question": string | null`,
+      `"reasoning": string`,
+      grade ? ANSWER_QUALITY_FIELD : "",
+    ])
   }
   
-  function buildFollowUpPrompt(
-    jd: string,
-    resume: string,
-    role: string,
-    transcript: string,
-    lastAnswer: string,
-    blueprint?: InterviewBlueprint
+  function buildMainQuestionFormat(
+    grade: boolean,
+    codingLanguage?: CodeLanguage
   ): string {
-    return `You are a senior ${role} interviewer.
+    return formatJsonShape([
+      `"question": string`,
+      `"reasoning": string`,
+      `"targets": string[]`,
+      grade ? ANSWER_QUALITY_FIELD : "",
+      codingLanguage
+        ? `"coding": { "function_name": string, "starter_code": string, "tests": [{ "args": any[], "expected": any, "hidden": boolean }] } (optional)`
+        : "",
+    ])
+  }
   
-  Job Description:
-  ${jd}
+  function formatJsonShape(fields: string[]): string {
+    const lines = fields.filter(Boolean).map((field) => `  ${field}`)
+    return `{\n${lines.join(",\n")}\n}`
+  }
   
-  Candidate Resume:
-  ${resume}
+  function buildSeedQuestionsSection(seedQuestions: string[] = []): string {
+    if (seedQuestions.length === 0) return ""
   
-  Interview so far:
-  ${transcript}
+    return `The hiring team wants these questions covered. Ask any not yet covered, adapted to the candidate:\n${seedQuestions
+      .map((q) => `- ${q}`)
+      .join("\n")}`
+  }
   
-  Last answer:
-  "${lastAnswer}"
+  function buildCodingSection(language: CodeLanguage): string {
+    const name = CODE_LANGUAGE_LABELS[language]
+    return `This question may be a short coding exercise in ${name} instead of a
+  spoken one, when the role calls for it and hands-on evidence would help. For a
+  coding exercise, "question" states the task and the function to write, and
+  "coding" holds the function name, ${name} starter code with the function's
+  signature, and 3 to 8 test cases. Each test case calls the function with
+  "args" (JSON values) and expects the JSON value "expected"; mark edge cases
+  "hidden": true so the candidate does not see them. Keep it solvable in about
+  15 minutes. Leave "coding" out for spoken questions.`
+  }
   
-  Decide if a follow-up question is needed.
+  function buildLanguageSection(language: InterviewLanguage): string {
+    if (language === DEFAULT_LANGUAGE) return ""
+  
+    const { name } = LANGUAGES[language]
+    return `The interview is held in ${name}. Write "question" in ${name}, in the
+  formal register, whatever language the job description or resume is in.
+  Keep the JSON keys, ids and enum values exactly as specified.`
+  }
   
-  Return STRICT JSON:
-  {
-    "question": string | null,
-    "reasoning": string
-  }`
+  const DIFFICULTY_DESCRIPTIONS: Record<QuestionDifficulty, string> = {
+    easy: "fundamentals and concrete past experience",
+    medium: "applied problem solving and trade-offs",
+    hard: "deep design, edge cases and reasoning under ambiguity",
   }
   
-  function buildMainQuestionPrompt(
-    jd: string,
-    resume: string,
-    role: string,
-    transcript: string,
-    state: InterviewState,
-    blueprint?: InterviewBlueprint
+  function buildDifficultySection(
+    difficulty: QuestionDifficulty,
+    grade: boolean
   ): string {
-    return `You are a senior ${role} interviewer.
+    const levels = DIFFICULTY_LEVELS.map(
+      (level) => `- ${level}: ${DIFFICULTY_DESCRIPTIONS[level]}`
+    ).join("\n")
   
-  Job Description:
-  ${jd}
+    if (!grade) {
+      return `Difficulty levels:
+  ${levels}
   
-  Candidate Resume:
-  ${resume}
+  Pitch the question at the "${difficulty}" level.`
+    }
+  
+    return `Difficulty levels:
+  ${levels}
+  
+  Grade the depth of the last answer as "answer_quality": "weak" (vague, wrong
+  or missing), "adequate" or "strong" (specific, correct and well reasoned).
+  The interview is at the "${difficulty}" level. Pitch the question one level
+  easier after a weak answer, one level harder after a strong one, and at the
+  same level otherwise.`
+  }
   
-  ${blueprint ? `Focus Areas: ${blueprint.focus_areas.join(", ")}` : ""}
+  function buildCoverageSection(
+    blueprint: InterviewBlueprint,
+    state: InterviewState
+  ): string {
+    const uncovered = new Set(
+      getUncoveredItems(blueprint, state.conversation_history).map(
+        (item) => item.id
+      )
+    )
+    const items = listBlueprintItems(blueprint)
+  
+    const sections = COVERAGE_CATEGORIES.map(({ category, label }) => {
+      const lines = items
+        .filter((item) => item.category === category)
+        .map(
+          (item) =>
+            `- ${item.id}: ${item.item} (${uncovered.has(item.id) ? "not yet covered" : "covered"})`
+        )
+      return lines.length > 0 ? `${label}:\n${lines.join("\n")}` : ""
+    }).filter(Boolean)
   
-  Interview so far:
-  ${transcript || "No questions yet."}
+    return `Interview blueprint (id: item):
+  ${sections.join("\n\n")}
   
-  Generate question ${state.current_question_index + 1} of ${
-      state.max_questions
-    }.
+  Probe an uncovered skill gap if any remain, otherwise an uncovered focus area,
+  otherwise an uncovered skill or theme. Do not return to a covered item while
+  others remain uncovered.`
+  }
   
-  Return STRICT JSON:
-  {
-    "question": string,
-    "reasoning": string
-  }`
+  const FALLBACK_QUESTIONS: Record<
+    InterviewLanguage,
+    { item: (item: string) => string; role: (role: string) => string }
+  > = {
+    en: {
+      item: (item) => `Tell me about your experience with ${item}.`,
+      role: (role) => `Tell me about your experience relevant to this ${role} role.`,
+    },
+    es: {
+      item: (item) => `Hábleme de su experiencia con ${item}.`,
+      role: (role) => `Hábleme de su experiencia relevante para este puesto de ${role}.`,
+    },
+    de: {
+      item: (item) => `Erzählen Sie mir von Ihrer Erfahrung mit ${item}.`,
+      role: (role) => `Erzählen Sie mir von Ihrer Erfahrung, die für diese Rolle als ${role} relevant ist.`,
+    },
   }
   
-  function extractJson(text: string): string {
-    const match = text.match(/\{[\s\S]*\}/)
-    return match ? match[0] : "{}"
+  function toChallenge(
+    coding: NonNullable<QuestionOutput["coding"]>,
+    language: CodeLanguage
+  ): CodingChallenge | undefined {
+    const challenge: CodingChallenge = { language, ...coding }
+    return checkChallenge(challenge).length === 0 ? challenge : undefined
   }
   
   function fallbackNextQuestion(
-    state: InterviewState,
-    roleTitle: string
-  ): NextQuestionResponse {
-    const completed = state.current_question_index >= state.max_questions
-  
-    return {
-      question: completed
-        ? null
-        : `Tell me about your experience relevant to this ${roleTitle} role.`,
-      question_id: `fallback-${Date.now()}`,
-      question_type: "main",
-      updated_state: {
-        ...state,
-        interview_phase: completed ? "completed" : "in_progress",
-      },
-      interview_complete: completed,
-      reasoning: "Fallback due to AI error",
+    isFollowUp: boolean,
+    roleTitle: string,
+    uncovered: BlueprintItem[],
+    language: InterviewLanguage
+  ): QuestionOutput {
+    // A missing follow-up just moves the interview on to the next main question
+    if (isFollowUp) {
+      return { question: null, reasoning: "Fallback due to AI error" }
     }
+  
+    // uncovered follows COVERAGE_CATEGORIES order, so skill gaps come first
+    const target = uncovered[0]
+    return target
+      ? {
+          question: FALLBACK_QUESTIONS[language].item(target.item),
+          reasoning: "Fallback due to AI error",
+          targets: [target.id],
+        }
+      : {
+          question: FALLBACK_QUESTIONS[language].role(roleTitle),
+          reasoning: "Fallback due to AI error",
+        }
   }
-  
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { createHash } from "crypto"
+import type {
+  CreatePromptVersionRequest,
+  PromptId,
+  PromptTemplate,
+  PromptVersions,
+  RedactionEntry,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { PROMPT_IDS } from "@/lib/provenance"
+import type { Redactor } from "@/lib/redaction/pii"
+import {
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  type Schema,
+} from "@/lib/schema"
+import { BUILTIN_PROMPTS } from "./builtin"
+
+/**
+ * Every prompt sent to a model comes from here: named, versioned templates
+ * with {{variable}} placeholders. Versions 1..n of each prompt ship with the
+ * app (./builtin.ts); versions added through /api/prompts are stored like any
+ * other record and numbered from STORED_VERSION_BASE + 1, so built-in
+ * versions a later release adds never take a stored version's number or id.
+ * Setups and templates can pin a version per prompt (promptVersions);
+ * anything not pinned uses the latest version, which is the newest stored
+ * one once there is any.
+ *
+ * Rendering returns the prompt's id, version and hash along with its text,
+ * and lib/ai/structured-output.ts stamps them on the result's GenerationInfo.
+ * With a redactor, personal details in the rendered text are replaced with
+ * placeholders first (lib/redaction), and the hash is of the redacted text.
+ */
+
+// What each prompt's code supplies. A template may leave any of them out,
+// but may not use others.
+export const PROMPT_VARIABLES = {
+  "analyze-profile": ["role_title", "job_description", "resume"],
+  "main-question": [
+    "role_title",
+    "job_description",
+    "resume",
+    "coverage_section",
+    "seed_questions_section",
+    "transcript",
+    "question_number",
+    "max_questions",
+    "difficulty_section",
+    "language_section",
+    "coding_section",
+    "response_format",
+  ],
+  "follow-up": [
+    "role_title",
+    "job_description",
+    "resume",
+    "transcript",
+    "last_answer",
+    "difficulty_section",
+    "language_section",
+    "response_format",
+  ],
+  evaluate: ["job_description", "resume_section", "transcript"],
+  "final-evaluation": [
+    "role_title",
+    "job_description",
+    "resume",
+    "focus_areas_section",
+    "scoring_section",
+    "transcript",
+    "difficulty_section",
+    "language_section",
+    "coding_section",
+  ],
+} as const satisfies Record<PromptId, readonly string[]>
+
+export type PromptVariables<P extends PromptId> = Record<
+  (typeof PROMPT_VARIABLES)[P][number],
+  string
+>
+
+export interface RenderedPrompt {
+  id: PromptId
+  version: number
+  text: string
+  sha256: string
+  // Placeholders in the text, for restoring them in the model's output
+  redactions?: RedactionEntry[]
+}
+
+const MAX_TEMPLATE_LENGTH = 50_000
+
+// Stored versions are numbered above this; built-in ones stay below it
+const STORED_VERSION_BASE = 1000
+
+// Prepended to prompts that had personal details replaced
+const REDACTION_NOTE = `Personal details of the candidate have been replaced with placeholders such as [NAME_1] or [EMAIL_1]. Do not try to work out what they stand for, and do not let them, or their absence, affect your judgement.`
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g
+
+const store = createJsonStore<PromptTemplate>("prompts")
+
+export const promptVersionsSchema: Schema<PromptVersions> = object(
+  Object.fromEntries(
+    PROMPT_IDS.map((id) => [id, optional(number({ min: 1, integer: true }))])
+  )
+)
+
+export const createPromptVersionSchema: Schema<CreatePromptVersionRequest> =
+  object({
+    promptId: literal(...PROMPT_IDS),
+    template: string({ min: 1, max: MAX_TEMPLATE_LENGTH }),
+    description: optional(string({ max: 500 })),
+  })
+
+// Every version of every prompt, built-in ones first
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const stored = await store.list()
+
+  return [...getBuiltinTemplates(), ...stored].sort(
+    (a, b) =>
+      PROMPT_IDS.indexOf(a.promptId) - PROMPT_IDS.indexOf(b.promptId) ||
+      a.version - b.version
+  )
+}
+
+/**
+ * The pinned version of a prompt, or its latest version. A pinned version
+ * that does not exist falls back to the latest one; the result's stamp then
+ * shows the version that was actually used.
+ */
+export async function getPromptTemplate(
+  id: PromptId,
+  version?: number
+): Promise<PromptTemplate> {
+  const versions = (await listPromptTemplates()).filter(
+    (template) => template.promptId === id
+  )
+  const pinned =
+    version !== undefined
+      ? versions.find((template) => template.version === version)
+      : undefined
+
+  if (version !== undefined && !pinned) {
+    console.warn(`Prompt ${id} v${version} not found, using the latest version`)
+  }
+
+  return pinned ?? versions[versions.length - 1]
+}
+
+export async function renderPrompt<P extends PromptId>(
+  id: P,
+  versions: PromptVersions | undefined,
+  variables: PromptVariables<P>,
+  redactor?: Redactor
+): Promise<RenderedPrompt> {
+  const template = await getPromptTemplate(id, versions?.[id])
+  const values: Record<string, string> = variables
+
+  // One pass, so placeholders inside the values are left alone
+  const rendered = template.template
+    .replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in values ? values[name] : placeholder
+    )
+    // Empty optional sections leave runs of blank lines behind
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+
+  const redacted = redactor ? redactor.redact(rendered) : rendered
+  const redactions = redactor
+    ?.entries()
+    .filter((entry) => redacted.includes(entry.placeholder))
+  const text = redactions?.length
+    ? `${REDACTION_NOTE}\n\n${redacted}`
+    : redacted
+
+  return {
+    id,
+    version: template.version,
+    text,
+    sha256: createHash("sha256").update(text).digest("hex"),
+    redactions: redactions?.length ? redactions : undefined,
+  }
+}
+
+/**
+ * Adds the next version of a prompt. Problems with the template (unknown
+ * placeholders) are returned instead, as the schemas report them.
+ */
+export async function createPromptVersion(
+  input: CreatePromptVersionRequest
+): Promise<{ template: PromptTemplate } | { problems: string[] }> {
+  const problems = checkPromptTemplate(input.promptId, input.template)
+  if (problems.length > 0) return { problems }
+
+  // Versions are numbered in turn, one creation at a time
+  const created = queue.then(async () => {
+    const latest = await getPromptTemplate(input.promptId)
+    const version = Math.max(latest.version, STORED_VERSION_BASE) + 1
+
+    return store.save({
+      id: `${input.promptId}-v${version}`,
+      promptId: input.promptId,
+      version,
+      description: input.description?.trim() || undefined,
+      template: input.template,
+      builtin: false,
+      createdAt: new Date().toISOString(),
+    })
+  })
+  queue = created.catch(() => undefined)
+
+  return { template: await created }
+}
+
+export function checkPromptTemplate(id: PromptId, template: string): string[] {
+  const allowed: readonly string[] = PROMPT_VARIABLES[id]
+  const unknown = new Set(
+    Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]).filter(
+      (name) => !allowed.includes(name)
+    )
+  )
+
+  return Array.from(unknown, (name) =>
+    `template: unknown variable {{${name}}}; ${id} supports ${allowed.join(", ")}`
+  )
+}
+
+// Problems with pinned versions (malformed, or no such version), as the
+// schemas report them. An empty list means they can be used.
+export async function checkPromptVersions(
+  value: unknown,
+  path = "promptVersions"
+): Promise<string[]> {
+  if (value === undefined) return []
+
+  const result = promptVersionsSchema.validate(value, path)
+  if (!result.ok) return result.errors
+  const versions = result.value
+
+  const templates = await listPromptTemplates()
+  return PROMPT_IDS.flatMap((id) => {
+    const version = versions[id]
+    if (version === undefined) return []
+    return templates.some(
+      (template) => template.promptId === id && template.version === version
+    )
+      ? []
+      : [`${path}.${id}: version ${version} does not exist`]
+  })
+}
+
+/* ---------- helpers ---------- */
+
+let queue: Promise<unknown> = Promise.resolve()
+
+function getBuiltinTemplates(): PromptTemplate[] {
+  return PROMPT_IDS.flatMap((promptId) =>
+    BUILTIN_PROMPTS[promptId].map((prompt, i) => ({
+      id: `${promptId}-v${i + 1}`,
+      promptId,
+      version: i + 1,
+      description: prompt.description,
+      template: prompt.template,
+      builtin: true,
+    }))
+  )
+}
@@ -0,0 +1,143 @@
+import { geminiProvider } from "./providers/gemini.provider"
+import { openAIProvider } from "./providers/openai.provider"
+import { scriptedProvider } from "./providers/scripted.provider"
+
+/**
+ * Every model call in lib/ai goes through this layer. The provider and model
+ * are resolved per task from the environment:
+ *
+ *   AI_PROVIDER=gemini|openai|scripted      default provider for all tasks
+ *   AI_MODEL=<model>                        default model for all tasks
+ *   AI_PROVIDER_<TASK>, AI_MODEL_<TASK>     per-task overrides, e.g.
+ *                                           AI_MODEL_FINAL_EVALUATION
+ *
+ * A call can also name its provider and model outright (ProviderOverride),
+ * e.g. to spread evaluation runs across providers.
+ *
+ * With nothing configured, Gemini is used when GEMINI_API_KEY is set and an
+ * OpenAI-compatible endpoint when OPENAI_API_KEY or OPENAI_BASE_URL is set.
+ * Without either, model calls fail: the offline scripted provider only runs
+ * when AI_PROVIDER=scripted asks for it, so canned output is never recorded
+ * as a model's.
+ */
+
+export type AITask =
+  | "analyze-profile"
+  | "main-question"
+  | "follow-up"
+  | "evaluate"
+  | "final-evaluation"
+
+export interface CompletionRequest {
+  task: AITask
+  model: string
+  prompt: string
+  json?: boolean
+}
+
+export interface LLMProvider {
+  name: ProviderName
+  defaultModel: string
+  complete(request: CompletionRequest): Promise<string>
+  // Optional; providers without it are streamed as a single chunk
+  stream?(request: CompletionRequest): AsyncIterable<string>
+}
+
+export type ProviderName = "gemini" | "openai" | "scripted"
+
+const providers: Record<ProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  scripted: scriptedProvider,
+}
+
+export interface ResolvedProvider {
+  provider: LLMProvider
+  model: string
+}
+
+export interface ProviderOverride {
+  provider: ProviderName
+  // Unset means the provider's default model
+  model?: string
+}
+
+export function resolveProvider(
+  task: AITask,
+  override?: ProviderOverride
+): ResolvedProvider {
+  if (override) {
+    const provider = getProvider(override.provider)
+    return { provider, model: override.model ?? provider.defaultModel }
+  }
+
+  const suffix = task.toUpperCase().replace(/-/g, "_")
+
+  const name = readEnv(`AI_PROVIDER_${suffix}`) ?? readEnv("AI_PROVIDER")
+  const provider = name ? getProvider(name) : getDefaultProvider()
+
+  const model =
+    readEnv(`AI_MODEL_${suffix}`) ??
+    readEnv("AI_MODEL") ??
+    provider.defaultModel
+
+  return { provider, model }
+}
+
+export async function generateText(
+  task: AITask,
+  prompt: string,
+  options: { json?: boolean; override?: ProviderOverride } = {}
+): Promise<string> {
+  const { provider, model } = resolveProvider(task, options.override)
+
+  return provider.complete({
+    task,
+    model,
+    prompt,
+    json: options.json,
+  })
+}
+
+export async function* streamText(
+  task: AITask,
+  prompt: string,
+  options: { json?: boolean } = {}
+): AsyncIterable<string> {
+  const { provider, model } = resolveProvider(task)
+  const request = { task, model, prompt, json: options.json }
+
+  if (provider.stream) {
+    yield* provider.stream(request)
+  } else {
+    yield await provider.complete(request)
+  }
+}
+
+export function isProviderName(name: string): name is ProviderName {
+  return Object.hasOwn(providers, name)
+}
+
+/* ---------- helpers ---------- */
+
+function getProvider(name: string): LLMProvider {
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown AI provider "${name}"`)
+  }
+  return providers[name]
+}
+
+function getDefaultProvider(): LLMProvider {
+  if (process.env.GEMINI_API_KEY) return providers.gemini
+  if (process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL) {
+    return providers.openai
+  }
+  throw new Error(
+    "No AI provider is configured: set GEMINI_API_KEY, OPENAI_API_KEY or OPENAI_BASE_URL, or AI_PROVIDER=scripted for offline use"
+  )
+}
+
+function readEnv(key: string): string | undefined {
+  const value = process.env[key]?.trim()
+  return value ? value : undefined
+}
@@ -0,0 +1,38 @@
+import type { CompletionRequest, LLMProvider } from "../provider"
+import { getGenAI } from "../gemini.client"
+
+export const geminiProvider: LLMProvider = {
+  name: "gemini",
+  defaultModel: "gemini-1.5-pro",
+
+  async complete(request) {
+    const result = await getGenAI().models.generateContent(
+      buildParams(request)
+    )
+
+    return result.text ?? ""
+  },
+
+  async *stream(request) {
+    const chunks = await getGenAI().models.generateContentStream(
+      buildParams(request)
+    )
+
+    for await (const chunk of chunks) {
+      if (chunk.text) yield chunk.text
+    }
+  },
+}
+
+function buildParams({ model, prompt, json }: CompletionRequest) {
+  return {
+    model,
+    contents: [
+      {
+        role: "user",
+        parts: [{ text: prompt }],
+      },
+    ],
+    config: json ? { responseMimeType: "application/json" } : undefined,
+  }
+}
@@ -0,0 +1,82 @@
+import type { CompletionRequest, LLMProvider } from "../provider"
+
+/**
+ * Speaks the OpenAI chat-completions protocol, which is also served by most
+ * local runtimes (Ollama, llama.cpp server, LM Studio, vLLM). Point
+ * OPENAI_BASE_URL at the runtime; OPENAI_API_KEY is optional for local use.
+ */
+export const openAIProvider: LLMProvider = {
+  name: "openai",
+  defaultModel: "gpt-4o-mini",
+
+  async complete(request) {
+    const response = await post(request, false)
+    const data = await response.json()
+    const content = data?.choices?.[0]?.message?.content
+
+    return typeof content === "string" ? content : ""
+  },
+
+  async *stream(request) {
+    const response = await post(request, true)
+    if (!response.body) return
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split("\n")
+      buffer = lines.pop() ?? ""
+
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, "").trim()
+        if (!line.startsWith("data:") || !payload || payload === "[DONE]") {
+          continue
+        }
+
+        const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content
+        if (typeof delta === "string" && delta) yield delta
+      }
+    }
+  },
+}
+
+async function post(
+  { model, prompt, json }: CompletionRequest,
+  stream: boolean
+): Promise<Response> {
+  const baseUrl = (
+    process.env.OPENAI_BASE_URL || "https://api.openai.com/v1"
+  ).replace(/\/+$/, "")
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  }
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      stream,
+      ...(json ? { response_format: { type: "json_object" } } : {}),
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error(
+      `OpenAI-compatible request failed: ${response.status} ${await response.text()}`
+    )
+  }
+
+  return response
+}
@@ -0,0 +1,155 @@
+import { readFileSync } from "fs"
+import type { AITask, LLMProvider } from "../provider"
+
+/**
+ * Offline provider that never touches the network. Each task has a list of
+ * canned responses and the prompt's hash picks one, so the same prompt always
+ * yields the same output. This lets the full interview flow run in CI and on
+ * machines without an API key.
+ *
+ * AI_SCRIPT_FILE may point at a JSON file of the same shape as
+ * DEFAULT_SCRIPT (task -> array of responses) to replace the built-in lines
+ * for any task.
+ */
+
+type Script = Partial<Record<AITask, unknown[]>>
+
+const DEFAULT_SCRIPT: Record<AITask, unknown[]> = {
+  "analyze-profile": [
+    {
+      key_skills: ["System design", "TypeScript", "API development"],
+      skill_gaps: ["Production incident handling", "Automated testing"],
+      notable_projects: ["Most recent project listed on the resume"],
+      focus_areas: ["Technical depth", "Ownership", "Communication"],
+      suggested_question_themes: ["Architecture", "Debugging", "Teamwork"],
+    },
+  ],
+  "main-question": [
+    {
+      question:
+        "Walk me through a project you are proud of and the decisions you made in it.",
+      reasoning: "Opens with a familiar topic to establish context.",
+      targets: ["focus-2"],
+      answer_quality: "adequate",
+    },
+    {
+      question:
+        "Describe a difficult bug you tracked down. How did you find the root cause?",
+      reasoning: "Probes debugging approach.",
+      targets: ["gap-1", "theme-2"],
+      answer_quality: "strong",
+    },
+    {
+      question:
+        "How would you design a service that has to handle a sudden 10x increase in traffic?",
+      reasoning: "Probes system design.",
+      targets: ["theme-1"],
+      answer_quality: "strong",
+    },
+    {
+      question:
+        "Tell me about a time you disagreed with a teammate on a technical decision.",
+      reasoning: "Probes collaboration and communication.",
+      targets: ["theme-3"],
+      answer_quality: "weak",
+    },
+    {
+      question:
+        "How do you decide what to test, and how do you test it?",
+      reasoning: "Probes testing practice, a listed gap.",
+      targets: ["gap-2"],
+      answer_quality: "adequate",
+    },
+  ],
+  "follow-up": [
+    {
+      question: "Can you give a concrete example of that, with numbers if possible?",
+      reasoning: "The answer stayed abstract.",
+      answer_quality: "weak",
+    },
+    {
+      question: "What would you do differently if you faced that situation again?",
+      reasoning: "Checks for reflection.",
+      answer_quality: "strong",
+    },
+  ],
+  evaluate: [
+    {
+      alignment_percentage: 70,
+      technical_score: 7,
+      problem_solving_score: 7,
+      communication_score: 7,
+      strengths: ["Structured answers", "Relevant experience"],
+      weaknesses: ["Limited depth on testing"],
+      final_verdict: "Maybe",
+      summary: "Scripted evaluation produced without a model.",
+    },
+  ],
+  "final-evaluation": [
+    {
+      alignment_percentage: 70,
+      technical_score: 7,
+      problem_solving_score: 7,
+      communication_score: 7,
+      strengths: ["Structured answers", "Relevant experience"],
+      weaknesses: ["Limited depth on testing"],
+      final_verdict: "Maybe",
+      summary: "Scripted evaluation produced without a model.",
+    },
+  ],
+}
+
+export const scriptedProvider: LLMProvider = {
+  name: "scripted",
+  defaultModel: "scripted",
+
+  async complete({ task, prompt }) {
+    return pickLine(task, prompt)
+  },
+
+  // Word-sized chunks, so streaming consumers see the same shape of output
+  // they would from a real model.
+  async *stream({ task, prompt }) {
+    const text = pickLine(task, prompt)
+    for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) {
+      yield chunk
+    }
+  },
+}
+
+/* ---------- helpers ---------- */
+
+function pickLine(task: AITask, prompt: string): string {
+  const lines = loadScript()[task] ?? DEFAULT_SCRIPT[task]
+  if (!lines || lines.length === 0) {
+    throw new Error(`No scripted responses for task "${task}"`)
+  }
+
+  const line = lines[hash(prompt) % lines.length]
+  return typeof line === "string" ? line : JSON.stringify(line)
+}
+
+let cachedScript: { path: string; script: Script } | null = null
+
+function loadScript(): Script {
+  const path = process.env.AI_SCRIPT_FILE
+  if (!path) return {}
+
+  if (cachedScript?.path !== path) {
+    cachedScript = {
+      path,
+      script: JSON.parse(readFileSync(path, "utf8")) as Script,
+    }
+  }
+  return cachedScript.script
+}
+
+// FNV-1a; stable across runs and platforms, unlike anything seeded.
+function hash(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
@@ -0,0 +1,66 @@
+import {
+  array,
+  boolean,
+  jsonValue,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  string,
+} from "@/lib/schema"
+
+// Expected shapes of model output, checked before anything is used
+
+const score = number({ min: 0, max: 10 })
+
+export const blueprintSchema = object({
+  key_skills: array(string()),
+  skill_gaps: array(string()),
+  notable_projects: array(string()),
+  focus_areas: array(string()),
+  suggested_question_themes: array(string()),
+})
+
+export const nextQuestionSchema = object({
+  question: nullable(string()),
+  reasoning: optional(string()),
+  // Blueprint item ids (see lib/blueprint-coverage.ts)
+  targets: optional(array(string())),
+  answer_quality: optional(literal("weak", "adequate", "strong")),
+  // Makes a main question a coding exercise; the language comes from the setup
+  coding: optional(
+    object({
+      function_name: string({ min: 1 }),
+      starter_code: string(),
+      tests: array(
+        object({
+          args: array(jsonValue()),
+          expected: jsonValue(),
+          hidden: optional(boolean()),
+        })
+      ),
+    })
+  ),
+})
+
+export const answerAssessmentSchema = object({
+  question_id: string({ min: 1 }),
+  technical_score: score,
+  problem_solving_score: score,
+  communication_score: score,
+  rationale: string(),
+  evidence: array(string()),
+})
+
+export const evaluationSchema = object({
+  alignment_percentage: number({ min: 0, max: 100 }),
+  technical_score: score,
+  problem_solving_score: score,
+  communication_score: score,
+  strengths: array(string()),
+  weaknesses: array(string()),
+  final_verdict: literal("Fit", "Maybe", "Reject"),
+  summary: string({ min: 1 }),
+  answer_breakdown: optional(array(answerAssessmentSchema)),
+})
@@ -0,0 +1,77 @@
+/**
+ * Pulls one string field out of a JSON object while the object is still
+ * streaming in, so e.g. the "question" of a next-question response can be
+ * shown before the model has finished writing its "reasoning".
+ *
+ * push() takes the next raw chunk and returns whatever new, already-unescaped
+ * text of the field it completed. Escapes split across chunks are held back
+ * until they are whole.
+ */
+
+export interface JsonStringFieldReader {
+  push(chunk: string): string
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+}
+
+export function createJsonStringFieldReader(
+  field: string
+): JsonStringFieldReader {
+  const opening = new RegExp(`"${field}"\\s*:\\s*"`)
+  let buffer = ""
+  let pos = -1
+  let closed = false
+
+  return {
+    push(chunk) {
+      buffer += chunk
+      if (closed) return ""
+
+      if (pos < 0) {
+        const match = opening.exec(buffer)
+        if (!match) return ""
+        pos = match.index + match[0].length
+      }
+
+      let out = ""
+      while (pos < buffer.length) {
+        const char = buffer[pos]
+
+        if (char === '"') {
+          closed = true
+          break
+        }
+
+        if (char !== "\\") {
+          out += char
+          pos += 1
+          continue
+        }
+
+        const escape = buffer[pos + 1]
+        if (escape === undefined) break
+
+        if (escape === "u") {
+          const hex = buffer.slice(pos + 2, pos + 6)
+          if (hex.length < 4) break
+          out += String.fromCharCode(parseInt(hex, 16))
+          pos += 6
+        } else {
+          out += ESCAPES[escape] ?? escape
+          pos += 2
+        }
+      }
+
+      return out
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import type { GenerationInfo } from "@/types/interview"
+import type { Schema } from "@/lib/schema"
+import { restoreValues } from "@/lib/redaction/pii"
+import {
+  generateText,
+  resolveProvider,
+  type AITask,
+  type ProviderOverride,
+} from "./provider"
+import type { RenderedPrompt } from "./prompts/registry"
+
+/**
+ * Asks the model for JSON, validates it against a schema and, when it does
+ * not fit, re-prompts with the validation errors up to maxRepairs times
+ * before falling back. The returned GenerationInfo records which of the
+ * three happened, and which prompt version and model were used.
+ * Placeholders for redacted personal details are restored in the value.
+ */
+
+export interface StructuredOutputOptions<T> {
+  task: AITask
+  prompt: RenderedPrompt
+  schema: Schema<T>
+  fallback: () => T
+  maxRepairs?: number
+  // Replaces the first model call, e.g. with a streamed one
+  firstAttempt?: () => Promise<string>
+  // Provider and model to use instead of the task's configured ones
+  override?: ProviderOverride
+}
+
+export interface StructuredOutput<T> {
+  value: T
+  generation: GenerationInfo
+}
+
+const DEFAULT_MAX_REPAIRS = 2
+
+export async function generateStructured<T>(
+  options: StructuredOutputOptions<T>
+): Promise<StructuredOutput<T>> {
+  const { task, prompt, schema, fallback, override } = options
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS
+  const provenance = getProvenance(task, prompt, override)
+
+  let errors: string[] = []
+  let previousOutput: string | null = null
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    try {
+      const text: string =
+        attempt === 1
+          ? await (options.firstAttempt?.() ??
+              generateText(task, prompt.text, { json: true, override }))
+          : await generateText(
+              task,
+              buildRepairPrompt(prompt.text, previousOutput, errors),
+              { json: true, override }
+            )
+
+      previousOutput = text
+      const result = schema.validate(parseJson(text))
+
+      if (result.ok) {
+        return {
+          value: restoreValues(result.value, prompt.redactions ?? []),
+          generation: {
+            source: attempt === 1 ? "model" : "repair",
+            attempts: attempt,
+            ...provenance,
+          },
+        }
+      }
+
+      errors = result.errors
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)]
+    }
+
+    console.warn(`${task} output rejected (attempt ${attempt}):`, errors)
+  }
+
+  return {
+    value: fallback(),
+    generation: {
+      source: "fallback",
+      attempts: maxRepairs + 1,
+      errors,
+      ...provenance,
+    },
+  }
+}
+
+/* ---------- helpers ---------- */
+
+// Recorded on fallbacks too, since the prompt was still what the model was
+// asked. A misconfigured provider fails the model calls, not this.
+function getProvenance(
+  task: AITask,
+  prompt: RenderedPrompt,
+  override?: ProviderOverride
+): Partial<GenerationInfo> {
+  const stamp = {
+    prompt_id: prompt.id,
+    prompt_version: prompt.version,
+    prompt_sha256: prompt.sha256,
+  }
+  try {
+    const { provider, model } = resolveProvider(task, override)
+    return { ...stamp, provider: provider.name, model }
+  } catch {
+    return stamp
+  }
+}
+
+// JSON mode usually returns bare JSON; otherwise take the outermost object
+function parseJson(text: string): unknown {
+  const trimmed = text.trim()
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    const start = trimmed.indexOf("{")
+    const end = trimmed.lastIndexOf("}")
+    if (start < 0 || end <= start) {
+      throw new Error("Response did not contain a JSON object")
+    }
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1))
+    } catch (error) {
+      throw new Error(`Response was not valid JSON: ${(error as Error).message}`)
+    }
+  }
+}
+
+function buildRepairPrompt(
+  prompt: string,
+  previousOutput: string | null,
+  errors: string[]
+): string {
+  return `${prompt}
+
+Your previous response could not be used.
+${previousOutput !== null ? `\nPrevious response:\n${previousOutput}\n` : ""}
+Problems:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return the corrected STRICT JSON only, with no other text.`
+}
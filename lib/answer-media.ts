@@ -0,0 +1,164 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import type { AnswerMedia, AnswerMediaRef } from "@/types/interview"
+import { createJsonStore, getDataDir } from "@/lib/store/json-store"
+
+/**
+ * Answer recordings. The candidate's browser records each answer with
+ * MediaRecorder and uploads it for the open question before submitting the
+ * answer; the answer then links to it (InterviewAnswer.media) and reviewers
+ * play it back from the result page.
+ *
+ * Metadata lives in the "answer-media" store; the recordings themselves are
+ * plain files under <data dir>/answer-media-files/<id>.<ext>.
+ */
+
+const store = createJsonStore<AnswerMedia>("answer-media")
+
+export const MAX_MEDIA_BYTES = 200 * 1024 * 1024
+
+const MEDIA_TYPE_PATTERN = /^(audio|video)\/[a-z0-9.+-]+(\s*;.*)?$/i
+
+export function isSupportedMediaType(mimeType: string): boolean {
+  return MEDIA_TYPE_PATTERN.test(mimeType)
+}
+
+/**
+ * Stores a recording for a question, written to disk as it arrives, or
+ * returns null when it is larger than MAX_MEDIA_BYTES. A question has at most
+ * one recording: uploading again (e.g. after a failed submit) replaces the
+ * earlier one.
+ */
+export async function saveAnswerMedia(
+  sessionId: string,
+  questionId: string,
+  data: ReadableStream<Uint8Array>,
+  mimeType: string
+): Promise<AnswerMedia | null> {
+  const previous = (await store.list()).filter(
+    (media) => media.sessionId === sessionId && media.questionId === questionId
+  )
+
+  const media: AnswerMedia = {
+    id: randomUUID(),
+    sessionId,
+    questionId,
+    mimeType,
+    size: 0,
+    createdAt: new Date().toISOString(),
+  }
+
+  const file = fileFor(media)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${randomUUID()}.tmp`
+  try {
+    media.size = await writeStream(tmp, data)
+  } catch (error) {
+    await fs.rm(tmp, { force: true })
+    throw error
+  }
+  if (media.size > MAX_MEDIA_BYTES) {
+    await fs.rm(tmp, { force: true })
+    return null
+  }
+  await fs.rename(tmp, file)
+  await store.save(media)
+
+  await Promise.all(previous.map(removeAnswerMedia))
+
+  return media
+}
+
+export async function getAnswerMedia(id: string): Promise<AnswerMedia | null> {
+  return store.get(id)
+}
+
+/**
+ * The recording to link to the answer being recorded, or null when the id
+ * does not name a recording of this session's open question.
+ */
+export async function resolveAnswerMedia(
+  sessionId: string,
+  questionId: string | undefined,
+  mediaId: string
+): Promise<AnswerMediaRef | null> {
+  const media = await store.get(mediaId)
+  if (!media || media.sessionId !== sessionId || media.questionId !== questionId) {
+    return null
+  }
+  return { id: media.id, mimeType: media.mimeType }
+}
+
+/**
+ * Reads a recording, or the inclusive byte range of it that a player asked
+ * for.
+ */
+export async function readAnswerMedia(
+  media: AnswerMedia,
+  range?: { start: number; end: number }
+): Promise<Buffer> {
+  if (!range) return fs.readFile(fileFor(media))
+
+  const handle = await fs.open(fileFor(media), "r")
+  try {
+    const buffer = Buffer.alloc(range.end - range.start + 1)
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+/* ---------- helpers ---------- */
+
+// Writes the stream to the file and returns its size, stopping as soon as it
+// is larger than MAX_MEDIA_BYTES
+async function writeStream(
+  file: string,
+  data: ReadableStream<Uint8Array>
+): Promise<number> {
+  const handle = await fs.open(file, "w")
+  const reader = data.getReader()
+  let size = 0
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      size += value.length
+      if (size > MAX_MEDIA_BYTES) {
+        await reader.cancel()
+        break
+      }
+      await handle.write(value)
+    }
+  } finally {
+    await handle.close()
+  }
+
+  return size
+}
+
+async function removeAnswerMedia(media: AnswerMedia): Promise<void> {
+  await store.remove(media.id)
+  await fs.rm(fileFor(media), { force: true })
+}
+
+function fileFor(media: AnswerMedia): string {
+  return path.join(
+    getDataDir(),
+    "answer-media-files",
+    `${media.id}.${getExtension(media.mimeType)}`
+  )
+}
+
+function getExtension(mimeType: string): string {
+  const type = mimeType.split(";")[0].trim().toLowerCase()
+  if (type.endsWith("/mp4")) return "mp4"
+  if (type.endsWith("/ogg")) return "ogg"
+  if (type === "audio/mpeg") return "mp3"
+  if (type.endsWith("/wav") || type.endsWith("/x-wav")) return "wav"
+  return "webm"
+}
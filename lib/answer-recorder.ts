@@ -0,0 +1,54 @@
+/**
+ * Browser-side recording of a single answer, camera and microphone, for
+ * upload to /api/interview/[token]/media (see lib/answer-media.ts).
+ */
+
+// Modest bitrates keep a few minutes of answer to a quick upload
+const VIDEO_BITS_PER_SECOND = 600 * 1000
+const AUDIO_BITS_PER_SECOND = 64 * 1000
+
+export interface AnswerRecording {
+  // Between dictation bursts; the recording continues as one file
+  pause(): void
+  resume(): void
+  // Resolves to the recording, or null when nothing was captured
+  stop(): Promise<Blob | null>
+}
+
+export function startAnswerRecording(stream: MediaStream): AnswerRecording {
+  const recorder = new MediaRecorder(stream, {
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+    audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+  })
+  const chunks: Blob[] = []
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+
+  const stopped = new Promise<Blob | null>((resolve) => {
+    recorder.onstop = () =>
+      resolve(
+        chunks.length > 0
+          ? new Blob(chunks, { type: recorder.mimeType || chunks[0].type })
+          : null
+      )
+  })
+
+  // Data every second, so a recording cut short by a closed tab or a
+  // stopped track still holds what came before
+  recorder.start(1000)
+
+  return {
+    pause() {
+      if (recorder.state === "recording") recorder.pause()
+    },
+    resume() {
+      if (recorder.state === "paused") recorder.resume()
+    },
+    stop() {
+      if (recorder.state !== "inactive") recorder.stop()
+      return stopped
+    },
+  }
+}
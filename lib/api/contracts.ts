@@ -0,0 +1,178 @@
+import type {
+  AnalyzeProfileRequest,
+  AnswerTiming,
+  CandidateNextQuestionRequest,
+  CreateSessionRequest,
+  EvaluationRequest,
+  FinalEvaluationRequest,
+  InterviewAnswer,
+  InterviewSetup,
+  InterviewState,
+  NextQuestionRequest,
+  SessionEvaluationRequest,
+  UpdateSessionRequest,
+} from "@/types/interview"
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  opaqueObject,
+  optional,
+  string,
+  type Schema,
+} from "@/lib/schema"
+import { INTERVIEW_LANGUAGES } from "@/lib/languages"
+import {
+  CODE_LANGUAGES,
+  MAX_CODE_LENGTH,
+  manualCodingChallengeSchema,
+} from "@/lib/coding/challenges"
+import { blueprintSchema } from "@/lib/ai/schemas"
+import { promptVersionsSchema } from "@/lib/ai/prompts/registry"
+import { evaluationRunsSchema } from "@/lib/ai/consensus"
+import { redactionSettingsSchema } from "@/lib/redaction/pii"
+import { scoringPreferencesSchema } from "@/lib/templates"
+
+/**
+ * Runtime schemas for the request bodies in types/interview.ts that do not
+ * have one next to the code that handles them (templates, prompts, invites
+ * and code runs do). Each is typed as a Schema of its contract, so a field
+ * added to a contract fails the type check here until it is validated too.
+ *
+ * Only declared fields come through validation; anything else a client sends
+ * is dropped. Fields the server produces itself (generation, targets, media,
+ * injection flags) are never taken from a client.
+ */
+
+// Generous, but finite: these go into prompts
+const MAX_TEXT_LENGTH = 50_000
+const MAX_ANSWER_LENGTH = 20_000
+const MAX_ANSWERS = 100
+
+const title = string({ min: 1, max: 200 })
+const text = string({ min: 1, max: MAX_TEXT_LENGTH })
+const id = string({ min: 1, max: 200 })
+const timestamp = string({ max: 64 })
+
+const answerTimingSchema: Schema<AnswerTiming> = object({
+  question_shown_at: optional(timestamp),
+  answer_started_at: optional(timestamp),
+  answer_ended_at: optional(timestamp),
+})
+
+// A transcript entry as a client may send it to the stateless endpoints
+const interviewAnswerSchema: Schema<InterviewAnswer> = object({
+  question: string({ max: MAX_TEXT_LENGTH }),
+  answer: string({ max: MAX_ANSWER_LENGTH }),
+  rawAnswer: optional(string({ max: MAX_ANSWER_LENGTH })),
+  timestamp,
+  questionId: optional(id),
+  questionType: optional(literal("main", "followup")),
+  mainQuestionIndex: optional(number({ min: 0, integer: true })),
+  questionShownAt: optional(timestamp),
+  answerStartedAt: optional(timestamp),
+  answerEndedAt: optional(timestamp),
+  timedOut: optional(boolean()),
+  difficulty: optional(literal("easy", "medium", "hard")),
+})
+
+const transcript = array(interviewAnswerSchema, { min: 1, max: MAX_ANSWERS })
+
+export const interviewSetupSchema: Schema<InterviewSetup> = object({
+  roleTitle: title,
+  candidateName: optional(string({ max: 200 })),
+  jobDescription: text,
+  resume: optional(string({ max: MAX_TEXT_LENGTH })),
+  questions: optional(array(string({ max: MAX_TEXT_LENGTH }), { max: 50 })),
+  createdAt: timestamp,
+  useDynamicQuestions: optional(boolean()),
+  interviewBlueprint: optional(blueprintSchema),
+  templateId: optional(id),
+  maxQuestions: optional(number({ min: 1, max: 30, integer: true })),
+  maxFollowups: optional(number({ min: 0, max: 5, integer: true })),
+  scoring: optional(scoringPreferencesSchema),
+  questionTimeLimitSeconds: optional(number({ min: 10, max: 1800, integer: true })),
+  totalTimeLimitMinutes: optional(number({ min: 1, max: 240, integer: true })),
+  language: optional(literal(...INTERVIEW_LANGUAGES)),
+  reportLanguage: optional(literal(...INTERVIEW_LANGUAGES)),
+  codingLanguage: optional(literal(...CODE_LANGUAGES)),
+  codingChallenges: optional(array(manualCodingChallengeSchema)),
+  promptVersions: optional(promptVersionsSchema),
+  evaluationRuns: optional(evaluationRunsSchema),
+  redaction: optional(redactionSettingsSchema),
+})
+
+export const createSessionRequestSchema: Schema<CreateSessionRequest> = object({
+  setup: interviewSetupSchema,
+})
+
+export const updateSessionRequestSchema: Schema<UpdateSessionRequest> = object({
+  blueprint: optional(blueprintSchema),
+})
+
+// An answer to the open question; the interview state is compared with the
+// server's by the state machine, so it is only required to be an object
+const answerShape = {
+  interview_state: opaqueObject<InterviewState>(),
+  last_answer: optional(string({ max: MAX_ANSWER_LENGTH })),
+  raw_answer: optional(string({ max: MAX_ANSWER_LENGTH })),
+  skip: optional(boolean()),
+  answer_timing: optional(answerTimingSchema),
+  timed_out: optional(boolean()),
+  media_id: optional(id),
+  code: optional(string({ max: MAX_CODE_LENGTH })),
+}
+
+export const nextQuestionRequestSchema: Schema<NextQuestionRequest> = object({
+  session_id: id,
+  ...answerShape,
+})
+
+export const candidateNextQuestionRequestSchema: Schema<CandidateNextQuestionRequest> =
+  object(answerShape)
+
+export const analyzeProfileRequestSchema: Schema<AnalyzeProfileRequest> = object({
+  jobDescription: text,
+  resume: text,
+  roleTitle: title,
+  promptVersions: optional(promptVersionsSchema),
+})
+
+export const evaluationRequestSchema: Schema<EvaluationRequest> = object({
+  jobDescription: text,
+  questions: array(string({ max: MAX_TEXT_LENGTH }), { min: 1, max: MAX_ANSWERS }),
+  answers: transcript,
+  resume: optional(string({ max: MAX_TEXT_LENGTH })),
+  prompt_versions: optional(promptVersionsSchema),
+})
+
+const sessionEvaluationRequestSchema: Schema<SessionEvaluationRequest> = object({
+  session_id: id,
+})
+
+const stateless: Schema<FinalEvaluationRequest> = object({
+  jobDescription: text,
+  resume: text,
+  roleTitle: title,
+  conversation_history: transcript,
+  blueprint: optional(blueprintSchema),
+  scoring: optional(scoringPreferencesSchema),
+  question_time_limit_seconds: optional(number({ min: 10, max: 1800, integer: true })),
+  language: optional(literal(...INTERVIEW_LANGUAGES)),
+  report_language: optional(literal(...INTERVIEW_LANGUAGES)),
+  prompt_versions: optional(promptVersionsSchema),
+  evaluation_runs: optional(evaluationRunsSchema),
+})
+
+// A stored session by id, or a transcript sent in full
+export const finalEvaluationRequestSchema: Schema<
+  FinalEvaluationRequest | SessionEvaluationRequest
+> = {
+  validate(value, path) {
+    return value && typeof value === "object" && "session_id" in value
+      ? sessionEvaluationRequestSchema.validate(value, path)
+      : stateless.validate(value, path)
+  },
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import type {
+  ApiErrorCode,
+  ApiErrorResponse,
+  StateViolationResponse,
+} from "@/types/interview"
+import { InterviewStateError } from "@/lib/interview-state"
+
+/**
+ * The API's one error shape, ApiErrorResponse: a message for people, a code
+ * for clients, and details when the request itself was at fault. The code
+ * follows from the status unless a more specific one applies.
+ */
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "invalid_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  410: "gone",
+  413: "payload_too_large",
+  415: "unsupported_media_type",
+  422: "unprocessable",
+  429: "rate_limited",
+  500: "internal_error",
+  503: "unavailable",
+}
+
+export interface ApiErrorOptions {
+  code?: ApiErrorCode
+  details?: string[]
+  headers?: Record<string, string>
+}
+
+// Thrown to end a request with an error response from anywhere below a route
+export class ApiError extends Error {
+  readonly status: number
+  readonly options: ApiErrorOptions
+
+  constructor(status: number, message: string, options: ApiErrorOptions = {}) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.options = options
+  }
+}
+
+export function apiError(
+  status: number,
+  error: string,
+  options: ApiErrorOptions = {}
+): NextResponse {
+  return NextResponse.json(
+    {
+      error,
+      code: options.code ?? getErrorCode(status),
+      details: options.details,
+    } satisfies ApiErrorResponse,
+    { status, headers: options.headers }
+  )
+}
+
+export function getErrorCode(status: number): ApiErrorCode {
+  return STATUS_CODES[status] ?? (status >= 500 ? "internal_error" : "invalid_request")
+}
+
+/**
+ * The response for an error a route did not handle itself. Anything but an
+ * ApiError or a state violation is logged and reported as `failure`, without
+ * its message, which may hold internals.
+ */
+export function toErrorResponse(
+  error: unknown,
+  route: string,
+  failure: string
+): NextResponse {
+  if (error instanceof ApiError) {
+    return apiError(error.status, error.message, error.options)
+  }
+
+  if (error instanceof InterviewStateError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: "state_conflict",
+        violations: error.violations,
+      } satisfies StateViolationResponse,
+      { status: 409 }
+    )
+  }
+
+  console.error(`${route} route error:`, error)
+  return apiError(500, failure)
+}
@@ -0,0 +1,270 @@
+import { NextRequest } from "next/server"
+import type { StaffRole, StaffUser } from "@/types/interview"
+import type { Schema } from "@/lib/schema"
+import { AUTH_COOKIE } from "@/lib/auth/cookie"
+import { getAuthSessionUser } from "@/lib/auth/sessions"
+import { ApiError, toErrorResponse } from "./errors"
+import { checkRateLimit, type RateLimitTier } from "./rate-limit"
+
+/**
+ * Wraps an App Router handler with what every API route needs, in order:
+ *
+ * 1. Rate limits per client IP, and for expensive routes (model calls, code
+ *    runs, uploads) a tighter one per IP and one per interview session. When
+ *    the client IP is unknown only the per-session limit applies
+ * 2. Access: the signed-in account must have the route's role (401 without
+ *    one, 403 with too little)
+ * 3. A body size limit, checked against Content-Length and while reading,
+ *    for JSON and multipart bodies alike
+ * 4. JSON parsing and validation against the route's schema; the handler
+ *    gets the validated body, with undeclared fields dropped
+ * 5. One error envelope (lib/api/errors.ts) for everything that goes wrong,
+ *    including errors the handler throws
+ *
+ *   export const POST = apiRoute(
+ *     { name: "Create template", failure: "Failed to create template",
+ *       access: "admin",
+ *       body: { schema: templateInputSchema, invalid: "Invalid template" } },
+ *     async (request, { body }) => NextResponse.json(await createTemplate(body))
+ *   )
+ *
+ * Multipart routes leave `body` unset, declare their size (maxBodyBytes) and
+ * parse the form themselves. Their body is read up to that size here, so a
+ * chunked upload without Content-Length cannot run past it either, and the
+ * handler gets a request holding what was read. Routes for bodies too large
+ * to hold in memory set streamBody instead: only Content-Length is checked
+ * here, and the handler reads the stream and stops at the limit itself.
+ */
+
+// The least role a route needs. "candidate" routes are reached with an
+// invite token, which the route resolves itself; "public" routes need nothing.
+// Admins can do everything reviewers can.
+export type RouteAccess = "public" | "candidate" | StaffRole
+
+export interface ApiRouteOptions<Body, Params> {
+  // Names the route in the log, as "<name> route error:"
+  name: string
+  // Message of the 500 response for unexpected errors
+  failure: string
+  access: RouteAccess
+  body?: {
+    schema: Schema<Body>
+    // Message of the 400 response, e.g. "Invalid template"
+    invalid: string
+    // An empty body is validated as {}
+    optional?: boolean
+  }
+  // Defaults to DEFAULT_MAX_BODY_BYTES for JSON bodies
+  maxBodyBytes?: number
+  // The handler reads request.body itself and enforces maxBodyBytes
+  streamBody?: boolean
+  expensive?: boolean
+  // The interview session (or account) an expensive request spends on
+  sessionKey?: (input: RouteInput<Body, Params>) => string | undefined
+}
+
+export interface RouteInput<Body, Params> {
+  body: Body
+  params: Params
+  // The signed-in staff account, on any route
+  user: StaffUser | null
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 1024 * 1024
+
+export function apiRoute<Body = undefined, Params = Record<string, string>>(
+  options: ApiRouteOptions<Body, Params>,
+  handler: (request: NextRequest, input: RouteInput<Body, Params>) => Promise<Response>
+): (request: NextRequest, context: { params: Params }) => Promise<Response> {
+  return async (request, context) => {
+    try {
+      const ip = getClientIp(request)
+      if (ip) {
+        enforceRateLimit("standard", ip)
+        if (options.expensive) enforceRateLimit("expensive", ip)
+      }
+
+      const user = await getRequestUser(request)
+      authorize(user, options.access)
+
+      const maxBytes =
+        options.maxBodyBytes ?? (options.body ? DEFAULT_MAX_BODY_BYTES : undefined)
+      if (maxBytes !== undefined) checkContentLength(request, maxBytes)
+
+      let body = undefined as Body
+      if (options.body) {
+        body = await readJsonBody(request, options.body, maxBytes ?? DEFAULT_MAX_BODY_BYTES)
+      } else if (maxBytes !== undefined && !options.streamBody) {
+        request = await bufferBody(request, maxBytes)
+      }
+
+      const input: RouteInput<Body, Params> = {
+        body,
+        params: context?.params ?? ({} as Params),
+        user,
+      }
+
+      const session = options.expensive ? options.sessionKey?.(input) : undefined
+      if (session) enforceRateLimit("session", session)
+
+      return await handler(request, input)
+    } catch (error) {
+      if (isNextSignal(error)) throw error
+      return toErrorResponse(error, options.name, options.failure)
+    }
+  }
+}
+
+/* ---------- helpers ---------- */
+
+const ROLE_RANK: Record<StaffRole, number> = { reviewer: 1, admin: 2 }
+
+// Next ends rendering by throwing errors with a digest: a route reading
+// cookies while it is prerendered at build time (DYNAMIC_SERVER_USAGE),
+// redirect() and notFound(). Next handles those itself.
+function isNextSignal(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { digest?: unknown }).digest === "string"
+  )
+}
+
+async function getRequestUser(request: NextRequest): Promise<StaffUser | null> {
+  const token = request.cookies.get(AUTH_COOKIE)?.value
+  return token ? getAuthSessionUser(token) : null
+}
+
+function authorize(user: StaffUser | null, access: RouteAccess) {
+  if (access === "public" || access === "candidate") return
+
+  if (!user) throw new ApiError(401, "Sign in to continue")
+  if (ROLE_RANK[user.role] < ROLE_RANK[access]) {
+    throw new ApiError(403, `This needs ${access === "admin" ? "an admin" : "a reviewer"} account`)
+  }
+}
+
+// The connection's address where the platform reports it. Forwarding headers
+// are only read behind TRUST_PROXY proxies (see lib/api/rate-limit.ts), and
+// then only the entry the nearest trusted proxy added: a client can put
+// anything in front of it. Undefined when neither tells, rather than one key
+// every client would share.
+function getClientIp(request: NextRequest): string | undefined {
+  if (request.ip) return request.ip
+
+  const hops = getTrustedProxyHops()
+  if (hops === 0) return undefined
+
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return (
+    forwarded[forwarded.length - hops] ??
+    request.headers.get("x-real-ip") ??
+    undefined
+  )
+}
+
+// TRUST_PROXY=true (one proxy) or the number of proxies in front of the app
+function getTrustedProxyHops(): number {
+  const value = process.env.TRUST_PROXY?.trim()
+  if (!value || value === "false") return 0
+  if (value === "true") return 1
+
+  const hops = Number(value)
+  return Number.isInteger(hops) && hops > 0 ? hops : 0
+}
+
+function enforceRateLimit(tier: RateLimitTier, key: string) {
+  const result = checkRateLimit(tier, key)
+  if (result.ok) return
+
+  throw new ApiError(
+    429,
+    tier === "session"
+      ? `Too many requests for this interview, try again in ${result.retryAfter}s`
+      : `Too many requests, try again in ${result.retryAfter}s`,
+    { headers: { "Retry-After": String(result.retryAfter) } }
+  )
+}
+
+function checkContentLength(request: NextRequest, maxBytes: number) {
+  const length = Number(request.headers.get("content-length"))
+  if (length > maxBytes) throw tooLarge(maxBytes)
+}
+
+async function readJsonBody<Body>(
+  request: NextRequest,
+  { schema, invalid, optional }: NonNullable<ApiRouteOptions<Body, unknown>["body"]>,
+  maxBytes: number
+): Promise<Body> {
+  const text = new TextDecoder().decode(await readBytes(request, maxBytes))
+
+  let value: unknown
+  if (!text.trim() && optional) {
+    value = {}
+  } else {
+    try {
+      value = JSON.parse(text)
+    } catch {
+      throw new ApiError(400, invalid, {
+        code: "invalid_json",
+        details: ["body: expected JSON"],
+      })
+    }
+  }
+
+  const result = schema.validate(value)
+  if (!result.ok) throw new ApiError(400, invalid, { details: result.errors })
+  return result.value
+}
+
+// A copy of the request with its body read, for handlers that parse it
+// themselves (request.formData())
+async function bufferBody(request: NextRequest, maxBytes: number): Promise<NextRequest> {
+  if (!request.body) return request
+
+  return new NextRequest(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: await readBytes(request, maxBytes),
+  })
+}
+
+// The body, stopping as soon as it is larger than allowed
+async function readBytes(request: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  if (!request.body) return new Uint8Array(0)
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.length
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge(maxBytes)
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+function tooLarge(maxBytes: number): ApiError {
+  const size =
+    maxBytes >= 1024 * 1024
+      ? `${Math.round(maxBytes / (1024 * 1024))} MB`
+      : `${Math.round(maxBytes / 1024)} KB`
+  return new ApiError(413, `Request body is larger than ${size}`)
+}
@@ -0,0 +1,94 @@
+/**
+ * Fixed-window request counters, kept in memory per server process. Limits
+ * are per minute and come from the environment:
+ *
+ *   RATE_LIMIT_PER_MINUTE=120             any API request, per client IP
+ *   RATE_LIMIT_EXPENSIVE_PER_MINUTE=20    model calls, code runs, uploads, per IP
+ *   RATE_LIMIT_SESSION_PER_MINUTE=10      the same, per interview session
+ *
+ * 0 turns a limit off. Counters are not shared between processes, so several
+ * instances each allow the full limit.
+ *
+ * The client IP comes from the platform where it reports one. Otherwise it
+ * comes from X-Forwarded-For (or X-Real-IP) only when the app runs behind a
+ * proxy that sets it:
+ *
+ *   TRUST_PROXY=true     one proxy; a number for a chain of proxies
+ *
+ * Without TRUST_PROXY those headers are ignored, since any client can send
+ * them. Under `next start` the client IP is then unknown and only the
+ * per-session limit applies; the per-IP ones are skipped rather than shared
+ * by every client.
+ */
+
+export type RateLimitTier = "standard" | "expensive" | "session"
+
+export interface RateLimitResult {
+  ok: boolean
+  limit: number
+  // Seconds until the window resets; only meaningful when not ok
+  retryAfter: number
+}
+
+const WINDOW_MS = 60_000
+
+const DEFAULT_LIMITS: Record<RateLimitTier, number> = {
+  standard: 120,
+  expensive: 20,
+  session: 10,
+}
+
+const LIMIT_ENV: Record<RateLimitTier, string> = {
+  standard: "RATE_LIMIT_PER_MINUTE",
+  expensive: "RATE_LIMIT_EXPENSIVE_PER_MINUTE",
+  session: "RATE_LIMIT_SESSION_PER_MINUTE",
+}
+
+// Windows are swept when there are more than this many
+const MAX_TRACKED_KEYS = 10_000
+
+export function getRateLimit(tier: RateLimitTier): number {
+  const value = process.env[LIMIT_ENV[tier]]
+  if (value === undefined || value.trim() === "") return DEFAULT_LIMITS[tier]
+
+  const limit = Number(value)
+  return Number.isFinite(limit) && limit >= 0 ? Math.floor(limit) : DEFAULT_LIMITS[tier]
+}
+
+// Counts one request against the key's window for the tier
+export function checkRateLimit(
+  tier: RateLimitTier,
+  key: string,
+  now = Date.now()
+): RateLimitResult {
+  const limit = getRateLimit(tier)
+  if (limit === 0) return { ok: true, limit, retryAfter: 0 }
+
+  if (windows.size > MAX_TRACKED_KEYS) sweep(now)
+
+  const id = `${tier}:${key}`
+  const current = windows.get(id)
+  const window =
+    current && current.resetAt > now
+      ? current
+      : { count: 0, resetAt: now + WINDOW_MS }
+
+  window.count++
+  windows.set(id, window)
+
+  return {
+    ok: window.count <= limit,
+    limit,
+    retryAfter: Math.max(1, Math.ceil((window.resetAt - now) / 1000)),
+  }
+}
+
+/* ---------- helpers ---------- */
+
+const windows = new Map<string, { count: number; resetAt: number }>()
+
+function sweep(now: number) {
+  windows.forEach((window, id) => {
+    if (window.resetAt <= now) windows.delete(id)
+  })
+}
@@ -0,0 +1,45 @@
+import type { NextResponse } from "next/server"
+
+/**
+ * The staff sign-in cookie. Kept apart from lib/auth/sessions.ts so the
+ * middleware, which runs without Node APIs, can check for it.
+ *
+ * The cookie is httpOnly and SameSite=Lax, so other sites cannot send it
+ * with their requests to the API. It is Secure in production; set
+ * AUTH_COOKIE_SECURE=false to serve production builds over plain HTTP.
+ */
+
+export const AUTH_COOKIE = "komyra_session"
+
+export function setAuthCookie(
+  response: NextResponse,
+  token: string,
+  expires: Date
+) {
+  response.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: isSecureCookie(),
+    path: "/",
+    expires,
+  })
+}
+
+export function clearAuthCookie(response: NextResponse) {
+  response.cookies.set(AUTH_COOKIE, "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: isSecureCookie(),
+    path: "/",
+    maxAge: 0,
+  })
+}
+
+/* ---------- helpers ---------- */
+
+function isSecureCookie(): boolean {
+  if (process.env.AUTH_COOKIE_SECURE) {
+    return process.env.AUTH_COOKIE_SECURE !== "false"
+  }
+  return process.env.NODE_ENV === "production"
+}
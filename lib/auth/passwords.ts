@@ -0,0 +1,62 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto"
+
+/**
+ * Password hashing with scrypt from Node's crypto, stored as
+ *
+ *   scrypt$<N>$<r>$<p>$<salt, base64>$<key, base64>
+ *
+ * so the cost can be raised later without breaking existing hashes.
+ */
+
+const COST = { N: 16384, r: 8, p: 1 }
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+
+export const MIN_PASSWORD_LENGTH = 10
+export const MAX_PASSWORD_LENGTH = 200
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt, KEY_BYTES, COST)
+
+  return [
+    "scrypt",
+    COST.N,
+    COST.r,
+    COST.p,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$")
+}
+
+export async function verifyPassword(
+  password: string,
+  hash: string
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, expected] = hash.split("$")
+  if (scheme !== "scrypt" || !salt || !expected) return false
+
+  const expectedKey = Buffer.from(expected, "base64")
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), expectedKey.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  })
+
+  return timingSafeEqual(key, expectedKey)
+}
+
+/* ---------- helpers ---------- */
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  length: number,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, length, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    )
+  })
+}
@@ -0,0 +1,90 @@
+import { createHash, randomBytes } from "crypto"
+import type { StaffUser } from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { getUser } from "./users"
+
+/**
+ * Server-side sign-in sessions. The browser holds a random token in the
+ * AUTH_COOKIE cookie; the store only keeps its SHA-256, so the data
+ * directory alone cannot be used to sign in. Sessions last AUTH_SESSION_HOURS
+ * (default 12) and end early on sign-out, password change or deletion of
+ * the account. Role changes apply on the next request.
+ */
+
+interface AuthSession {
+  // SHA-256 of the cookie token
+  id: string
+  userId: string
+  expiresAt: string
+  createdAt: string
+}
+
+const store = createJsonStore<AuthSession>("auth-sessions")
+
+const DEFAULT_SESSION_HOURS = 12
+
+export function getAuthSessionHours(): number {
+  const hours = Number(process.env.AUTH_SESSION_HOURS)
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_HOURS
+}
+
+export async function createAuthSession(
+  userId: string
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("base64url")
+  const now = Date.now()
+  await removeExpired(now)
+  const expiresAt = new Date(now + getAuthSessionHours() * 60 * 60 * 1000)
+
+  await store.save({
+    id: hashToken(token),
+    userId,
+    expiresAt: expiresAt.toISOString(),
+    createdAt: new Date(now).toISOString(),
+  })
+
+  return { token, expiresAt }
+}
+
+// The signed-in account for a cookie token, if the session is still valid
+export async function getAuthSessionUser(
+  token: string
+): Promise<StaffUser | null> {
+  const session = await store.get(hashToken(token))
+  if (!session) return null
+
+  if (Date.parse(session.expiresAt) <= Date.now()) {
+    await store.remove(session.id)
+    return null
+  }
+
+  return getUser(session.userId)
+}
+
+export async function endAuthSession(token: string): Promise<void> {
+  await store.remove(hashToken(token))
+}
+
+export async function endUserAuthSessions(userId: string): Promise<void> {
+  const sessions = await store.list()
+  await Promise.all(
+    sessions
+      .filter((session) => session.userId === userId)
+      .map((session) => store.remove(session.id))
+  )
+}
+
+/* ---------- helpers ---------- */
+
+async function removeExpired(now: number) {
+  const sessions = await store.list()
+  await Promise.all(
+    sessions
+      .filter((session) => Date.parse(session.expiresAt) <= now)
+      .map((session) => store.remove(session.id))
+  )
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex")
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from "crypto"
+import type {
+  CreateUserRequest,
+  LoginRequest,
+  StaffRole,
+  StaffUser,
+  UpdateUserRequest,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { literal, object, optional, string, type Schema } from "@/lib/schema"
+import {
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  hashPassword,
+  verifyPassword,
+} from "./passwords"
+
+/**
+ * Staff accounts with local credentials. The first admin comes from the
+ * environment:
+ *
+ *   ADMIN_USERNAME=admin
+ *   ADMIN_PASSWORD=<at least 10 characters>
+ *
+ * and is created on the first sign-in while there are no accounts at all;
+ * after that, admins manage accounts on /users and the variables are ignored.
+ */
+
+interface StoredUser extends StaffUser {
+  passwordHash: string
+}
+
+const store = createJsonStore<StoredUser>("users")
+
+export const STAFF_ROLES: readonly StaffRole[] = ["admin", "reviewer"]
+
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,64}$/
+
+const password = string({ min: MIN_PASSWORD_LENGTH, max: MAX_PASSWORD_LENGTH })
+const role = literal(...STAFF_ROLES)
+
+export const loginRequestSchema: Schema<LoginRequest> = object({
+  username: string({ min: 1, max: 200 }),
+  password: string({ min: 1, max: MAX_PASSWORD_LENGTH }),
+})
+
+export const createUserRequestSchema: Schema<CreateUserRequest> = object({
+  username: string({ min: 1, max: 64 }),
+  password,
+  role,
+})
+
+export const updateUserRequestSchema: Schema<UpdateUserRequest> = object({
+  role: optional(role),
+  password: optional(password),
+})
+
+export async function listUsers(): Promise<StaffUser[]> {
+  const users = await store.list()
+  return users
+    .sort((a, b) => a.username.localeCompare(b.username))
+    .map(toStaffUser)
+}
+
+export async function getUser(id: string): Promise<StaffUser | null> {
+  const user = await store.get(id)
+  return user && toStaffUser(user)
+}
+
+// The account for these credentials, or null. Unknown usernames take as long
+// to reject as wrong passwords.
+export async function authenticate(
+  request: LoginRequest
+): Promise<StaffUser | null> {
+  await createBootstrapAdmin()
+
+  const username = request.username.trim().toLowerCase()
+  const user = (await store.list()).find((u) => u.username === username)
+
+  const valid = await verifyPassword(
+    request.password,
+    user?.passwordHash ?? (await getDummyHash())
+  )
+  if (!user || !valid) return null
+
+  return toStaffUser(
+    await store.save({ ...user, lastLoginAt: new Date().toISOString() })
+  )
+}
+
+export async function createUser(
+  request: CreateUserRequest
+): Promise<{ user: StaffUser } | { problems: string[] }> {
+  const username = request.username.trim().toLowerCase()
+  if (!USERNAME_PATTERN.test(username)) {
+    return {
+      problems: [
+        'username: use 3 to 64 letters, digits, ".", "_" or "-"',
+      ],
+    }
+  }
+
+  const passwordHash = await hashPassword(request.password)
+
+  return serialize(async () => {
+    const users = await store.list()
+    if (users.some((u) => u.username === username)) {
+      return { problems: [`username: "${username}" is already taken`] }
+    }
+
+    const now = new Date().toISOString()
+    const user = await store.save({
+      id: randomUUID(),
+      username,
+      role: request.role,
+      passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    return { user: toStaffUser(user) }
+  })
+}
+
+export async function updateUser(
+  id: string,
+  request: UpdateUserRequest
+): Promise<{ user: StaffUser } | { problems: string[] } | null> {
+  const passwordHash = request.password
+    ? await hashPassword(request.password)
+    : undefined
+
+  return serialize(async () => {
+    const user = await store.get(id)
+    if (!user) return null
+
+    if (request.role && request.role !== "admin" && (await isLastAdmin(user))) {
+      return { problems: ["role: the last admin cannot be demoted"] }
+    }
+
+    const updated = await store.save({
+      ...user,
+      role: request.role ?? user.role,
+      passwordHash: passwordHash ?? user.passwordHash,
+      updatedAt: new Date().toISOString(),
+    })
+
+    return { user: toStaffUser(updated) }
+  })
+}
+
+export async function deleteUser(
+  id: string
+): Promise<{ deleted: boolean } | { problems: string[] }> {
+  return serialize(async () => {
+    const user = await store.get(id)
+    if (!user) return { deleted: false }
+
+    if (await isLastAdmin(user)) {
+      return { problems: ["The last admin cannot be deleted"] }
+    }
+
+    return { deleted: await store.remove(id) }
+  })
+}
+
+/* ---------- helpers ---------- */
+
+// Account changes run one at a time, so usernames stay unique and an admin
+// always remains
+let queue: Promise<unknown> = Promise.resolve()
+
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+async function isLastAdmin(user: StoredUser): Promise<boolean> {
+  if (user.role !== "admin") return false
+  const admins = (await store.list()).filter((u) => u.role === "admin")
+  return admins.length <= 1
+}
+
+async function createBootstrapAdmin() {
+  const username = process.env.ADMIN_USERNAME
+  const password = process.env.ADMIN_PASSWORD
+  if (!username || !password) return
+
+  await serialize(async () => {
+    if ((await store.list()).length > 0) return
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      console.error(
+        `ADMIN_PASSWORD is shorter than ${MIN_PASSWORD_LENGTH} characters; no admin was created`
+      )
+      return
+    }
+
+    const now = new Date().toISOString()
+    await store.save({
+      id: randomUUID(),
+      username: username.trim().toLowerCase(),
+      role: "admin",
+      passwordHash: await hashPassword(password),
+      createdAt: now,
+      updatedAt: now,
+    })
+  })
+}
+
+let dummyHash: Promise<string> | undefined
+
+function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomUUID())
+  return dummyHash
+}
+
+function toStaffUser({ passwordHash: _hash, ...user }: StoredUser): StaffUser {
+  return user
+}
@@ -0,0 +1,104 @@
+import type {
+  BlueprintCategory,
+  BlueprintTarget,
+  InterviewAnswer,
+  InterviewBlueprint,
+} from "@/types/interview"
+import { getAnswerKey } from "@/lib/interview-state"
+
+/**
+ * Which blueprint items the interview has probed so far. Every asked question
+ * records the items it targets (InterviewState.current_question_targets, then
+ * InterviewAnswer.targets once answered); an item is covered once an answered
+ * question targeted it.
+ *
+ * Items get short ids (gap-1, skill-2, ...) so a model can name them in its
+ * output without restating them.
+ */
+
+export interface BlueprintItem extends BlueprintTarget {
+  id: string
+}
+
+export interface CoverageEntry {
+  item: BlueprintItem
+  // Keys (getAnswerKey) of the answers whose question targeted this item
+  answer_keys: string[]
+}
+
+// Order is also the order of priority when choosing what to ask next
+export const COVERAGE_CATEGORIES: {
+  category: BlueprintCategory
+  prefix: string
+  label: string
+}[] = [
+  { category: "skill_gaps", prefix: "gap", label: "Skill gaps" },
+  { category: "focus_areas", prefix: "focus", label: "Focus areas" },
+  { category: "key_skills", prefix: "skill", label: "Key skills" },
+  { category: "suggested_question_themes", prefix: "theme", label: "Question themes" },
+]
+
+export function listBlueprintItems(blueprint: InterviewBlueprint): BlueprintItem[] {
+  return COVERAGE_CATEGORIES.flatMap(({ category, prefix }) =>
+    blueprint[category].map((item, i) => ({
+      id: `${prefix}-${i + 1}`,
+      category,
+      item,
+    }))
+  )
+}
+
+export function getBlueprintCoverage(
+  blueprint: InterviewBlueprint,
+  history: InterviewAnswer[]
+): CoverageEntry[] {
+  return listBlueprintItems(blueprint).map((item) => ({
+    item,
+    answer_keys: history.flatMap((answer, i) =>
+      answer.targets?.some((target) => isSameTarget(target, item))
+        ? [getAnswerKey(answer, i)]
+        : []
+    ),
+  }))
+}
+
+export function getUncoveredItems(
+  blueprint: InterviewBlueprint,
+  history: InterviewAnswer[]
+): BlueprintItem[] {
+  return listBlueprintItems(blueprint).filter(
+    (item) =>
+      !history.some((answer) =>
+        answer.targets?.some((target) => isSameTarget(target, item))
+      )
+  )
+}
+
+/**
+ * Maps ids named by the model back to blueprint items; unknown ids are
+ * dropped rather than trusted.
+ */
+export function resolveTargetIds(
+  blueprint: InterviewBlueprint,
+  ids: string[] = []
+): BlueprintTarget[] {
+  const items = new Map(
+    listBlueprintItems(blueprint).map((item) => [item.id, item])
+  )
+  const targets: BlueprintTarget[] = []
+
+  for (const id of ids) {
+    const item = items.get(id.trim().toLowerCase())
+    if (item && !targets.some((target) => isSameTarget(target, item))) {
+      targets.push({ category: item.category, item: item.item })
+    }
+  }
+
+  return targets
+}
+
+/* ---------- helpers ---------- */
+
+function isSameTarget(a: BlueprintTarget, b: BlueprintTarget): boolean {
+  return a.category === b.category && a.item === b.item
+}
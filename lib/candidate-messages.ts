@@ -0,0 +1,279 @@
+import type { InterviewLanguage } from "@/types/interview"
+import { DEFAULT_LANGUAGE, isInterviewLanguage } from "@/lib/languages"
+
+/**
+ * Text of the candidate's interview page, in each interview language. The
+ * admin pages stay in English.
+ */
+
+export interface CandidateMessages {
+  initializing: string
+  preparingQuestions: string
+  loadingInterview: string
+  loadingQuestion: string
+  loadingNextQuestion: string
+  thankYou: string
+  interviewComplete: (roleTitle?: string) => string
+  interviewTitle: (roleTitle: string) => string
+  questionProgress: (number: number, total: number) => string
+  followUpProgress: (count: number, max: number) => string
+  timeLeft: (time: string) => string
+  totalTimeLeft: (time: string) => string
+  cameraPreview: string
+  cameraDenied: string
+  recordingNotice: string
+  currentQuestion: string
+  followUpQuestion: string
+  speaking: string
+  replay: string
+  replayTitle: string
+  yourAnswer: string
+  editHint: string
+  listening: string
+  startPrompt: string
+  transcribing: string
+  serverTranscriptionHint: string
+  recording: string
+  startAnswer: string
+  continueAnswer: string
+  stopAnswer: string
+  submitAnswer: string
+  finishInterview: string
+  skip: string
+  emptyAnswer: string
+  codingTask: (language: string, functionName: string) => string
+  codingAnswerHint: string
+  yourCode: string
+  examples: string
+  runTests: string
+  runningTests: string
+  testsPassed: (passed: number, total: number) => string
+  testLabel: (number: number, hidden: boolean) => string
+  expected: string
+  got: string
+  output: string
+  codeTimedOut: string
+  errors: {
+    notFound: string
+    linkExpired: string
+    loadFailed: string
+    nextQuestionFailed: string
+    outOfSync: string
+    speechUnsupported: string
+    microphoneDenied: string
+    recognitionNotInitialized: string
+    recognitionFailed: string
+    microphoneUnavailable: string
+    recordingFailed: string
+    transcriptionFailed: string
+    cameraRequired: string
+    codeRunFailed: string
+  }
+}
+
+export type CandidateError = keyof CandidateMessages["errors"]
+
+const MESSAGES: Record<InterviewLanguage, CandidateMessages> = {
+  en: {
+    initializing: "Initializing interview...",
+    preparingQuestions: "Preparing your questions...",
+    loadingInterview: "Loading interview...",
+    loadingQuestion: "Loading question...",
+    loadingNextQuestion: "Loading next question...",
+    thankYou: "Thank you!",
+    interviewComplete: (roleTitle) =>
+      `Your interview${roleTitle ? ` for ${roleTitle}` : ""} is complete. The hiring team will be in touch.`,
+    interviewTitle: (roleTitle) => `Interview: ${roleTitle}`,
+    questionProgress: (number, total) => `Question ${number} of ${total}`,
+    followUpProgress: (count, max) => ` (Follow-up ${count}/${max})`,
+    timeLeft: (time) => `${time} left`,
+    totalTimeLeft: (time) => `${time} total`,
+    cameraPreview: "Camera Preview",
+    cameraDenied: "Camera access denied",
+    recordingNotice: "Your answers are recorded for the hiring team.",
+    currentQuestion: "Current Question",
+    followUpQuestion: "Follow-up Question",
+    speaking: "Speaking...",
+    replay: "Replay",
+    replayTitle: "Replay question",
+    yourAnswer: "Your Answer",
+    editHint: "Correct anything that was misheard, or press Continue Answer to keep speaking.",
+    listening: "Listening...",
+    startPrompt: 'Click "Start Answer" to begin speaking',
+    transcribing: "Transcribing...",
+    serverTranscriptionHint: "Your answer is transcribed every few seconds while you speak.",
+    recording: "Recording...",
+    startAnswer: "Start Answer",
+    continueAnswer: "Continue Answer",
+    stopAnswer: "Stop Answer",
+    submitAnswer: "Submit Answer",
+    finishInterview: "Finish Interview",
+    skip: "Skip",
+    emptyAnswer: "Please provide an answer before proceeding",
+    codingTask: (language, functionName) =>
+      `Write ${functionName} in ${language}. Run the tests as often as you like; some of them are hidden.`,
+    codingAnswerHint: "Optional: explain your approach out loud.",
+    yourCode: "Your Code",
+    examples: "Examples",
+    runTests: "Run Tests",
+    runningTests: "Running...",
+    testsPassed: (passed, total) => `${passed} of ${total} tests passed`,
+    testLabel: (number, hidden) => (hidden ? `Hidden test ${number}` : `Test ${number}`),
+    expected: "Expected",
+    got: "Got",
+    output: "Output",
+    codeTimedOut: "Your code ran out of time.",
+    errors: {
+      notFound: "Interview not found",
+      linkExpired: "This interview link has expired.",
+      loadFailed: "Failed to load interview",
+      nextQuestionFailed: "Failed to load next question. Please try again.",
+      outOfSync: "Your interview is out of sync. Please reload the page.",
+      speechUnsupported: "Speech recognition not supported",
+      microphoneDenied: "Microphone access is required to dictate your answer",
+      recognitionNotInitialized: "Speech recognition not initialized",
+      recognitionFailed: "Failed to start speech recognition",
+      microphoneUnavailable: "Microphone is not available",
+      recordingFailed: "Failed to start recording",
+      transcriptionFailed: "Part of your answer could not be transcribed",
+      cameraRequired: "Camera and microphone access is required for the interview",
+      codeRunFailed: "Your code could not be run. Please try again.",
+    },
+  },
+  es: {
+    initializing: "Iniciando la entrevista...",
+    preparingQuestions: "Preparando sus preguntas...",
+    loadingInterview: "Cargando la entrevista...",
+    loadingQuestion: "Cargando la pregunta...",
+    loadingNextQuestion: "Cargando la siguiente pregunta...",
+    thankYou: "¡Gracias!",
+    interviewComplete: (roleTitle) =>
+      `Su entrevista${roleTitle ? ` para ${roleTitle}` : ""} ha finalizado. El equipo de selección se pondrá en contacto con usted.`,
+    interviewTitle: (roleTitle) => `Entrevista: ${roleTitle}`,
+    questionProgress: (number, total) => `Pregunta ${number} de ${total}`,
+    followUpProgress: (count, max) => ` (Seguimiento ${count}/${max})`,
+    timeLeft: (time) => `Quedan ${time}`,
+    totalTimeLeft: (time) => `${time} en total`,
+    cameraPreview: "Vista previa de la cámara",
+    cameraDenied: "Acceso a la cámara denegado",
+    recordingNotice: "Sus respuestas se graban para el equipo de selección.",
+    currentQuestion: "Pregunta actual",
+    followUpQuestion: "Pregunta de seguimiento",
+    speaking: "Hablando...",
+    replay: "Repetir",
+    replayTitle: "Repetir la pregunta",
+    yourAnswer: "Su respuesta",
+    editHint: "Corrija lo que se haya entendido mal, o pulse Continuar respuesta para seguir hablando.",
+    listening: "Escuchando...",
+    startPrompt: 'Pulse "Empezar respuesta" para empezar a hablar',
+    transcribing: "Transcribiendo...",
+    serverTranscriptionHint: "Su respuesta se transcribe cada pocos segundos mientras habla.",
+    recording: "Grabando...",
+    startAnswer: "Empezar respuesta",
+    continueAnswer: "Continuar respuesta",
+    stopAnswer: "Detener respuesta",
+    submitAnswer: "Enviar respuesta",
+    finishInterview: "Finalizar entrevista",
+    skip: "Omitir",
+    emptyAnswer: "Responda a la pregunta antes de continuar",
+    codingTask: (language, functionName) =>
+      `Escriba ${functionName} en ${language}. Ejecute las pruebas tantas veces como quiera; algunas están ocultas.`,
+    codingAnswerHint: "Opcional: explique su enfoque en voz alta.",
+    yourCode: "Su código",
+    examples: "Ejemplos",
+    runTests: "Ejecutar pruebas",
+    runningTests: "Ejecutando...",
+    testsPassed: (passed, total) => `${passed} de ${total} pruebas superadas`,
+    testLabel: (number, hidden) => (hidden ? `Prueba oculta ${number}` : `Prueba ${number}`),
+    expected: "Esperado",
+    got: "Obtenido",
+    output: "Salida",
+    codeTimedOut: "Su código superó el tiempo límite.",
+    errors: {
+      notFound: "Entrevista no encontrada",
+      linkExpired: "El enlace de esta entrevista ha caducado.",
+      loadFailed: "No se pudo cargar la entrevista",
+      nextQuestionFailed: "No se pudo cargar la siguiente pregunta. Inténtelo de nuevo.",
+      outOfSync: "Su entrevista no está sincronizada. Vuelva a cargar la página.",
+      speechUnsupported: "El reconocimiento de voz no está disponible",
+      microphoneDenied: "Se necesita acceso al micrófono para dictar su respuesta",
+      recognitionNotInitialized: "El reconocimiento de voz no está inicializado",
+      recognitionFailed: "No se pudo iniciar el reconocimiento de voz",
+      microphoneUnavailable: "El micrófono no está disponible",
+      recordingFailed: "No se pudo iniciar la grabación",
+      transcriptionFailed: "No se pudo transcribir parte de su respuesta",
+      cameraRequired: "Se necesita acceso a la cámara y al micrófono para la entrevista",
+      codeRunFailed: "No se pudo ejecutar su código. Inténtelo de nuevo.",
+    },
+  },
+  de: {
+    initializing: "Interview wird gestartet...",
+    preparingQuestions: "Ihre Fragen werden vorbereitet...",
+    loadingInterview: "Interview wird geladen...",
+    loadingQuestion: "Frage wird geladen...",
+    loadingNextQuestion: "Nächste Frage wird geladen...",
+    thankYou: "Vielen Dank!",
+    interviewComplete: (roleTitle) =>
+      `Ihr Interview${roleTitle ? ` für ${roleTitle}` : ""} ist abgeschlossen. Das Recruiting-Team meldet sich bei Ihnen.`,
+    interviewTitle: (roleTitle) => `Interview: ${roleTitle}`,
+    questionProgress: (number, total) => `Frage ${number} von ${total}`,
+    followUpProgress: (count, max) => ` (Nachfrage ${count}/${max})`,
+    timeLeft: (time) => `noch ${time}`,
+    totalTimeLeft: (time) => `${time} insgesamt`,
+    cameraPreview: "Kameravorschau",
+    cameraDenied: "Kamerazugriff verweigert",
+    recordingNotice: "Ihre Antworten werden für das Recruiting-Team aufgezeichnet.",
+    currentQuestion: "Aktuelle Frage",
+    followUpQuestion: "Nachfrage",
+    speaking: "Spricht...",
+    replay: "Wiederholen",
+    replayTitle: "Frage wiederholen",
+    yourAnswer: "Ihre Antwort",
+    editHint: "Korrigieren Sie falsch Verstandenes, oder klicken Sie auf Antwort fortsetzen, um weiterzusprechen.",
+    listening: "Hört zu...",
+    startPrompt: 'Klicken Sie auf "Antwort starten", um zu sprechen',
+    transcribing: "Wird transkribiert...",
+    serverTranscriptionHint: "Ihre Antwort wird alle paar Sekunden transkribiert, während Sie sprechen.",
+    recording: "Aufnahme läuft...",
+    startAnswer: "Antwort starten",
+    continueAnswer: "Antwort fortsetzen",
+    stopAnswer: "Antwort beenden",
+    submitAnswer: "Antwort senden",
+    finishInterview: "Interview beenden",
+    skip: "Überspringen",
+    emptyAnswer: "Bitte beantworten Sie die Frage, bevor Sie fortfahren",
+    codingTask: (language, functionName) =>
+      `Schreiben Sie ${functionName} in ${language}. Sie können die Tests beliebig oft ausführen; einige davon sind verborgen.`,
+    codingAnswerHint: "Optional: Erläutern Sie Ihren Ansatz mündlich.",
+    yourCode: "Ihr Code",
+    examples: "Beispiele",
+    runTests: "Tests ausführen",
+    runningTests: "Wird ausgeführt...",
+    testsPassed: (passed, total) => `${passed} von ${total} Tests bestanden`,
+    testLabel: (number, hidden) => (hidden ? `Verborgener Test ${number}` : `Test ${number}`),
+    expected: "Erwartet",
+    got: "Erhalten",
+    output: "Ausgabe",
+    codeTimedOut: "Ihr Code hat das Zeitlimit überschritten.",
+    errors: {
+      notFound: "Interview nicht gefunden",
+      linkExpired: "Dieser Interview-Link ist abgelaufen.",
+      loadFailed: "Das Interview konnte nicht geladen werden",
+      nextQuestionFailed: "Die nächste Frage konnte nicht geladen werden. Bitte versuchen Sie es erneut.",
+      outOfSync: "Ihr Interview ist nicht mehr synchron. Bitte laden Sie die Seite neu.",
+      speechUnsupported: "Spracherkennung wird nicht unterstützt",
+      microphoneDenied: "Für das Diktieren Ihrer Antwort ist Mikrofonzugriff erforderlich",
+      recognitionNotInitialized: "Spracherkennung ist nicht initialisiert",
+      recognitionFailed: "Spracherkennung konnte nicht gestartet werden",
+      microphoneUnavailable: "Das Mikrofon ist nicht verfügbar",
+      recordingFailed: "Aufnahme konnte nicht gestartet werden",
+      transcriptionFailed: "Ein Teil Ihrer Antwort konnte nicht transkribiert werden",
+      cameraRequired: "Für das Interview ist Zugriff auf Kamera und Mikrofon erforderlich",
+      codeRunFailed: "Ihr Code konnte nicht ausgeführt werden. Bitte versuchen Sie es erneut.",
+    },
+  },
+}
+
+export function getCandidateMessages(language?: string): CandidateMessages {
+  return MESSAGES[isInterviewLanguage(language) ? language : DEFAULT_LANGUAGE]
+}
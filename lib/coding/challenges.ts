@@ -0,0 +1,200 @@
+import type {
+  CandidateChallenge,
+  CodeLanguage,
+  CodeRunRequest,
+  CodeRunResult,
+  CodingChallenge,
+  InterviewSetup,
+  ManualCodingChallenge,
+} from "@/types/interview"
+import {
+  array,
+  boolean,
+  jsonValue,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  type Schema,
+} from "@/lib/schema"
+
+/**
+ * Coding questions. A question becomes a coding question when it carries a
+ * challenge: the language, the function the candidate implements, starter
+ * code and test cases. The challenge stays on the server with the session;
+ * the candidate only ever sees its visible test cases as examples, and only
+ * pass/fail for the hidden ones (lib/coding/runner.ts runs them).
+ */
+
+export const CODE_LANGUAGES: CodeLanguage[] = ["javascript", "typescript", "python"]
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  javascript: "JavaScript",
+  typescript: "TypeScript",
+  python: "Python",
+}
+
+export const MAX_CODE_LENGTH = 64 * 1024
+
+const MAX_TEST_CASES = 30
+
+// An identifier in every supported language
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+const challengeShape = {
+  language: literal(...CODE_LANGUAGES),
+  function_name: string({ min: 1, max: 100 }),
+  starter_code: string({ max: MAX_CODE_LENGTH }),
+  tests: array(
+    object({
+      args: array(jsonValue()),
+      expected: jsonValue(),
+      hidden: optional(boolean()),
+    }),
+    { max: MAX_TEST_CASES }
+  ),
+}
+
+export const codingChallengeSchema = object(challengeShape)
+
+export const manualCodingChallengeSchema = object({
+  ...challengeShape,
+  question_number: number({ min: 1, integer: true }),
+})
+
+export const codeRunRequestSchema: Schema<CodeRunRequest> = object({
+  question_id: string({ min: 1 }),
+  code: string({ max: MAX_CODE_LENGTH }),
+})
+
+/**
+ * What the schemas cannot check: a usable function name and at least one
+ * test case. An empty list means the challenge can be run.
+ */
+export function checkChallenge(challenge: CodingChallenge): string[] {
+  const problems: string[] = []
+  if (!FUNCTION_NAME_PATTERN.test(challenge.function_name)) {
+    problems.push(`function_name: "${challenge.function_name}" is not a valid identifier`)
+  }
+  if (challenge.tests.length === 0) {
+    problems.push("tests: at least one test case is required")
+  }
+  return problems
+}
+
+/**
+ * Problems with a setup's coding settings, as paths and messages like the
+ * schemas report them. An empty list means they are usable.
+ */
+export function checkCodingSetup(
+  setup: Pick<InterviewSetup, "codingLanguage" | "codingChallenges">
+): string[] {
+  const problems: string[] = []
+
+  if (setup.codingLanguage !== undefined) {
+    const language = literal(...CODE_LANGUAGES).validate(
+      setup.codingLanguage,
+      "codingLanguage"
+    )
+    if (!language.ok) problems.push(...language.errors)
+  }
+
+  if (setup.codingChallenges !== undefined) {
+    const challenges = array(manualCodingChallengeSchema).validate(
+      setup.codingChallenges,
+      "codingChallenges"
+    )
+    if (!challenges.ok) return [...problems, ...challenges.errors]
+
+    challenges.value.forEach((challenge, i) =>
+      problems.push(
+        ...checkChallenge(challenge).map(
+          (problem) => `codingChallenges[${i}].${problem}`
+        )
+      )
+    )
+  }
+
+  return problems
+}
+
+// The challenge for the manual question at the given 0-based index, if any
+export function getManualChallenge(
+  setup: InterviewSetup,
+  index: number
+): CodingChallenge | undefined {
+  const manual = setup.codingChallenges?.find(
+    (challenge) => challenge.question_number === index + 1
+  )
+  return manual ? stripQuestionNumber(manual) : undefined
+}
+
+export function toCandidateChallenge(
+  challenge: CodingChallenge
+): CandidateChallenge {
+  return {
+    language: challenge.language,
+    function_name: challenge.function_name,
+    starter_code: challenge.starter_code,
+    examples: challenge.tests
+      .filter((test) => !test.hidden)
+      .map(({ args, expected }) => ({ args, expected })),
+  }
+}
+
+// Hidden cases keep only whether they passed
+export function toCandidateRunResult(result: CodeRunResult): CodeRunResult {
+  return {
+    ...result,
+    tests: result.tests.map((test) =>
+      test.hidden ? { passed: test.passed, hidden: true } : test
+    ),
+  }
+}
+
+/**
+ * Compares a returned value with the expected one as JSON: object key order
+ * does not matter, and numbers only have to agree to within floating point
+ * error.
+ */
+export function isSameJsonValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === "number" && typeof expected === "number") {
+    const scale = Math.max(1, Math.abs(actual), Math.abs(expected))
+    return Math.abs(actual - expected) <= 1e-9 * scale
+  }
+
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((item, i) => isSameJsonValue(item, expected[i]))
+    )
+  }
+
+  if (isPlainObject(actual) && isPlainObject(expected)) {
+    const keys = Object.keys(expected)
+    return (
+      Object.keys(actual).length === keys.length &&
+      keys.every(
+        (key) => key in actual && isSameJsonValue(actual[key], expected[key])
+      )
+    )
+  }
+
+  return actual === expected
+}
+
+/* ---------- helpers ---------- */
+
+function stripQuestionNumber({
+  question_number: _number,
+  ...challenge
+}: ManualCodingChallenge): CodingChallenge {
+  return challenge
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,162 @@
+/**
+ * Programs that run a candidate's solution inside the sandboxed process (see
+ * lib/coding/runner.ts). Each reads { nonce, functionName, cases } from
+ * stdin before the solution is loaded, calls the function once per case and
+ * writes one nonce-prefixed JSON record per line:
+ *
+ *   { "type": "load", "error": "..." }                  the solution did not load
+ *   { "type": "case", "index": 0, "value": ..., "output": "..." }
+ *   { "type": "case", "index": 1, "error": "...", "output": "..." }
+ *
+ * Expected results never enter the process; the runner compares them. What
+ * the solution prints is captured per case rather than written to stdout.
+ */
+
+// solution.js exports the function (the runner appends the export)
+export const JAVASCRIPT_HARNESS = `"use strict"
+const fs = require("fs")
+const path = require("path")
+const util = require("util")
+
+const write = process.stdout.write.bind(process.stdout)
+let captured = ""
+
+for (const method of ["log", "info", "warn", "error", "debug"]) {
+  console[method] = (...args) => {
+    captured += util.format(...args) + "\\n"
+  }
+}
+
+function describe(error) {
+  return error instanceof Error ? error.name + ": " + error.message : String(error)
+}
+
+async function main() {
+  const { nonce, functionName, cases } = JSON.parse(fs.readFileSync(0, "utf8"))
+  const emit = (record) => write(nonce + JSON.stringify(record) + "\\n")
+
+  let fn
+  try {
+    fn = require(path.join(__dirname, "solution.js"))
+  } catch (error) {
+    emit({ type: "load", error: describe(error) })
+    return
+  }
+  if (typeof fn !== "function") {
+    emit({ type: "load", error: functionName + " is not defined as a function" })
+    return
+  }
+
+  for (let index = 0; index < cases.length; index++) {
+    captured = ""
+    try {
+      const value = await fn(...cases[index])
+      const record = { type: "case", index, value: value === undefined ? null : value, output: captured }
+      let line
+      try {
+        line = JSON.stringify(record)
+      } catch (error) {
+        throw new Error("returned a value that is not JSON: " + describe(error))
+      }
+      write(nonce + line + "\\n")
+    } catch (error) {
+      emit({ type: "case", index, error: describe(error), output: captured })
+    }
+  }
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    write(String(error) + "\\n")
+    process.exit(1)
+  }
+)
+`
+
+export const PYTHON_HARNESS = `import contextlib
+import importlib.util
+import io
+import json
+import os
+import sys
+
+try:
+    import resource
+except ImportError:
+    resource = None
+
+BLOCKED_EVENTS = (
+    "os.system", "os.exec", "os.spawn", "os.posix_spawn", "os.fork", "os.kill",
+    "os.remove", "os.unlink", "os.rename", "os.rmdir", "os.mkdir", "os.chmod",
+    "os.chown", "os.truncate", "shutil.", "subprocess.", "socket.", "ctypes.",
+    "winreg.", "pty.",
+)
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+
+
+def guard(event, args):
+    if event == "open":
+        mode, flags = args[1], args[2]
+        if (isinstance(mode, str) and any(c in mode for c in "wax+")) or (flags or 0) & WRITE_FLAGS:
+            raise PermissionError("writing files is not allowed")
+    elif event.startswith(BLOCKED_EVENTS):
+        raise PermissionError(event + " is not allowed")
+
+
+def describe(error):
+    return type(error).__name__ + ": " + str(error)
+
+
+def to_json(value):
+    if isinstance(value, (set, frozenset)):
+        return sorted(value)
+    raise TypeError(type(value).__name__ + " is not JSON serializable")
+
+
+def main():
+    data = json.loads(sys.stdin.read())
+    nonce, function_name, cases = data["nonce"], data["functionName"], data["cases"]
+    out = sys.stdout
+
+    def emit(record):
+        out.write(nonce + json.dumps(record) + "\\n")
+        out.flush()
+
+    if resource is not None and data.get("memoryBytes"):
+        limit = data["memoryBytes"]
+        resource.setrlimit(resource.RLIMIT_AS, (limit, limit))
+    sys.addaudithook(guard)
+
+    buffer = io.StringIO()
+    try:
+        with contextlib.redirect_stdout(buffer), contextlib.redirect_stderr(buffer):
+            spec = importlib.util.spec_from_file_location("solution", os.path.join(os.path.dirname(os.path.abspath(__file__)), "solution.py"))
+            module = importlib.util.module_from_spec(spec)
+            spec.loader.exec_module(module)
+    except BaseException as error:
+        emit({"type": "load", "error": describe(error)})
+        return
+
+    fn = getattr(module, function_name, None)
+    if not callable(fn):
+        emit({"type": "load", "error": function_name + " is not defined as a function"})
+        return
+
+    for index, args in enumerate(cases):
+        buffer = io.StringIO()
+        try:
+            with contextlib.redirect_stdout(buffer), contextlib.redirect_stderr(buffer):
+                value = fn(*args)
+            try:
+                line = json.dumps({"type": "case", "index": index, "value": value, "output": buffer.getvalue()}, default=to_json)
+            except (TypeError, ValueError) as error:
+                raise TypeError("returned a value that is not JSON: " + str(error))
+            out.write(nonce + line + "\\n")
+            out.flush()
+        except BaseException as error:
+            emit({"type": "case", "index": index, "error": describe(error), "output": buffer.getvalue()})
+
+
+main()
+`
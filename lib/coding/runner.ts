@@ -0,0 +1,348 @@
+import { execFile } from "child_process"
+import { randomBytes } from "crypto"
+import { mkdtemp, rm, writeFile } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import type {
+  CodeLanguage,
+  CodeRunResult,
+  CodeTestResult,
+  CodingChallenge,
+  InterviewSetup,
+} from "@/types/interview"
+import { isSameJsonValue } from "./challenges"
+import { JAVASCRIPT_HARNESS, PYTHON_HARNESS } from "./harnesses"
+
+/**
+ * Runs a candidate's solution against a challenge's test cases in a separate,
+ * locally sandboxed process:
+ *
+ * - a fresh scratch directory as the working directory, and an environment
+ *   with nothing but PATH, HOME (the scratch directory) and the locale
+ * - a wall-clock limit (CODE_RUN_TIMEOUT_MS, default 5 s), after which the
+ *   process is killed
+ * - a memory limit (CODE_RUN_MEMORY_MB, default 256): the V8 heap for
+ *   JavaScript/TypeScript, the address space for Python
+ * - Node's permission model (reads only inside the scratch directory, no
+ *   child processes or workers); for Python an audit hook that refuses file
+ *   writes, processes, sockets and ctypes
+ *
+ * Neither blocks the network for JavaScript. CODE_SANDBOX_WRAPPER prefixes
+ * every command, e.g. "firejail --quiet --net=none" or a bwrap invocation,
+ * for isolation beyond this. The audit hook cannot keep Python from reading
+ * the server's files (the app's environment in /proc, the data directory),
+ * so Python only runs when a wrapper is set, and the wrapper has to confine
+ * reads to the scratch directory. CODE_RUN_NODE and CODE_RUN_PYTHON override
+ * the interpreters (default: this Node binary and python3). At most
+ * CODE_RUN_CONCURRENCY runs (default 2) execute at once; the rest queue.
+ */
+
+const DEFAULT_TIMEOUT_MS = 5 * 1000
+const DEFAULT_MEMORY_MB = 256
+const DEFAULT_CONCURRENCY = 2
+const MAX_STDOUT_BYTES = 2 * 1024 * 1024
+// Per test case, as kept in the transcript
+const MAX_CASE_OUTPUT = 2000
+
+interface HarnessRecord {
+  type: "load" | "case"
+  index?: number
+  value?: unknown
+  output?: string
+  error?: string
+}
+
+interface Process {
+  stdout: string
+  timedOut: boolean
+  // Exit status or signal, when the process did not exit cleanly
+  failure?: string
+}
+
+// Whether this server can run code in the language (see above for Python)
+export function canRunLanguage(language: CodeLanguage): boolean {
+  return language !== "python" || getSandboxWrapper().length > 0
+}
+
+/**
+ * Coding settings this server cannot run, as paths and messages like
+ * checkCodingSetup reports them. An empty list means they can all run.
+ */
+export function checkRunnableSetup(
+  setup: Pick<InterviewSetup, "codingLanguage" | "codingChallenges">
+): string[] {
+  const problems: string[] = []
+
+  if (setup.codingLanguage && !canRunLanguage(setup.codingLanguage)) {
+    problems.push(`codingLanguage: ${PYTHON_UNAVAILABLE}`)
+  }
+  setup.codingChallenges?.forEach((challenge, i) => {
+    if (!canRunLanguage(challenge.language)) {
+      problems.push(`codingChallenges[${i}].language: ${PYTHON_UNAVAILABLE}`)
+    }
+  })
+
+  return problems
+}
+
+export async function runCodingChallenge(
+  challenge: CodingChallenge,
+  code: string
+): Promise<CodeRunResult> {
+  const started = Date.now()
+  if (!canRunLanguage(challenge.language)) {
+    return buildResult(challenge, [], PYTHON_UNAVAILABLE, false, started)
+  }
+
+  const release = await acquireSlot()
+  const dir = await mkdtemp(join(tmpdir(), "komyra-code-"))
+
+  try {
+    const solution = await prepareSolution(challenge, code)
+    if ("error" in solution) {
+      return buildResult(challenge, [], solution.error, false, started)
+    }
+
+    const nonce = randomBytes(12).toString("hex")
+    const input = JSON.stringify({
+      nonce,
+      functionName: challenge.function_name,
+      cases: challenge.tests.map((test) => test.args),
+      memoryBytes: getMemoryLimitMb() * 1024 * 1024,
+    })
+
+    const command =
+      challenge.language === "python"
+        ? await preparePython(dir, solution.source)
+        : await prepareNode(dir, solution.source)
+
+    const run = await runSandboxed(dir, command, input)
+    const records = parseRecords(run.stdout, nonce)
+    const loadError = records.find((record) => record.type === "load")?.error
+
+    return buildResult(
+      challenge,
+      records,
+      loadError ?? (run.timedOut ? undefined : run.failure),
+      run.timedOut,
+      started
+    )
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+    release()
+  }
+}
+
+/* ---------- helpers ---------- */
+
+const PYTHON_UNAVAILABLE =
+  "Python needs CODE_SANDBOX_WRAPPER on the server, which is not set"
+
+// TypeScript is transpiled on the server; types are not checked
+async function prepareSolution(
+  challenge: CodingChallenge,
+  code: string
+): Promise<{ source: string } | { error: string }> {
+  if (challenge.language === "python") return { source: code }
+
+  const exported = (source: string) =>
+    `${source}\n;module.exports = typeof ${challenge.function_name} === "function" ? ${challenge.function_name} : undefined\n`
+
+  if (challenge.language === "javascript") return { source: exported(code) }
+
+  const ts = (await import("typescript")).default
+  const output = ts.transpileModule(code, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+    reportDiagnostics: true,
+  })
+  const diagnostic = output.diagnostics?.[0]
+  if (diagnostic) {
+    return {
+      error: `TypeScript: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")}`,
+    }
+  }
+  return { source: exported(output.outputText) }
+}
+
+async function prepareNode(dir: string, source: string): Promise<string[]> {
+  await writeFile(join(dir, "solution.js"), source)
+  await writeFile(join(dir, "harness.js"), JAVASCRIPT_HARNESS)
+
+  const node = process.env.CODE_RUN_NODE?.trim() || process.execPath
+  const major = Number(process.versions.node.split(".")[0])
+  return [
+    node,
+    major >= 22 ? "--permission" : "--experimental-permission",
+    `--allow-fs-read=${dir}`,
+    `--max-old-space-size=${getMemoryLimitMb()}`,
+    "--no-warnings",
+    join(dir, "harness.js"),
+  ]
+}
+
+async function preparePython(dir: string, source: string): Promise<string[]> {
+  await writeFile(join(dir, "solution.py"), source)
+  await writeFile(join(dir, "harness.py"), PYTHON_HARNESS)
+
+  const python = process.env.CODE_RUN_PYTHON?.trim() || "python3"
+  // Isolated mode, no site packages, no bytecode files
+  return [python, "-I", "-S", "-B", join(dir, "harness.py")]
+}
+
+function runSandboxed(
+  dir: string,
+  command: string[],
+  input: string
+): Promise<Process> {
+  const [file, ...args] = [...getSandboxWrapper(), ...command]
+  const timeout = Number(process.env.CODE_RUN_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+
+  return new Promise((resolve) => {
+    const child = execFile(
+      file,
+      args,
+      {
+        cwd: dir,
+        env: {
+          PATH: process.env.PATH ?? "",
+          HOME: dir,
+          LANG: "C.UTF-8",
+          NODE_ENV: "production",
+        },
+        timeout,
+        killSignal: "SIGKILL",
+        maxBuffer: MAX_STDOUT_BYTES,
+      },
+      (error, stdout) => {
+        const output = String(stdout)
+        if (!error) {
+          resolve({ stdout: output, timedOut: false })
+          return
+        }
+        const { killed, signal, code } = error as Error & {
+          killed?: boolean
+          signal?: string | null
+          code?: number | string | null
+        }
+        resolve({
+          stdout: output,
+          timedOut: Boolean(killed && signal === "SIGKILL"),
+          failure:
+            code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER"
+              ? "The program wrote too much output"
+              : code === "ENOENT"
+                ? `${file} is not installed on the server`
+                : signal
+                  ? `The program was stopped (${signal}), possibly for using too much memory`
+                  : `The program exited with status ${code}`,
+        })
+      }
+    )
+
+    child.stdin?.on("error", () => {})
+    child.stdin?.end(input)
+  })
+}
+
+function parseRecords(stdout: string, nonce: string): HarnessRecord[] {
+  return stdout.split("\n").flatMap((line) => {
+    if (!line.startsWith(nonce)) return []
+    try {
+      return [JSON.parse(line.slice(nonce.length)) as HarnessRecord]
+    } catch {
+      return []
+    }
+  })
+}
+
+function buildResult(
+  challenge: CodingChallenge,
+  records: HarnessRecord[],
+  error: string | undefined,
+  timedOut: boolean,
+  started: number
+): CodeRunResult {
+  const cases = new Map(
+    records
+      .filter((record) => record.type === "case")
+      .map((record) => [record.index, record])
+  )
+
+  const tests = challenge.tests.map((test, index): CodeTestResult => {
+    const record = cases.get(index)
+    const base = {
+      hidden: Boolean(test.hidden),
+      args: test.args,
+      expected: test.expected,
+    }
+
+    if (!record) {
+      return {
+        ...base,
+        passed: false,
+        error: timedOut ? "Timed out" : error ?? "Not run",
+      }
+    }
+
+    const output = record.output?.slice(0, MAX_CASE_OUTPUT) || undefined
+    if (record.error !== undefined) {
+      return { ...base, passed: false, error: record.error, output }
+    }
+
+    return {
+      ...base,
+      passed: isSameJsonValue(record.value, test.expected),
+      actual: record.value,
+      output,
+    }
+  })
+
+  const passed = tests.filter((test) => test.passed).length
+
+  return {
+    status: timedOut
+      ? "timeout"
+      : error && cases.size === 0
+        ? "error"
+        : passed === tests.length
+          ? "passed"
+          : "failed",
+    passed,
+    total: tests.length,
+    tests,
+    error: timedOut ? "The program ran out of time" : error,
+    duration_ms: Date.now() - started,
+  }
+}
+
+// Unset and blank both mean no wrapper
+function getSandboxWrapper(): string[] {
+  const wrapper = process.env.CODE_SANDBOX_WRAPPER?.trim()
+  return wrapper ? wrapper.split(/\s+/) : []
+}
+
+function getMemoryLimitMb(): number {
+  return Number(process.env.CODE_RUN_MEMORY_MB) || DEFAULT_MEMORY_MB
+}
+
+// A run holds a slot from start to cleanup
+let running = 0
+const waiting: (() => void)[] = []
+
+async function acquireSlot(): Promise<() => void> {
+  const limit = Number(process.env.CODE_RUN_CONCURRENCY) || DEFAULT_CONCURRENCY
+  if (running >= limit) {
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  } else {
+    running++
+  }
+
+  return () => {
+    const next = waiting.shift()
+    if (next) next()
+    else running--
+  }
+}
@@ -0,0 +1,160 @@
+import type {
+  CandidateComparison,
+  CandidateSummary,
+  ComparedAnswer,
+  ComparedCandidate,
+  InterviewSession,
+  RoleSummary,
+} from "@/types/interview"
+import { listSessions, getSession } from "@/lib/sessions"
+import { listTemplates } from "@/lib/templates"
+import { getAnswerKey } from "@/lib/interview-state"
+import { presentSession } from "@/lib/redaction/sessions"
+
+/**
+ * Read models for the comparison dashboard. Only evaluated interviews are
+ * included; they are grouped by template when the setup came from one and by
+ * role title otherwise, so candidates for the same role end up side by side.
+ * Blind sessions are shown redacted, as on the result page.
+ */
+
+export const MAX_COMPARED_CANDIDATES = 3
+
+export async function listRoleSummaries(): Promise<RoleSummary[]> {
+  const [sessions, templates] = await Promise.all([
+    listSessions().then((sessions) => Promise.all(sessions.map(presentSession))),
+    listTemplates(),
+  ])
+  const templateNames = new Map(templates.map((t) => [t.id, t.name]))
+  const roles = new Map<string, RoleSummary>()
+
+  for (const session of sessions) {
+    if (!isEvaluated(session)) continue
+
+    const key = getRoleKey(session)
+    const role = roles.get(key) ?? {
+      key,
+      roleTitle: session.setup.roleTitle,
+      templateId: session.setup.templateId,
+      templateName: session.setup.templateId
+        ? templateNames.get(session.setup.templateId)
+        : undefined,
+      candidates: [],
+    }
+    role.candidates.push(toCandidateSummary(session))
+    roles.set(key, role)
+  }
+
+  return Array.from(roles.values()).sort((a, b) =>
+    a.roleTitle.localeCompare(b.roleTitle)
+  )
+}
+
+/**
+ * Side-by-side view of up to MAX_COMPARED_CANDIDATES evaluated interviews.
+ * Returns null when any of them is missing or not evaluated yet.
+ */
+export async function compareCandidates(
+  sessionIds: string[]
+): Promise<CandidateComparison | null> {
+  const sessions = await Promise.all(
+    sessionIds.map(async (id) => {
+      const session = await getSession(id)
+      return session && presentSession(session)
+    })
+  )
+  if (sessions.some((session) => !session || !isEvaluated(session))) {
+    return null
+  }
+
+  const evaluated = sessions as EvaluatedSession[]
+  const threads = evaluated.map(groupAnswersByMainQuestion)
+  const questionCount = Math.max(0, ...threads.map((thread) => thread.length))
+
+  return {
+    candidates: evaluated.map(toComparedCandidate),
+    questions: Array.from({ length: questionCount }, (_, i) => ({
+      label: `Question ${i + 1}`,
+      answers: threads.map((thread) => thread[i] ?? null),
+    })),
+  }
+}
+
+/* ---------- helpers ---------- */
+
+type EvaluatedSession = InterviewSession & {
+  evaluation: NonNullable<InterviewSession["evaluation"]>
+}
+
+function isEvaluated(session: InterviewSession): session is EvaluatedSession {
+  return session.state.interview_phase === "completed" && !!session.evaluation
+}
+
+function getRoleKey(session: InterviewSession): string {
+  return session.setup.templateId
+    ? `template:${session.setup.templateId}`
+    : `role:${session.setup.roleTitle.trim().toLowerCase()}`
+}
+
+function toCandidateSummary(session: EvaluatedSession): CandidateSummary {
+  const { evaluation } = session
+
+  return {
+    session_id: session.id,
+    candidateName: session.setup.candidateName,
+    createdAt: session.createdAt,
+    alignment_percentage: evaluation.alignment_percentage,
+    technical_score: evaluation.technical_score,
+    problem_solving_score: evaluation.problem_solving_score,
+    communication_score: evaluation.communication_score,
+    final_verdict: evaluation.final_verdict,
+    answer_count: session.state.conversation_history.length,
+    evaluation_source: evaluation.generation?.source,
+    flagged_count: evaluation.flagged_answers?.length,
+  }
+}
+
+function toComparedCandidate(session: EvaluatedSession): ComparedCandidate {
+  return {
+    ...toCandidateSummary(session),
+    strengths: session.evaluation.strengths,
+    weaknesses: session.evaluation.weaknesses,
+    summary: session.evaluation.summary,
+  }
+}
+
+// Indexed by main question position. Transcripts recorded before main
+// answers carried mainQuestionIndex fall back to counting main answers.
+function groupAnswersByMainQuestion(
+  session: EvaluatedSession
+): (ComparedAnswer | undefined)[] {
+  const history = session.state.conversation_history
+  const assessments = new Map(
+    (session.evaluation.answer_breakdown ?? []).map((item) => [
+      item.question_id,
+      item,
+    ])
+  )
+
+  const threads: (ComparedAnswer | undefined)[] = []
+  let mainCount = 0
+
+  history.forEach((entry, i) => {
+    if (entry.questionType === "followup") {
+      const thread = threads[entry.mainQuestionIndex ?? mainCount - 1]
+      thread?.followups.push({ question: entry.question, answer: entry.answer })
+      return
+    }
+
+    const index = entry.mainQuestionIndex ?? mainCount
+    mainCount = index + 1
+    threads[index] = {
+      question: entry.question,
+      answer: entry.answer,
+      followups: [],
+      assessment: assessments.get(getAnswerKey(entry, i)),
+    }
+  })
+
+  return threads
+}
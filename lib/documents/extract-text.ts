@@ -0,0 +1,169 @@
+import mammoth from "mammoth"
+import pdfParse from "pdf-parse/lib/pdf-parse.js"
+
+/**
+ * Local text extraction for uploaded resumes and job descriptions. Nothing
+ * leaves the server: PDFs go through pdf-parse, DOCX through mammoth, and
+ * Markdown / plain text are decoded as UTF-8.
+ *
+ * Output is plain text with the document's sections kept apart by blank
+ * lines, headings on their own line and list items as "- " bullets, which is
+ * what the prompts in lib/ai expect.
+ */
+
+export type DocumentKind = "pdf" | "docx" | "markdown" | "text"
+
+// Headings recruiters' resumes commonly use; matched on a line by themselves
+const SECTION_HEADINGS = [
+  "summary",
+  "professional summary",
+  "profile",
+  "objective",
+  "experience",
+  "work experience",
+  "professional experience",
+  "employment history",
+  "education",
+  "skills",
+  "technical skills",
+  "projects",
+  "certifications",
+  "publications",
+  "awards",
+  "languages",
+  "responsibilities",
+  "requirements",
+  "qualifications",
+  "nice to have",
+  "about the role",
+  "about us",
+  "benefits",
+]
+
+export function detectDocumentKind(
+  fileName: string,
+  mimeType: string,
+  bytes: Uint8Array
+): DocumentKind | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? ""
+
+  if (extension === "pdf" || mimeType === "application/pdf" || startsWith(bytes, "%PDF")) {
+    return "pdf"
+  }
+  if (
+    extension === "docx" ||
+    mimeType ===
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+  ) {
+    return "docx"
+  }
+  if (["md", "markdown"].includes(extension) || mimeType === "text/markdown") {
+    return "markdown"
+  }
+  if (extension === "txt" || mimeType.startsWith("text/")) {
+    return "text"
+  }
+  return null
+}
+
+export async function extractDocumentText(
+  buffer: Buffer,
+  kind: DocumentKind
+): Promise<string> {
+  switch (kind) {
+    case "pdf": {
+      const result = await pdfParse(buffer)
+      return normalizeExtractedText(repairPdfText(result.text))
+    }
+    case "docx": {
+      const result = await mammoth.convertToHtml({ buffer })
+      return normalizeExtractedText(htmlToText(result.value))
+    }
+    case "markdown":
+    case "text":
+      return normalizeExtractedText(buffer.toString("utf8"))
+  }
+}
+
+/**
+ * Shared clean-up for every format: unify line endings and bullets, trim
+ * trailing spaces, and give section headings a blank line on either side.
+ */
+export function normalizeExtractedText(text: string): string {
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\u00a0/g, " ")
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/[ \t]+/g, " ")
+        .replace(/^\s*[•●▪■◦‣∙·]\s*/, "- ")
+        .trimEnd()
+    )
+
+  const out: string[] = []
+  for (const line of lines) {
+    if (isSectionHeading(line)) {
+      if (out.length > 0 && out[out.length - 1] !== "") out.push("")
+      out.push(line.trim())
+      out.push("")
+    } else {
+      out.push(line)
+    }
+  }
+
+  return out
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/* ---------- helpers ---------- */
+
+// PDF text comes out one visual line at a time. Re-join words hyphenated
+// across lines and sentences wrapped mid-way, but keep bullets and headings.
+function repairPdfText(text: string): string {
+  return text
+    .replace(/(\w)-\n(\w)/g, "$1$2")
+    .replace(/([^\n.:;!?])\n(?=[a-z(])/g, "$1 ")
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<h[1-6][^>]*>/gi, "\n\n")
+      .replace(/<\/h[1-6]>/gi, "\n\n")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|li|ul|ol|table|tr)>/gi, "\n")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<(td|th)[^>]*>/gi, " ")
+      .replace(/<[^>]+>/g, "")
+  )
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+}
+
+function isSectionHeading(line: string): boolean {
+  const normalized = line
+    .trim()
+    .replace(/^#+\s*/, "")
+    .replace(/:$/, "")
+    .toLowerCase()
+  return SECTION_HEADINGS.includes(normalized)
+}
+
+function startsWith(bytes: Uint8Array, signature: string): boolean {
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[i] !== signature.charCodeAt(i)) return false
+  }
+  return true
+}
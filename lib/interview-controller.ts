@@ -0,0 +1,399 @@
+import type {
+  AnswerQuality,
+  AnswerTiming,
+  BlueprintTarget,
+  CodeSubmission,
+  CodingChallenge,
+  EvaluationResult,
+  GenerationInfo,
+  InterviewSession,
+  InterviewState,
+  NextQuestionResponse,
+} from "@/types/interview"
+import {
+  InterviewStateError,
+  canAskFollowUp,
+  hasMoreMainQuestions,
+  isTotalTimeExhausted,
+  transitionInterview,
+  validateClientState,
+} from "@/lib/interview-state"
+import { getSession, isDynamicSetup, saveSession } from "@/lib/sessions"
+import { resolveAnswerMedia } from "@/lib/answer-media"
+import {
+  getManualChallenge,
+  toCandidateChallenge,
+} from "@/lib/coding/challenges"
+import { runCodingChallenge } from "@/lib/coding/runner"
+import { getInterviewLanguage, getReportLanguage } from "@/lib/languages"
+import { analyzeProfileAI } from "@/lib/ai/analyzeProfile.ai"
+import { nextQuestionAI } from "@/lib/ai/nextQuestion.ai"
+import { finalEvaluationAI } from "@/lib/ai/finalEvaluation.ai"
+import {
+  loadSessionRedactor,
+  saveSessionRedactor,
+} from "@/lib/redaction/sessions"
+
+/**
+ * Server-side driver for an interview session. The browser only reports what
+ * the candidate said; which question comes next, and every state change that
+ * follows, is decided here against the stored session.
+ */
+
+export interface AdvanceInterviewInput {
+  clientState: InterviewState
+  lastAnswer?: string
+  // Speech recognition output lastAnswer was edited from
+  rawAnswer?: string
+  skip?: boolean
+  answerTiming?: AnswerTiming
+  // The question's time limit ran out; an empty answer is then recorded as is
+  timedOut?: boolean
+  // Recording uploaded for the open question (lib/answer-media.ts)
+  mediaId?: string
+  // Final code for a coding question; run against every test case
+  code?: string
+  // Receives the next question's text as it is generated
+  onQuestionDelta?: (text: string) => void
+}
+
+export interface AdvanceInterviewResult {
+  session: InterviewSession
+  response: NextQuestionResponse
+}
+
+// Submissions for one session are handled one at a time, each checked
+// against the state the previous one saved; otherwise two submissions of the
+// same state would both be accepted and one of them lost
+export async function advanceInterview(
+  sessionId: string,
+  input: AdvanceInterviewInput
+): Promise<AdvanceInterviewResult | null> {
+  return serialize(sessionId, async () => {
+    const session = await getSession(sessionId)
+    if (!session) return null
+
+    const violations = validateClientState(session.state, input.clientState)
+    if (violations.length > 0) {
+      throw new InterviewStateError(
+        "Interview state does not match the server",
+        violations
+      )
+    }
+
+    if (
+      session.state.interview_phase === "evaluating" ||
+      session.state.interview_phase === "completed"
+    ) {
+      return { session, response: buildResponse(session) }
+    }
+
+    const answer = input.skip ? undefined : input.lastAnswer?.trim()
+    const code = input.skip ? undefined : await runSubmittedCode(session, input.code)
+    let state = session.state
+
+    if (
+      state.interview_phase === "in_progress" &&
+      !answer &&
+      !code &&
+      !input.skip &&
+      !input.timedOut
+    ) {
+      throw new InterviewStateError(
+        "The current question must be answered or explicitly skipped"
+      )
+    }
+
+    if (answer || code || (input.timedOut && !input.skip)) {
+      const media = input.mediaId
+        ? await resolveAnswerMedia(session.id, state.current_question_id, input.mediaId)
+        : undefined
+      if (media === null) {
+        throw new InterviewStateError(
+          "The recording does not belong to the current question"
+        )
+      }
+
+      state = transitionInterview(state, {
+        type: "answer",
+        question: session.current_question ?? "",
+        answer: answer ?? "",
+        raw_answer: input.rawAnswer?.trim() || undefined,
+        question_generation: session.current_question_generation,
+        timing: input.answerTiming,
+        timed_out: input.timedOut,
+        media,
+        code,
+      })
+    }
+
+    // Once the total time limit has passed no further questions are asked
+    const next = isTotalTimeExhausted(state)
+      ? { question: null, question_type: "main" as const, blueprint: session.blueprint }
+      : isDynamicSetup(session.setup)
+      ? await proposeDynamicQuestion(
+          { ...session, state },
+          answer,
+          input.onQuestionDelta
+        )
+      : proposeStaticQuestion({ ...session, state })
+
+    if (!isDynamicSetup(session.setup) && next.question) {
+      input.onQuestionDelta?.(next.question)
+    }
+
+    // Grading the answer may have moved the difficulty the question was pitched at
+    if (next.state) state = next.state
+
+    if (next.question) {
+      state = transitionInterview(state, {
+        type: "ask",
+        question_type: next.question_type,
+        question_id: `${next.question_type}-${
+          state.conversation_history.length + 1
+        }-${Date.now()}`,
+        targets: next.targets,
+      })
+    } else {
+      state = transitionInterview(state, { type: "finish" })
+    }
+
+    const saved = await saveSession({
+      ...session,
+      blueprint: next.blueprint,
+      state,
+      current_question: next.question ?? undefined,
+      current_question_generation: next.question ? next.generation : undefined,
+      current_challenge: next.question ? next.challenge : undefined,
+    })
+
+    return { session: saved, response: buildResponse(saved, next.reasoning) }
+  })
+}
+
+/**
+ * Runs the final evaluation once the interview has finished and stores it on
+ * the session. A session that is already completed returns its stored result,
+ * including to callers that waited while it was evaluated.
+ */
+export async function evaluateSession(
+  sessionId: string
+): Promise<EvaluationResult | null> {
+  return serialize(sessionId, async () => {
+    const session = await getSession(sessionId)
+    if (!session) return null
+
+    if (session.state.interview_phase === "completed" && session.evaluation) {
+      return session.evaluation
+    }
+
+    if (session.state.interview_phase !== "evaluating") {
+      throw new InterviewStateError(
+        `Cannot evaluate an interview that is ${session.state.interview_phase}`
+      )
+    }
+
+    const redactor = await loadSessionRedactor(session)
+    const evaluation = await finalEvaluationAI({
+      jobDescription: session.setup.jobDescription,
+      resume: session.setup.resume ?? "",
+      roleTitle: session.setup.roleTitle,
+      conversation_history: session.state.conversation_history,
+      blueprint: session.blueprint,
+      scoring: session.setup.scoring,
+      question_time_limit_seconds: session.state.question_time_limit_seconds,
+      language: getInterviewLanguage(session.setup),
+      report_language: getReportLanguage(session.setup),
+      prompt_versions: session.setup.promptVersions,
+      evaluation_runs: session.setup.evaluationRuns,
+    }, { redactor })
+    await saveSessionRedactor(session.id, redactor)
+
+    await saveSession({
+      ...session,
+      evaluation,
+      state: transitionInterview(session.state, { type: "complete" }),
+    })
+
+    return evaluation
+  })
+}
+
+/* ---------- helpers ---------- */
+
+// Pending work per session id
+const queues = new Map<string, Promise<unknown>>()
+
+function serialize<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+  const result = (queues.get(sessionId) ?? Promise.resolve()).then(task)
+  const tail = result.catch(() => undefined)
+  queues.set(sessionId, tail)
+  tail.then(() => {
+    if (queues.get(sessionId) === tail) queues.delete(sessionId)
+  })
+  return result
+}
+
+interface NextStep {
+  question: string | null
+  question_type: "main" | "followup"
+  reasoning?: string
+  generation?: GenerationInfo
+  blueprint?: InterviewSession["blueprint"]
+  targets?: BlueprintTarget[]
+  challenge?: CodingChallenge
+  // State with the last answer's grade applied, when it was graded
+  state?: InterviewState
+}
+
+// The session's redaction mapping grows with every prompt, and is kept
+// whichever way the proposal ends
+async function proposeDynamicQuestion(
+  session: InterviewSession,
+  lastAnswer: string | undefined,
+  onQuestionDelta?: (text: string) => void
+): Promise<NextStep> {
+  const redactor = await loadSessionRedactor(session)
+  try {
+    return await proposeWithRedactor(session, lastAnswer, {
+      onQuestionDelta,
+      redactor,
+    })
+  } finally {
+    await saveSessionRedactor(session.id, redactor)
+  }
+}
+
+async function proposeWithRedactor(
+  session: InterviewSession,
+  lastAnswer: string | undefined,
+  options: Parameters<typeof nextQuestionAI>[1]
+): Promise<NextStep> {
+  const { setup } = session
+  const resume = setup.resume ?? ""
+  let { state } = session
+
+  // The blueprint is built once, before the first question
+  const blueprint =
+    session.blueprint ??
+    (await analyzeProfileAI(
+      {
+        jobDescription: setup.jobDescription,
+        resume,
+        roleTitle: setup.roleTitle,
+        promptVersions: setup.promptVersions,
+      },
+      options
+    ))
+
+  const base = {
+    jobDescription: setup.jobDescription,
+    resume,
+    roleTitle: setup.roleTitle,
+    last_answer: lastAnswer,
+    blueprint,
+    seed_questions: setup.questions,
+    language: getInterviewLanguage(setup),
+    coding_language: setup.codingLanguage,
+    prompt_versions: setup.promptVersions,
+  }
+
+  if (lastAnswer && canAskFollowUp(state)) {
+    const followUp = await nextQuestionAI(
+      { ...base, interview_state: state, question_type: "followup" },
+      options
+    )
+    state = applyGrade(state, followUp.answer_quality)
+    if (followUp.question) {
+      return { ...followUp, question_type: "followup", blueprint, state }
+    }
+  }
+
+  if (!hasMoreMainQuestions(state)) {
+    return { question: null, question_type: "main", blueprint, state }
+  }
+
+  const main = await nextQuestionAI(
+    { ...base, interview_state: state, question_type: "main" },
+    options
+  )
+  return {
+    ...main,
+    question_type: "main",
+    blueprint,
+    state: applyGrade(state, main.answer_quality),
+  }
+}
+
+/**
+ * Runs the code submitted for the open coding question. The run is the
+ * server's own, whatever the candidate saw when testing in the page.
+ */
+async function runSubmittedCode(
+  session: InterviewSession,
+  code: string | undefined
+): Promise<CodeSubmission | undefined> {
+  if (!code?.trim()) return undefined
+
+  const challenge = session.current_challenge
+  if (!challenge) {
+    throw new InterviewStateError("The current question is not a coding question")
+  }
+
+  return {
+    language: challenge.language,
+    code,
+    result: await runCodingChallenge(challenge, code),
+  }
+}
+
+function applyGrade(
+  state: InterviewState,
+  quality: AnswerQuality | undefined
+): InterviewState {
+  return quality ? transitionInterview(state, { type: "grade", quality }) : state
+}
+
+function proposeStaticQuestion(session: InterviewSession): NextStep {
+  const { setup, state } = session
+  const questions = setup.questions ?? []
+
+  if (!hasMoreMainQuestions(state)) {
+    return { question: null, question_type: "main", blueprint: session.blueprint }
+  }
+
+  const index =
+    state.interview_phase === "initializing"
+      ? 0
+      : state.current_question_index + 1
+
+  return {
+    question: questions[index] ?? null,
+    question_type: "main",
+    blueprint: session.blueprint,
+    challenge: getManualChallenge(setup, index),
+  }
+}
+
+function buildResponse(
+  session: InterviewSession,
+  reasoning?: string
+): NextQuestionResponse {
+  const { state } = session
+  const complete =
+    state.interview_phase === "evaluating" ||
+    state.interview_phase === "completed"
+
+  return {
+    question: complete ? null : session.current_question ?? null,
+    question_id: complete ? "" : state.current_question_id ?? "",
+    question_type: state.question_type,
+    updated_state: state,
+    interview_complete: complete,
+    reasoning,
+    challenge:
+      !complete && session.current_challenge
+        ? toCandidateChallenge(session.current_challenge)
+        : undefined,
+  }
+}
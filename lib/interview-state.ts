@@ -1,8 +1,93 @@
-import type { InterviewState, InterviewAnswer } from "@/types/interview"
+import type {
+  InterviewState,
+  InterviewAnswer,
+  InterviewPhase,
+  GenerationInfo,
+  AnswerTiming,
+  AnswerMediaRef,
+  AnswerQuality,
+  BlueprintTarget,
+  CodeSubmission,
+  FlaggedAnswer,
+  QuestionDifficulty,
+} from "@/types/interview"
+import { detectInjection, getAnswerInjection } from "@/lib/prompt-injection"
+
+/**
+ * Interview state machine.
+ *
+ *   initializing ──ask──▶ in_progress ──finish──▶ evaluating ──complete──▶ completed
+ *                          │    ▲
+ *                          └────┘ ask / answer
+ *
+ * The server owns the state: every change goes through transitionInterview,
+ * and a state posted by the browser is only compared against the stored one
+ * (validateClientState), never trusted.
+ *
+ * Time limits are optional. The question limit is enforced by the browser's
+ * countdown and recorded on the answer (timedOut); the total limit is
+ * enforced by the controller, which stops asking once it has passed.
+ *
+ * Dynamic interviews adapt their difficulty: each graded answer moves the
+ * level one step down (weak) or up (strong) for the questions that follow,
+ * and every answer records the level its question was asked at.
+ */
+
+export type InterviewEvent =
+  | {
+      type: "ask"
+      question_type: "main" | "followup"
+      question_id: string
+      targets?: BlueprintTarget[]
+    }
+  | {
+      type: "answer"
+      question: string
+      answer: string
+      raw_answer?: string
+      question_generation?: GenerationInfo
+      timing?: AnswerTiming
+      timed_out?: boolean
+      media?: AnswerMediaRef
+      code?: CodeSubmission
+    }
+  | { type: "grade"; quality: AnswerQuality }
+  | { type: "finish" }
+  | { type: "complete" }
+
+// Slack for the time the question takes to stream in and be read out
+const QUESTION_TIME_GRACE_SECONDS = 10
+
+export const DIFFICULTY_LEVELS: QuestionDifficulty[] = ["easy", "medium", "hard"]
+
+export const DEFAULT_DIFFICULTY: QuestionDifficulty = "medium"
+
+const PHASE_TRANSITIONS: Record<InterviewPhase, InterviewPhase[]> = {
+  initializing: ["in_progress"],
+  in_progress: ["in_progress", "evaluating"],
+  evaluating: ["completed"],
+  completed: [],
+}
+
+export class InterviewStateError extends Error {
+  readonly violations: string[]
+
+  constructor(message: string, violations: string[] = [message]) {
+    super(message)
+    this.name = "InterviewStateError"
+    this.violations = violations
+  }
+}
+
+export type InterviewStateOptions = Pick<
+  InterviewState,
+  "question_time_limit_seconds" | "total_time_limit_seconds" | "difficulty"
+>
 
 export function createInitialInterviewState(
   maxQuestions = 7,
-  maxFollowups = 2
+  maxFollowups = 2,
+  options: InterviewStateOptions = {}
 ): InterviewState {
   return {
     current_question_index: 0,
@@ -13,45 +98,106 @@ export function createInitialInterviewState(
     interview_phase: "initializing",
     current_question_id: undefined,
     conversation_history: [],
+    ...options,
   }
 }
 
-export function recordAnswer(
+export function transitionInterview(
   state: InterviewState,
-  question: string,
-  answer: string,
-  questionId?: string
+  event: InterviewEvent
 ): InterviewState {
-  const entry: InterviewAnswer = {
-    question,
-    answer,
-    timestamp: new Date().toISOString(),
-    questionId: questionId ?? state.current_question_id,
-    questionType: state.question_type,
-    mainQuestionIndex:
-      state.question_type === "followup"
-        ? state.current_question_index
-        : undefined,
+  switch (event.type) {
+    case "ask":
+      return event.question_type === "main"
+        ? askMainQuestion(state, event.question_id, event.targets)
+        : askFollowUp(state, event.question_id, event.targets)
+    case "answer":
+      return recordAnswer(state, event)
+    case "grade":
+      return gradeLastAnswer(state, event.quality)
+    case "finish":
+      return { ...state, interview_phase: nextPhase(state, "evaluating") }
+    case "complete":
+      return { ...state, interview_phase: nextPhase(state, "completed") }
   }
+}
 
-  return {
-    ...state,
-    conversation_history: [...state.conversation_history, entry],
-  }
+export function hasMoreMainQuestions(state: InterviewState): boolean {
+  if (state.interview_phase === "initializing") return state.max_questions > 0
+  if (state.interview_phase !== "in_progress") return false
+  return state.current_question_index + 1 < state.max_questions
 }
 
-export function syncStateFromServer(
-  local: InterviewState,
-  server: InterviewState
-): InterviewState {
-  return {
-    ...server,
-    conversation_history: local.conversation_history,
+export function canAskFollowUp(state: InterviewState): boolean {
+  return (
+    state.interview_phase === "in_progress" &&
+    state.current_question_id !== undefined &&
+    state.followup_count < state.max_followups
+  )
+}
+
+/**
+ * Lists every way a client-supplied state differs from the server's copy.
+ * An empty list means the client is in sync. Admin-only fields, which the
+ * candidate view never receives (targets, difficulty, grades), are not
+ * compared.
+ */
+export function validateClientState(
+  server: InterviewState,
+  client: InterviewState | undefined
+): string[] {
+  if (!client || typeof client !== "object") {
+    return ["interview_state is missing"]
+  }
+
+  const violations: string[] = []
+
+  const fields = [
+    "current_question_index",
+    "question_type",
+    "followup_count",
+    "max_questions",
+    "max_followups",
+    "interview_phase",
+    "current_question_id",
+    "question_time_limit_seconds",
+    "total_time_limit_seconds",
+    "started_at",
+    "current_question_asked_at",
+  ] as const
+
+  for (const field of fields) {
+    if (client[field] !== server[field]) {
+      violations.push(
+        `${field} does not match (expected ${JSON.stringify(
+          server[field]
+        )}, got ${JSON.stringify(client[field])})`
+      )
+    }
+  }
+
+  const clientHistory = Array.isArray(client.conversation_history)
+    ? client.conversation_history
+    : []
+
+  if (clientHistory.length !== server.conversation_history.length) {
+    violations.push(
+      `conversation_history has ${clientHistory.length} entries, expected ${server.conversation_history.length}`
+    )
+  } else {
+    server.conversation_history.forEach((entry, i) => {
+      if (!isSameAnswer(entry, clientHistory[i])) {
+        violations.push(`conversation_history[${i}] was modified`)
+      }
+    })
   }
+
+  return violations
 }
 
 export function canContinueInterview(state: InterviewState): boolean {
   if (state.interview_phase === "completed") return false
+  if (state.interview_phase === "evaluating") return false
   return state.current_question_index < state.max_questions
 }
 
@@ -70,3 +216,296 @@ export function getQuestionContext(state: InterviewState) {
     isFollowUp: state.question_type === "followup",
   }
 }
+
+/**
+ * Seconds left on the current question and on the whole interview, by the
+ * given clock; null where there is no limit. Never negative.
+ */
+export function getRemainingTime(
+  state: InterviewState,
+  now = Date.now()
+): { question: number | null; total: number | null } {
+  const remaining = (from: string | undefined, limit: number | undefined) => {
+    if (!limit) return null
+    const start = from ? Date.parse(from) : now
+    return Math.max(0, Math.round(limit - (now - start) / 1000))
+  }
+
+  return {
+    question: remaining(state.current_question_asked_at, state.question_time_limit_seconds),
+    total: remaining(state.started_at, state.total_time_limit_seconds),
+  }
+}
+
+export function isTotalTimeExhausted(state: InterviewState, now = Date.now()): boolean {
+  return getRemainingTime(state, now).total === 0
+}
+
+/**
+ * How long the candidate took on an answer, in whole seconds: before they
+ * started speaking, while speaking, and from question to end. Undefined
+ * where the timestamps were not recorded.
+ */
+export function getAnswerDurations(answer: InterviewAnswer): {
+  thought?: number
+  spoke?: number
+  total?: number
+} {
+  const seconds = (from?: string, to?: string) =>
+    from && to
+      ? Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 1000))
+      : undefined
+
+  return {
+    thought: seconds(answer.questionShownAt, answer.answerStartedAt),
+    spoke: seconds(answer.answerStartedAt, answer.answerEndedAt),
+    total: seconds(answer.questionShownAt, answer.answerEndedAt),
+  }
+}
+
+/**
+ * The level after an answer of the given quality: one step easier after a
+ * weak answer, one step harder after a strong one, within DIFFICULTY_LEVELS.
+ */
+export function adjustDifficulty(
+  difficulty: QuestionDifficulty,
+  quality: AnswerQuality
+): QuestionDifficulty {
+  const step = quality === "weak" ? -1 : quality === "strong" ? 1 : 0
+  const index = DIFFICULTY_LEVELS.indexOf(difficulty) + step
+  return DIFFICULTY_LEVELS[
+    Math.min(Math.max(index, 0), DIFFICULTY_LEVELS.length - 1)
+  ]
+}
+
+/**
+ * Highest level any question of the transcript was asked at, or undefined
+ * when the interview did not adapt its difficulty.
+ */
+export function getPeakDifficulty(
+  history: InterviewAnswer[]
+): QuestionDifficulty | undefined {
+  return history.reduce<QuestionDifficulty | undefined>(
+    (peak, answer) =>
+      answer.difficulty &&
+      (!peak ||
+        DIFFICULTY_LEVELS.indexOf(answer.difficulty) >
+          DIFFICULTY_LEVELS.indexOf(peak))
+        ? answer.difficulty
+        : peak,
+    undefined
+  )
+}
+
+/**
+ * Stable key for an answer. Answers recorded through the state machine always
+ * carry a questionId; older transcripts fall back to their position.
+ */
+export function getAnswerKey(answer: InterviewAnswer, index: number): string {
+  return answer.questionId ?? `q${index + 1}`
+}
+
+// Answers that looked like attempts to instruct the model, for reviewers
+export function getFlaggedAnswers(history: InterviewAnswer[]): FlaggedAnswer[] {
+  return history.flatMap((answer, i) => {
+    const flag = getAnswerInjection(answer)
+    return flag
+      ? [{ question_id: getAnswerKey(answer, i), question: answer.question, ...flag }]
+      : []
+  })
+}
+
+/* ---------- transitions ---------- */
+
+function askMainQuestion(
+  state: InterviewState,
+  questionId: string,
+  targets?: BlueprintTarget[]
+): InterviewState {
+  if (!hasMoreMainQuestions(state)) {
+    throw new InterviewStateError(
+      `All ${state.max_questions} main questions have been asked`
+    )
+  }
+
+  const index =
+    state.interview_phase === "initializing"
+      ? 0
+      : state.current_question_index + 1
+  const now = new Date().toISOString()
+
+  return {
+    ...state,
+    interview_phase: nextPhase(state, "in_progress"),
+    current_question_index: index,
+    question_type: "main",
+    followup_count: 0,
+    current_question_id: questionId,
+    started_at: state.started_at ?? now,
+    current_question_asked_at: now,
+    current_question_targets: targets,
+  }
+}
+
+function askFollowUp(
+  state: InterviewState,
+  questionId: string,
+  targets?: BlueprintTarget[]
+): InterviewState {
+  if (!canAskFollowUp(state)) {
+    throw new InterviewStateError(
+      `Follow-up limit of ${state.max_followups} reached or no question to follow up on`
+    )
+  }
+
+  return {
+    ...state,
+    interview_phase: nextPhase(state, "in_progress"),
+    question_type: "followup",
+    followup_count: state.followup_count + 1,
+    current_question_id: questionId,
+    current_question_asked_at: new Date().toISOString(),
+    // A follow-up digs into what its main question probed unless told otherwise
+    current_question_targets: targets ?? state.current_question_targets,
+  }
+}
+
+function recordAnswer(
+  state: InterviewState,
+  {
+    question,
+    answer,
+    raw_answer,
+    question_generation,
+    timing,
+    timed_out,
+    media,
+    code,
+  }: Extract<InterviewEvent, { type: "answer" }>
+): InterviewState {
+  if (state.interview_phase !== "in_progress" || !state.current_question_id) {
+    throw new InterviewStateError("There is no open question to answer")
+  }
+
+  const alreadyAnswered = state.conversation_history.some(
+    (entry) => entry.questionId === state.current_question_id
+  )
+  if (alreadyAnswered) {
+    throw new InterviewStateError(
+      `Question ${state.current_question_id} has already been answered`
+    )
+  }
+
+  const now = Date.now()
+  const times = resolveAnswerTiming(state, timing, now)
+
+  const entry: InterviewAnswer = {
+    question,
+    answer,
+    rawAnswer: raw_answer,
+    timestamp: new Date(now).toISOString(),
+    questionId: state.current_question_id,
+    questionType: state.question_type,
+    mainQuestionIndex: state.current_question_index,
+    questionGeneration: question_generation,
+    ...times,
+    timedOut: timed_out || exceedsQuestionLimit(state, times) || undefined,
+    targets: state.current_question_targets,
+    difficulty: state.difficulty,
+    media,
+    code,
+    injection: detectInjection(answer, code?.code),
+  }
+
+  return {
+    ...state,
+    conversation_history: [...state.conversation_history, entry],
+  }
+}
+
+function gradeLastAnswer(
+  state: InterviewState,
+  quality: AnswerQuality
+): InterviewState {
+  const history = state.conversation_history
+  const last = history[history.length - 1]
+
+  if (state.interview_phase !== "in_progress" || !last) {
+    throw new InterviewStateError("There is no answer to grade")
+  }
+  if (last.quality) {
+    throw new InterviewStateError(
+      `Answer ${last.questionId ?? history.length} has already been graded`
+    )
+  }
+
+  return {
+    ...state,
+    conversation_history: [...history.slice(0, -1), { ...last, quality }],
+    difficulty: state.difficulty && adjustDifficulty(state.difficulty, quality),
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function nextPhase(state: InterviewState, to: InterviewPhase): InterviewPhase {
+  if (!PHASE_TRANSITIONS[state.interview_phase].includes(to)) {
+    throw new InterviewStateError(
+      `Cannot move interview from ${state.interview_phase} to ${to}`
+    )
+  }
+  return to
+}
+
+/**
+ * Browser timestamps are kept only in order and within the window the server
+ * knows about: from when the question was asked until now.
+ */
+function resolveAnswerTiming(
+  state: InterviewState,
+  timing: AnswerTiming = {},
+  now: number
+): Pick<InterviewAnswer, "questionShownAt" | "answerStartedAt" | "answerEndedAt"> {
+  const askedAt = state.current_question_asked_at
+    ? Date.parse(state.current_question_asked_at)
+    : now
+
+  const clamp = (value: string | undefined, min: number): number | undefined => {
+    const time = value ? Date.parse(value) : NaN
+    return Number.isNaN(time) ? undefined : Math.min(Math.max(time, min), now)
+  }
+
+  const shown = clamp(timing.question_shown_at, askedAt) ?? askedAt
+  const started = clamp(timing.answer_started_at, shown)
+  const ended = clamp(timing.answer_ended_at, started ?? shown) ?? now
+
+  return {
+    questionShownAt: new Date(shown).toISOString(),
+    answerStartedAt: started === undefined ? undefined : new Date(started).toISOString(),
+    answerEndedAt: new Date(ended).toISOString(),
+  }
+}
+
+function exceedsQuestionLimit(
+  state: InterviewState,
+  times: Pick<InterviewAnswer, "questionShownAt" | "answerEndedAt">
+): boolean {
+  const limit = state.question_time_limit_seconds
+  if (!limit || !times.questionShownAt || !times.answerEndedAt) return false
+
+  const elapsed =
+    (Date.parse(times.answerEndedAt) - Date.parse(times.questionShownAt)) / 1000
+  return elapsed > limit + QUESTION_TIME_GRACE_SECONDS
+}
+
+function isSameAnswer(a: InterviewAnswer, b: InterviewAnswer | undefined): boolean {
+  return (
+    !!b &&
+    a.question === b.question &&
+    a.answer === b.answer &&
+    a.timestamp === b.timestamp &&
+    a.questionId === b.questionId &&
+    a.questionType === b.questionType &&
+    a.mainQuestionIndex === b.mainQuestionIndex
+  )
+}
@@ -0,0 +1,81 @@
+import type {
+  CandidateNextQuestionRequest,
+  NextQuestionResponse,
+  NextQuestionStreamError,
+  QuestionDeltaEvent,
+} from "@/types/interview"
+import { advanceInterview } from "@/lib/interview-controller"
+import { InterviewStateError } from "@/lib/interview-state"
+import { formatServerSentEvent } from "@/lib/sse"
+
+/**
+ * Runs advanceInterview as a Server-Sent Events response. The question text
+ * is sent as question-delta events while the model writes it; the final
+ * state and authoritative question follow in a done event. `present` shapes
+ * the done payload for its audience (e.g. dropping admin-only fields).
+ */
+export function streamNextQuestion(
+  sessionId: string,
+  body: CandidateNextQuestionRequest,
+  present: (response: NextQuestionResponse) => NextQuestionResponse = (r) => r
+): Response {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+
+      try {
+        const result = await advanceInterview(sessionId, {
+          clientState: body.interview_state,
+          lastAnswer: body.last_answer,
+          rawAnswer: body.raw_answer,
+          skip: body.skip,
+          answerTiming: body.answer_timing,
+          timedOut: body.timed_out,
+          mediaId: body.media_id,
+          code: body.code,
+          onQuestionDelta: (text) =>
+            send("question-delta", { text } satisfies QuestionDeltaEvent),
+        })
+
+        if (!result) {
+          send("error", {
+            status: 404,
+            error: "Session not found",
+            code: "not_found",
+          } satisfies NextQuestionStreamError)
+        } else {
+          send("done", present(result.response) satisfies NextQuestionResponse)
+        }
+      } catch (error) {
+        if (error instanceof InterviewStateError) {
+          send("error", {
+            status: 409,
+            error: error.message,
+            code: "state_conflict",
+            violations: error.violations,
+          } satisfies NextQuestionStreamError)
+        } else {
+          console.error("Next-question stream error:", error)
+          send("error", {
+            status: 500,
+            error: "Failed to generate next question",
+            code: "internal_error",
+          } satisfies NextQuestionStreamError)
+        }
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
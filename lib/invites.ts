@@ -0,0 +1,138 @@
+import { randomBytes } from "crypto"
+import type {
+  CandidateInterview,
+  CreateInviteRequest,
+  InterviewInvite,
+  InterviewSession,
+  InterviewState,
+  NextQuestionResponse,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { getSession } from "@/lib/sessions"
+import { getInterviewLanguage } from "@/lib/languages"
+import {
+  toCandidateChallenge,
+  toCandidateRunResult,
+} from "@/lib/coding/challenges"
+import { number, object, optional, type Schema } from "@/lib/schema"
+
+/**
+ * Candidate invite links. An admin creates a session, then hands the
+ * candidate /interview/<token>; the token resolves to the session on the
+ * server, so the candidate never learns the session id and can only reach
+ * the candidate-facing view of it.
+ */
+
+const store = createJsonStore<InterviewInvite>("invites")
+
+const DEFAULT_EXPIRES_IN_HOURS = 72
+
+export const createInviteSchema: Schema<CreateInviteRequest> = object({
+  expiresInHours: optional(number({ min: 1, max: 24 * 30 })),
+})
+
+export type InviteLookup =
+  | { status: "valid"; invite: InterviewInvite; session: InterviewSession }
+  | { status: "expired"; invite: InterviewInvite }
+  | { status: "not_found" }
+
+export async function createInvite(
+  sessionId: string,
+  request: CreateInviteRequest = {}
+): Promise<InterviewInvite | null> {
+  const session = await getSession(sessionId)
+  if (!session) return null
+
+  const now = Date.now()
+  const hours = request.expiresInHours ?? DEFAULT_EXPIRES_IN_HOURS
+
+  return store.save({
+    // 192 bits, URL-safe and within the store's id pattern
+    id: randomBytes(24).toString("base64url"),
+    sessionId,
+    expiresAt: new Date(now + hours * 60 * 60 * 1000).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  })
+}
+
+export async function listInvites(
+  sessionId: string
+): Promise<InterviewInvite[]> {
+  const invites = await store.list()
+  return invites
+    .filter((invite) => invite.sessionId === sessionId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function resolveInvite(token: string): Promise<InviteLookup> {
+  const invite = await store.get(token)
+  if (!invite) return { status: "not_found" }
+
+  if (Date.parse(invite.expiresAt) <= Date.now()) {
+    return { status: "expired", invite }
+  }
+
+  const session = await getSession(invite.sessionId)
+  if (!session) return { status: "not_found" }
+
+  return { status: "valid", invite, session }
+}
+
+export function toCandidateInterview(
+  session: InterviewSession,
+  invite: InterviewInvite
+): CandidateInterview {
+  return {
+    roleTitle: session.setup.roleTitle,
+    language: getInterviewLanguage(session.setup),
+    state: toCandidateState(session.state),
+    current_question: session.current_question,
+    current_challenge: session.current_challenge
+      ? toCandidateChallenge(session.current_challenge)
+      : undefined,
+    expiresAt: invite.expiresAt,
+  }
+}
+
+// The model's reasoning about the candidate stays with the admin
+export function toCandidateResponse(
+  response: NextQuestionResponse
+): NextQuestionResponse {
+  const { reasoning: _reasoning, ...rest } = response
+  return { ...rest, updated_state: toCandidateState(response.updated_state) }
+}
+
+/* ---------- helpers ---------- */
+
+// Provenance, blueprint targets, difficulty, grades and injection flags are
+// admin-only, and so are the details of hidden test cases. A candidate who saw
+// which wording was flagged could rephrase until it is not.
+function toCandidateState(state: InterviewState): InterviewState {
+  const {
+    current_question_targets: _targets,
+    difficulty: _difficulty,
+    ...rest
+  } = state
+  return {
+    ...rest,
+    conversation_history: state.conversation_history.map(
+      ({
+        questionGeneration: _generation,
+        targets: _answerTargets,
+        difficulty: _answerDifficulty,
+        quality: _quality,
+        injection: _injection,
+        ...answer
+      }) =>
+        answer.code
+          ? {
+              ...answer,
+              code: {
+                ...answer.code,
+                result: toCandidateRunResult(answer.code.result),
+              },
+            }
+          : answer
+    ),
+  }
+}
@@ -0,0 +1,45 @@
+import type { InterviewLanguage, InterviewSetup } from "@/types/interview"
+
+/**
+ * Interview languages. The interview language is the candidate's: speech
+ * recognition and synthesis, the questions the model asks and the interview
+ * page all follow it. The report language is the hiring team's and is what
+ * the evaluation is written in. Both default to English.
+ */
+
+export interface LanguageInfo {
+  // BCP 47 tag for speech recognition, speech synthesis and server STT
+  locale: string
+  // In the language itself, for pickers
+  label: string
+  // In English, for prompts
+  name: string
+}
+
+export const LANGUAGES: Record<InterviewLanguage, LanguageInfo> = {
+  en: { locale: "en-US", label: "English", name: "English" },
+  es: { locale: "es-ES", label: "Español", name: "Spanish" },
+  de: { locale: "de-DE", label: "Deutsch", name: "German" },
+}
+
+export const INTERVIEW_LANGUAGES = Object.keys(LANGUAGES) as InterviewLanguage[]
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = "en"
+
+export function isInterviewLanguage(value: unknown): value is InterviewLanguage {
+  return typeof value === "string" && Object.hasOwn(LANGUAGES, value)
+}
+
+export function getInterviewLanguage(
+  setup: Pick<InterviewSetup, "language">
+): InterviewLanguage {
+  return isInterviewLanguage(setup.language) ? setup.language : DEFAULT_LANGUAGE
+}
+
+export function getReportLanguage(
+  setup: Pick<InterviewSetup, "reportLanguage">
+): InterviewLanguage {
+  return isInterviewLanguage(setup.reportLanguage)
+    ? setup.reportLanguage
+    : DEFAULT_LANGUAGE
+}
@@ -0,0 +1,37 @@
+import type { GenerationInfo, PromptId } from "@/types/interview"
+
+/**
+ * Names for the versioned prompts (lib/ai/prompts) and a one-line account of
+ * which prompt and model produced an AI result, for the admin pages and the
+ * exported reports.
+ */
+
+export const PROMPT_IDS: PromptId[] = [
+  "analyze-profile",
+  "main-question",
+  "follow-up",
+  "evaluate",
+  "final-evaluation",
+]
+
+export const PROMPT_LABELS: Record<PromptId, string> = {
+  "analyze-profile": "Profile analysis",
+  "main-question": "Main question",
+  "follow-up": "Follow-up question",
+  evaluate: "Quick evaluation",
+  "final-evaluation": "Final evaluation",
+}
+
+export function isPromptId(value: unknown): value is PromptId {
+  return PROMPT_IDS.includes(value as PromptId)
+}
+
+// e.g. "final-evaluation v2 · openai gpt-4o-mini", or null for results that
+// predate prompt versioning
+export function describeGeneration(generation?: GenerationInfo): string | null {
+  if (!generation?.prompt_id) return null
+
+  const prompt = `${generation.prompt_id} v${generation.prompt_version}`
+  const model = [generation.provider, generation.model].filter(Boolean).join(" ")
+  return model ? `${prompt} · ${model}` : prompt
+}
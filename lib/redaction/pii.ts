@@ -0,0 +1,324 @@
+import type {
+  PiiCategory,
+  RedactionEntry,
+  RedactionSettings,
+} from "@/types/interview"
+import { array, boolean, literal, object, optional, type Schema } from "@/lib/schema"
+
+/**
+ * Finds personal identifiers in resumes and answers and swaps them for
+ * placeholders such as [EMAIL_1], so prompts never carry them. The same value
+ * always gets the same placeholder, and the mapping is what turns the
+ * placeholders in a model's output back into the original text.
+ *
+ * Detection is pattern based (labelled resume lines in English, Spanish and
+ * German, e-mail and phone formats, street addresses, profile links) plus the
+ * candidate's name as entered at setup or found at the top of the resume. It
+ * errs on the side of redacting: a placeholder too many costs the model a
+ * detail, one too few leaks it.
+ */
+
+export const PII_CATEGORIES: PiiCategory[] = [
+  "name",
+  "email",
+  "phone",
+  "address",
+  "link",
+  "age",
+  "demographics",
+  "photo",
+]
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  name: "Names",
+  email: "E-mail addresses",
+  phone: "Phone numbers",
+  address: "Postal addresses",
+  link: "Profile and website links",
+  age: "Age and date of birth",
+  demographics: "Gender, nationality, marital status",
+  photo: "Photos",
+}
+
+export const redactionSettingsSchema: Schema<RedactionSettings> = object({
+  categories: array(literal(...PII_CATEGORIES)),
+  blind: optional(boolean()),
+})
+
+export interface Redactor {
+  redact(text: string): string
+  restore(text: string): string
+  // Every identifier replaced so far, in the order they were found
+  entries(): RedactionEntry[]
+}
+
+export interface RedactorOptions {
+  categories: PiiCategory[]
+  // Known names, e.g. the candidate name entered at setup
+  names?: string[]
+  // Searched for a name in its first line
+  resume?: string
+  // Mapping from earlier prompts, so placeholders stay the same
+  entries?: RedactionEntry[]
+}
+
+export function createRedactor(options: RedactorOptions): Redactor {
+  const categories = new Set(options.categories)
+  const entries: RedactionEntry[] = [...(options.entries ?? [])]
+
+  const add = (category: PiiCategory, value: string) => {
+    const trimmed = value.trim()
+    if (trimmed.length < 2 || !categories.has(category)) return
+    if (entries.some((entry) => sameValue(entry.value, trimmed))) return
+
+    const prefix = category.toUpperCase()
+    const count = entries.filter((entry) => entry.category === category).length
+    entries.push({
+      placeholder: `[${prefix}_${count + 1}]`,
+      category,
+      value: trimmed,
+    })
+  }
+
+  if (categories.has("name")) {
+    const names = [...(options.names ?? []), findResumeName(options.resume)]
+    names.forEach((name) => name && addName(add, name))
+  }
+
+  return {
+    redact(text) {
+      if (categories.size === 0 || !text) return text
+
+      for (const [category, value] of detect(text, categories)) {
+        if (category === "name") addName(add, value)
+        else add(category, value)
+      }
+
+      // Longest first, so a full name goes before its parts
+      return [...entries]
+        .sort((a, b) => b.value.length - a.value.length)
+        .reduce(
+          (result, entry) =>
+            result.replace(toPattern(entry.value), entry.placeholder),
+          text
+        )
+    },
+    restore(text) {
+      return restorePlaceholders(text, entries)
+    },
+    entries() {
+      return [...entries]
+    },
+  }
+}
+
+export function restorePlaceholders(
+  text: string,
+  entries: RedactionEntry[]
+): string {
+  if (entries.length === 0) return text
+  const values = new Map(entries.map((entry) => [entry.placeholder, entry.value]))
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) =>
+    values.get(placeholder) ?? placeholder
+  )
+}
+
+// Every string inside a model's structured output, restored
+export function restoreValues<T>(value: T, entries: RedactionEntry[]): T {
+  if (entries.length === 0) return value
+  if (typeof value === "string") {
+    return restorePlaceholders(value, entries) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreValues(item, entries)) as T
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        restoreValues(item, entries),
+      ])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * Restores placeholders in text that arrives in pieces. A piece ending
+ * inside what may be a placeholder is held back until the rest arrives.
+ */
+export function createPlaceholderStream(entries: RedactionEntry[]): {
+  push(text: string): string
+  flush(): string
+} {
+  let pending = ""
+
+  return {
+    push(text) {
+      pending += text
+      const open = pending.lastIndexOf("[")
+      const held =
+        open >= 0 &&
+        !pending.includes("]", open) &&
+        pending.length - open <= MAX_PLACEHOLDER_LENGTH
+          ? pending.slice(open)
+          : ""
+      const ready = pending.slice(0, pending.length - held.length)
+      pending = held
+      return restorePlaceholders(ready, entries)
+    },
+    flush() {
+      const rest = pending
+      pending = ""
+      return restorePlaceholders(rest, entries)
+    },
+  }
+}
+
+/* ---------- helpers ---------- */
+
+const PLACEHOLDER_PATTERN = /\[[A-Z]+_\d+\]/g
+
+const MAX_PLACEHOLDER_LENGTH = 20
+
+// Letters and digits, Latin-1 accents included, for word edges
+const WORD_CHARS = "A-Za-z0-9À-ÖØ-öø-ÿ"
+
+// Labels that introduce a resume field of their category, e.g. "Born: ..."
+const LABELS: Partial<Record<PiiCategory, string[]>> = {
+  name: ["Name", "Full name", "Nombre", "Nombre completo", "Vorname", "Nachname"],
+  email: ["E-?mail", "Correo", "Correo electrónico"],
+  phone: ["Phone", "Tel", "Telephone", "Mobile", "Cell", "Teléfono", "Móvil", "Telefon", "Handy", "Mobil"],
+  address: ["Address", "Home address", "Dirección", "Domicilio", "Adresse", "Anschrift", "Wohnort"],
+  age: [
+    "Date of birth", "Birth date", "Birthday", "DOB", "Born", "Age",
+    "Fecha de nacimiento", "Nacimiento", "Edad",
+    "Geburtsdatum", "Geboren", "Alter",
+  ],
+  demographics: [
+    "Gender", "Sex", "Marital status", "Nationality", "Citizenship", "Religion", "Pronouns",
+    "Género", "Sexo", "Estado civil", "Nacionalidad", "Religión",
+    "Geschlecht", "Familienstand", "Staatsangehörigkeit", "Nationalität", "Konfession",
+  ],
+  photo: ["Photo", "Picture", "Headshot", "Foto", "Bild", "Lichtbild"],
+}
+
+const PATTERNS: Partial<Record<PiiCategory, RegExp[]>> = {
+  email: [/[\w.%+-]+@[\w.-]+\.[A-Za-z]{2,}/g],
+  phone: [
+    /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,5}(?:[\s.-]\d{2,8}){1,4}(?!\w)/g,
+  ],
+  link: [
+    /\b(?:https?:\/\/|www\.)[^\s<>"')\]]+/gi,
+    /\b(?:linkedin|github|gitlab|twitter|x|facebook|instagram|xing)\.com\/[^\s<>"')\]]+/gi,
+  ],
+  address: [
+    /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\b\.?/g,
+    /\b[A-ZÄÖÜ][a-zäöüß]+(?:straße|strasse|str\.|weg|gasse|platz|allee|ring)\s+\d+\s?[a-z]?\b/g,
+    /\b(?:Calle|C\/|Avenida|Avda\.|Plaza|Paseo)\s+[^,\n\d]{2,40}?,?\s*\d+/g,
+  ],
+  age: [
+    /\b\d{1,2}\s+(?:years old|years of age|años de edad|Jahre alt)\b/gi,
+    /\baged?\s+\d{1,2}\b/gi,
+  ],
+  demographics: [
+    /\b(?:she\/her|he\/him|they\/them)(?:\/[a-z]+)?\b/gi,
+    /\b(?:Mr|Mrs|Ms|Mx|Miss|Sra|Srta)\.?(?=\s+[A-ZÀ-ÖØ-Þ])/g,
+    /\b(?:Herr|Frau)(?=\s+[A-ZÄÖÜ][a-zäöüß]+)/g,
+  ],
+  photo: [
+    /!\[[^\]]*\]\([^)]*\)/g,
+    /data:image\/[a-z+]+;base64,[A-Za-z0-9+/=]+/g,
+    /\[(?:photo|picture|image|foto|bild)\]/gi,
+  ],
+}
+
+// First lines that are headings rather than a name
+const NOT_A_NAME = /\b(?:resume|résumé|cv|curriculum|vitae|lebenslauf|profile|perfil|engineer|developer|manager|designer|ingeniero|desarrollador|entwickler)\b/i
+
+function detect(
+  text: string,
+  categories: Set<PiiCategory>
+): [PiiCategory, string][] {
+  const found: [PiiCategory, string][] = []
+
+  for (const category of PII_CATEGORIES) {
+    if (!categories.has(category)) continue
+
+    const labels = LABELS[category]
+    if (labels) {
+      // At the start of a line or of a field, e.g. "... | Phone: ..."
+      const pattern = new RegExp(
+        `(?:^|[|·•;\\t])[ \\t]*(?:[-*][ \\t]*)?(?:${labels.join("|")})[ \\t]*[:：][ \\t]*([^|·•;\\t\\n]+?)[ \\t]*(?=$|[|·•;\\t])`,
+        "gim"
+      )
+      for (const match of Array.from(text.matchAll(pattern))) {
+        found.push([category, match[1]])
+      }
+    }
+
+    for (const pattern of PATTERNS[category] ?? []) {
+      for (const match of Array.from(text.matchAll(pattern))) {
+        const value = match[0].replace(/[.,;:]+$/, "")
+        if (category === "phone" && !isPhoneNumber(value)) continue
+        found.push([category, value])
+      }
+    }
+  }
+
+  return found
+}
+
+// Numbers with 7 to 15 digits that are not dates or year ranges
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, "").length
+  if (digits < 7 || digits > 15) return false
+  if (/^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/.test(value)) return false
+  if (/^(?:19|20)\d{2}\s*-\s*(?:19|20)\d{2}$/.test(value)) return false
+  return true
+}
+
+// The whole name, and its first and last parts on their own
+function addName(
+  add: (category: PiiCategory, value: string) => void,
+  name: string
+) {
+  const parts = name.trim().split(/\s+/)
+  add("name", name)
+  if (parts.length < 2) return
+
+  for (const part of [parts[0], parts[parts.length - 1]]) {
+    if (part.replace(/\W/g, "").length >= 3) add("name", part)
+  }
+}
+
+// Resumes usually open with the candidate's name on a line of its own
+function findResumeName(resume?: string): string | undefined {
+  const first = resume
+    ?.split("\n")
+    .map((line) => line.trim())
+    .find(Boolean)
+  if (!first || first.length > 60 || NOT_A_NAME.test(first)) return undefined
+
+  const words = first.split(/\s+/)
+  const isName =
+    words.length >= 2 &&
+    words.length <= 4 &&
+    words.every((word) => /^[A-ZÀ-ÖØ-Þ][A-Za-zÀ-ÖØ-öø-ÿ'’-]*\.?$/.test(word))
+  return isName ? first : undefined
+}
+
+function sameValue(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+// Whole-word matches; single words are matched case-sensitively so a name
+// like "Will" leaves "will" alone
+function toPattern(value: string): RegExp {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const flags = /\s|@|\//.test(value) ? "gi" : "g"
+  return new RegExp(
+    `(?<![${WORD_CHARS}])${escaped}(?![${WORD_CHARS}])`,
+    flags
+  )
+}
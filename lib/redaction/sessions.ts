@@ -0,0 +1,163 @@
+import type {
+  EvaluationResult,
+  InterviewBlueprint,
+  InterviewSession,
+  InterviewSetup,
+  PiiCategory,
+  RedactionEntry,
+  RedactionSettings,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { PII_CATEGORIES, createRedactor, type Redactor } from "./pii"
+
+/**
+ * Redaction for interview sessions. What is redacted comes from the setup,
+ * or from the environment for setups that do not say:
+ *
+ *   PII_REDACTION=all (default) | off | <category>,<category>,...
+ *
+ * Each session's mapping (placeholder to original value) is kept in its own
+ * store, never on the session, so it is not sent to the browser with it.
+ * Model output is restored with it before it is stored; blind sessions are
+ * redacted again, from the same mapping, whenever a reviewer views them.
+ */
+
+interface SessionRedaction {
+  id: string
+  entries: RedactionEntry[]
+}
+
+const store = createJsonStore<SessionRedaction>("redactions")
+
+export function getRedactionSettings(
+  setup?: Pick<InterviewSetup, "redaction">
+): RedactionSettings {
+  if (setup?.redaction) return setup.redaction
+
+  const value = process.env.PII_REDACTION?.trim().toLowerCase()
+  if (!value || value === "all") return { categories: PII_CATEGORIES }
+  if (value === "off" || value === "none") return { categories: [] }
+
+  return {
+    categories: value
+      .split(",")
+      .map((category) => category.trim())
+      .filter((category): category is PiiCategory =>
+        PII_CATEGORIES.includes(category as PiiCategory)
+      ),
+  }
+}
+
+// A redactor for one setup's prompts, continuing an earlier mapping if given
+export function createSetupRedactor(
+  setup: Partial<Pick<InterviewSetup, "redaction" | "candidateName" | "resume">>,
+  entries?: RedactionEntry[]
+): Redactor {
+  return createRedactor({
+    categories: getRedactionSettings(setup).categories,
+    names: setup.candidateName ? [setup.candidateName] : [],
+    resume: setup.resume,
+    entries,
+  })
+}
+
+export async function loadSessionRedactor(
+  session: InterviewSession
+): Promise<Redactor> {
+  const stored = await store.get(session.id)
+  return createSetupRedactor(session.setup, stored?.entries)
+}
+
+export async function saveSessionRedactor(
+  sessionId: string,
+  redactor: Redactor
+): Promise<void> {
+  await store.save({ id: sessionId, entries: redactor.entries() })
+}
+
+/**
+ * The session as a reviewer may see it: unchanged, or for blind sessions with
+ * the candidate's name, resume, answers and everything said about them
+ * redacted. Recordings are left out, since voice and face identify too.
+ */
+export async function presentSession(
+  session: InterviewSession
+): Promise<InterviewSession> {
+  if (!session.setup.redaction?.blind) return session
+
+  const redactor = await loadSessionRedactor(session)
+  const { redact } = redactor
+
+  return {
+    ...session,
+    setup: {
+      ...session.setup,
+      candidateName: `Candidate ${session.id.slice(0, 6)}`,
+      resume: session.setup.resume && redact(session.setup.resume),
+    },
+    blueprint: session.blueprint && redactBlueprint(session.blueprint, redactor),
+    current_question: session.current_question && redact(session.current_question),
+    state: {
+      ...session.state,
+      conversation_history: session.state.conversation_history.map((answer) => ({
+        ...answer,
+        question: redact(answer.question),
+        answer: redact(answer.answer),
+        rawAnswer: answer.rawAnswer && redact(answer.rawAnswer),
+        media: undefined,
+        injection: answer.injection && {
+          ...answer.injection,
+          excerpts: answer.injection.excerpts.map(redact),
+        },
+      })),
+    },
+    evaluation:
+      session.evaluation && redactEvaluation(session.evaluation, redactor),
+  }
+}
+
+export async function presentEvaluation(
+  session: InterviewSession,
+  evaluation: EvaluationResult
+): Promise<EvaluationResult> {
+  if (!session.setup.redaction?.blind) return evaluation
+  return redactEvaluation(evaluation, await loadSessionRedactor(session))
+}
+
+/* ---------- helpers ---------- */
+
+function redactEvaluation(
+  evaluation: EvaluationResult,
+  { redact }: Redactor
+): EvaluationResult {
+  return {
+    ...evaluation,
+    strengths: evaluation.strengths.map(redact),
+    weaknesses: evaluation.weaknesses.map(redact),
+    summary: redact(evaluation.summary),
+    answer_breakdown: evaluation.answer_breakdown?.map((item) => ({
+      ...item,
+      rationale: redact(item.rationale),
+      evidence: item.evidence.map(redact),
+    })),
+    flagged_answers: evaluation.flagged_answers?.map((item) => ({
+      ...item,
+      question: redact(item.question),
+      excerpts: item.excerpts.map(redact),
+    })),
+  }
+}
+
+function redactBlueprint(
+  blueprint: InterviewBlueprint,
+  { redact }: Redactor
+): InterviewBlueprint {
+  return {
+    ...blueprint,
+    key_skills: blueprint.key_skills.map(redact),
+    skill_gaps: blueprint.skill_gaps.map(redact),
+    notable_projects: blueprint.notable_projects.map(redact),
+    focus_areas: blueprint.focus_areas.map(redact),
+    suggested_question_themes: blueprint.suggested_question_themes.map(redact),
+  }
+}
@@ -0,0 +1,370 @@
+import type {
+  CodeSubmission,
+  EvaluationReport,
+  InterviewAnswer,
+  InterviewSession,
+  ReportFormat,
+  ScoreDimension,
+} from "@/types/interview"
+import { getAnswerDurations, getAnswerKey } from "@/lib/interview-state"
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  getInterviewLanguage,
+  getReportLanguage,
+} from "@/lib/languages"
+import { CODE_LANGUAGE_LABELS } from "@/lib/coding/challenges"
+import { describeGeneration } from "@/lib/provenance"
+import { describeSpread, describeVotes } from "@/lib/ai/consensus"
+import { describeInjection } from "@/lib/prompt-injection"
+
+/**
+ * Exports of an evaluated interview for the candidate packet. The JSON
+ * bundle is the source for every format: Markdown and PDF are renderings of
+ * it, so all three always agree.
+ */
+
+export function buildEvaluationReport(
+  session: InterviewSession
+): EvaluationReport | null {
+  if (!session.evaluation) return null
+
+  const { resume: _resume, interviewBlueprint: _blueprint, ...setup } =
+    session.setup
+
+  return {
+    format_version: 1,
+    generated_at: new Date().toISOString(),
+    session: {
+      id: session.id,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    },
+    setup,
+    blueprint: session.blueprint,
+    conversation_history: session.state.conversation_history,
+    evaluation: session.evaluation,
+  }
+}
+
+export function renderMarkdownReport(report: EvaluationReport): string {
+  const { setup, evaluation, blueprint } = report
+  const lines: string[] = [
+    `# Interview Report: ${setup.roleTitle}`,
+    "",
+    `- Interview date: ${formatDate(report.session.createdAt)}`,
+    `- Session: ${report.session.id}`,
+    `- Verdict: **${evaluation.final_verdict}** (${evaluation.alignment_percentage}% alignment)`,
+  ]
+
+  const languages = describeLanguages(report)
+  if (languages) lines.push(`- Languages: ${languages}`)
+  const consensus = describeConsensus(report)
+  if (consensus) lines.push(`- Consensus: ${consensus.summary}`)
+  lines.push("")
+
+  const notice = getProvenanceNotice(report)
+  if (notice) lines.push(`> ${notice}`, "")
+
+  lines.push(
+    "## Scores",
+    "",
+    ...(consensus
+      ? [
+          "| Dimension | Score | Across runs |",
+          "| --- | --- | --- |",
+          `| Alignment | ${evaluation.alignment_percentage}% | ${consensus.spreads.alignment_percentage} |`,
+          `| Technical | ${evaluation.technical_score}/10 | ${consensus.spreads.technical_score} |`,
+          `| Problem solving | ${evaluation.problem_solving_score}/10 | ${consensus.spreads.problem_solving_score} |`,
+          `| Communication | ${evaluation.communication_score}/10 | ${consensus.spreads.communication_score} |`,
+        ]
+      : [
+          "| Dimension | Score |",
+          "| --- | --- |",
+          `| Technical | ${evaluation.technical_score}/10 |`,
+          `| Problem solving | ${evaluation.problem_solving_score}/10 |`,
+          `| Communication | ${evaluation.communication_score}/10 |`,
+        ]),
+    "",
+    "## Summary",
+    "",
+    evaluation.summary,
+    "",
+    "## Strengths",
+    "",
+    ...bulletList(evaluation.strengths),
+    "",
+    "## Areas for Improvement",
+    "",
+    ...bulletList(evaluation.weaknesses),
+    ""
+  )
+
+  const flagged = describeFlaggedAnswers(report)
+  if (flagged.length > 0) {
+    lines.push("## Flagged Answers", "", `> ${FLAGGED_NOTICE}`, "")
+    flagged.forEach((item) => {
+      lines.push(`- **${item.heading}**: ${item.reasons}`, "")
+      item.excerpts.forEach((excerpt) => lines.push(`> "${excerpt}"`, ""))
+    })
+  }
+
+  if (blueprint) {
+    lines.push(
+      "## Interview Focus",
+      "",
+      ...bulletList(blueprint.focus_areas),
+      ""
+    )
+  }
+
+  lines.push("## Transcript", "")
+
+  report.conversation_history.forEach((answer, i) => {
+    const section = describeAnswer(report, answer, i)
+
+    lines.push(`### ${section.heading}`, "", `> ${answer.question}`, "")
+    lines.push(
+      answer.answer || (section.code ? "_No spoken answer_" : "_No answer provided_"),
+      ""
+    )
+    if (section.recognised) {
+      lines.push(`_Recognised speech, before the candidate's corrections:_ ${section.recognised}`, "")
+    }
+    if (section.timing) lines.push(`_${section.timing}_`, "")
+    if (section.injection) lines.push(`_Flagged: ${section.injection}_`, "")
+    if (section.code) {
+      lines.push(
+        "```" + section.code.language,
+        section.code.source.trimEnd(),
+        "```",
+        "",
+        `_${section.code.summary}_`,
+        ""
+      )
+      if (section.code.failures.length > 0) {
+        lines.push(...bulletList(section.code.failures), "")
+      }
+    }
+
+    if (section.scores) {
+      lines.push(`**${section.scores}**`, "")
+      if (section.rationale) lines.push(section.rationale, "")
+      section.evidence.forEach((quote) => lines.push(`> "${quote}"`, ""))
+    }
+  })
+
+  const provenance = describeProvenance(report)
+  if (provenance.length > 0) {
+    lines.push("## Provenance", "", ...bulletList(provenance), "")
+  }
+
+  return lines.join("\n").trimEnd() + "\n"
+}
+
+export function getReportFilename(
+  report: EvaluationReport,
+  format: ReportFormat
+): string {
+  const slug =
+    report.setup.roleTitle
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "interview"
+  const date = report.session.createdAt.slice(0, 10)
+  const extension = { json: "json", markdown: "md", pdf: "pdf" }[format]
+
+  return `komyra-report-${slug}-${date}.${extension}`
+}
+
+/**
+ * What a reader needs to know about each transcript entry, shared by the
+ * Markdown and PDF renderings.
+ */
+export function describeAnswer(
+  report: EvaluationReport,
+  answer: InterviewAnswer,
+  index: number
+): {
+  heading: string
+  timing: string
+  // Only when the candidate corrected the transcript
+  recognised?: string
+  // Why the answer was flagged as a possible prompt injection
+  injection?: string
+  code?: {
+    // Markdown code fence language
+    language: string
+    source: string
+    summary: string
+    failures: string[]
+  }
+  scores?: string
+  rationale?: string
+  evidence: string[]
+} {
+  const assessment = report.evaluation.answer_breakdown?.find(
+    (item) => item.question_id === getAnswerKey(answer, index)
+  )
+  const { thought, spoke, total } = getAnswerDurations(answer)
+
+  const timing = [
+    thought !== undefined ? `Thought ${thought}s` : "",
+    spoke !== undefined ? `Spoke ${spoke}s` : "",
+    total !== undefined ? `${total}s total` : "",
+    answer.timedOut ? "Ran out of time" : "",
+  ]
+    .filter(Boolean)
+    .join(" · ")
+
+  const labels = [
+    answer.questionType === "followup" ? "Follow-up" : "",
+    answer.difficulty ? `${answer.difficulty} difficulty` : "",
+  ].filter(Boolean)
+
+  return {
+    heading: `Q${index + 1}${labels.length > 0 ? ` (${labels.join(", ")})` : ""}`,
+    timing,
+    recognised:
+      answer.rawAnswer && answer.rawAnswer !== answer.answer
+        ? answer.rawAnswer
+        : undefined,
+    injection: answer.injection ? describeInjection(answer.injection) : undefined,
+    code: answer.code ? describeCodeSubmission(answer.code) : undefined,
+    scores: assessment
+      ? `Technical ${assessment.technical_score}/10 · Problem solving ${assessment.problem_solving_score}/10 · Communication ${assessment.communication_score}/10`
+      : undefined,
+    rationale: assessment?.rationale || undefined,
+    evidence: assessment?.evidence ?? [],
+  }
+}
+
+export const FLAGGED_NOTICE =
+  "These answers looked like attempts to instruct the AI evaluator. Check the scores against the transcript before relying on them."
+
+// Flagged answers under their transcript headings, e.g. "Q2"
+export function describeFlaggedAnswers(
+  report: EvaluationReport
+): { heading: string; reasons: string; excerpts: string[] }[] {
+  const keys = report.conversation_history.map(getAnswerKey)
+
+  return (report.evaluation.flagged_answers ?? []).map((item) => {
+    const index = keys.indexOf(item.question_id)
+    return {
+      heading: index >= 0 ? `Q${index + 1}` : item.question,
+      reasons: describeInjection(item),
+      excerpts: item.excerpts,
+    }
+  })
+}
+
+function describeCodeSubmission({ language, code, result }: CodeSubmission) {
+  const outcome =
+    result.status === "timeout"
+      ? "ran out of time"
+      : result.status === "error"
+        ? `did not run: ${result.error}`
+        : `${result.passed}/${result.total} tests passed`
+
+  return {
+    language,
+    source: code,
+    summary: `${CODE_LANGUAGE_LABELS[language]} · ${outcome}`,
+    failures: result.tests
+      .map((test, i) => {
+        if (test.passed) return ""
+        const label = `Test ${i + 1}${test.hidden ? " (hidden)" : ""}`
+        return test.error
+          ? `${label}: ${test.error}`
+          : `${label}: expected ${JSON.stringify(test.expected)}, got ${JSON.stringify(test.actual)}`
+      })
+      .filter(Boolean),
+  }
+}
+
+// Only for interviews that were not entirely in English
+export function describeLanguages(report: EvaluationReport): string | null {
+  const interview = getInterviewLanguage(report.setup)
+  const evaluation = getReportLanguage(report.setup)
+  if (interview === DEFAULT_LANGUAGE && evaluation === DEFAULT_LANGUAGE) {
+    return null
+  }
+  return `interview in ${LANGUAGES[interview].name}, evaluation in ${LANGUAGES[evaluation].name}`
+}
+
+/**
+ * For evaluations combined from several runs: how the runs voted, and how
+ * far apart their scores were per dimension. The JSON bundle has each run.
+ */
+export function describeConsensus(report: EvaluationReport): {
+  summary: string
+  spreads: Record<ScoreDimension, string>
+} | null {
+  const { consensus } = report.evaluation
+  if (!consensus) return null
+
+  const failed = consensus.runs - consensus.succeeded
+  const { dimensions } = consensus
+
+  return {
+    summary: [
+      `median of ${consensus.succeeded} evaluations${failed > 0 ? ` (${failed} failed)` : ""}`,
+      `votes ${describeVotes(consensus)}`,
+      `${consensus.confidence} confidence`,
+    ].join("; "),
+    spreads: {
+      alignment_percentage: describeSpread(dimensions.alignment_percentage, "%"),
+      technical_score: describeSpread(dimensions.technical_score),
+      problem_solving_score: describeSpread(dimensions.problem_solving_score),
+      communication_score: describeSpread(dimensions.communication_score),
+    },
+  }
+}
+
+/**
+ * Which prompt version and model produced each AI result in the report, for
+ * results recorded since prompts were versioned. The JSON bundle also has
+ * each rendered prompt's SHA-256.
+ */
+export function describeProvenance(report: EvaluationReport): string[] {
+  // Combined evaluations list the model behind each of their runs
+  const { consensus } = report.evaluation
+  const evaluation: [string, string | null][] = consensus
+    ? consensus.samples.map((sample, i) => [
+        `Evaluation run ${i + 1}`,
+        describeGeneration(sample.generation),
+      ])
+    : [["Evaluation", describeGeneration(report.evaluation.generation)]]
+
+  const entries: [string, string | null][] = [
+    ...evaluation,
+    ["Blueprint", describeGeneration(report.blueprint?.generation)],
+    ...report.conversation_history.map((answer, i): [string, string | null] => [
+      `Q${i + 1}`,
+      describeGeneration(answer.questionGeneration),
+    ]),
+  ]
+
+  return entries.flatMap(([label, description]) =>
+    description ? [`${label}: ${description}`] : []
+  )
+}
+
+export function getProvenanceNotice(report: EvaluationReport): string | null {
+  const source = report.evaluation.generation?.source
+  if (source === "fallback") {
+    return "This evaluation is a placeholder produced without a model judgement. Review the transcript manually."
+  }
+  if (source === "repair") {
+    return "The model's first evaluation was malformed and had to be repaired."
+  }
+  return null
+}
+
+export function formatDate(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 16).replace("T", " ") + " UTC"
+}
+
+export function bulletList(items: string[]): string[] {
+  return items.length > 0 ? items.map((item) => `- ${item}`) : ["- None noted"]
+}
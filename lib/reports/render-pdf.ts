@@ -0,0 +1,276 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib"
+import type { EvaluationReport } from "@/types/interview"
+import {
+  bulletList,
+  describeAnswer,
+  describeConsensus,
+  describeFlaggedAnswers,
+  describeLanguages,
+  describeProvenance,
+  FLAGGED_NOTICE,
+  formatDate,
+  getProvenanceNotice,
+} from "./evaluation-report"
+
+/**
+ * Printable A4 rendering of an EvaluationReport. Uses the standard PDF fonts,
+ * so nothing is embedded; text outside their Latin-1 character set is
+ * transliterated or replaced (see toWinAnsi).
+ */
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const BODY_SIZE = 10
+const LINE_GAP = 4
+
+const GRAY = rgb(0.35, 0.35, 0.35)
+const BLACK = rgb(0, 0, 0)
+const RED = rgb(0.7, 0.1, 0.1)
+
+interface TextStyle {
+  size?: number
+  bold?: boolean
+  italic?: boolean
+  // Monospaced, keeping line breaks and indentation
+  mono?: boolean
+  color?: ReturnType<typeof rgb>
+  indent?: number
+}
+
+export async function renderPdfReport(
+  report: EvaluationReport
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(`Interview Report: ${toWinAnsi(report.setup.roleTitle)}`)
+  pdf.setCreator("Komyra AI")
+
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    mono: await pdf.embedFont(StandardFonts.Courier),
+  }
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const write = (text: string, style: TextStyle = {}) => {
+    const size = style.size ?? BODY_SIZE
+    const font: PDFFont = style.mono
+      ? fonts.mono
+      : style.bold
+        ? fonts.bold
+        : style.italic
+          ? fonts.italic
+          : fonts.regular
+    const indent = style.indent ?? 0
+    const wrap = style.mono ? wrapCode : wrapText
+
+    for (const line of wrap(toWinAnsi(text), font, size, CONTENT_WIDTH - indent)) {
+      if (y - size < MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+        y = PAGE_HEIGHT - MARGIN
+      }
+      y -= size
+      page.drawText(line, {
+        x: MARGIN + indent,
+        y,
+        size,
+        font,
+        color: style.color ?? BLACK,
+      })
+      y -= LINE_GAP
+    }
+  }
+
+  const space = (height = BODY_SIZE) => {
+    y -= height
+  }
+
+  const heading = (text: string) => {
+    space()
+    write(text, { size: 13, bold: true })
+    space(4)
+  }
+
+  const { setup, evaluation, blueprint } = report
+
+  write(`Interview Report: ${setup.roleTitle}`, { size: 18, bold: true })
+  space(4)
+  write(`Interview date: ${formatDate(report.session.createdAt)}`, { color: GRAY })
+  write(`Session: ${report.session.id}`, { color: GRAY })
+  const languages = describeLanguages(report)
+  if (languages) write(`Languages: ${languages}`, { color: GRAY })
+  space(6)
+  write(
+    `Verdict: ${evaluation.final_verdict} (${evaluation.alignment_percentage}% alignment)`,
+    { size: 12, bold: true }
+  )
+
+  const consensus = describeConsensus(report)
+  if (consensus) write(`Consensus: ${consensus.summary}`, { color: GRAY })
+
+  const notice = getProvenanceNotice(report)
+  if (notice) {
+    space(4)
+    write(notice, { color: RED })
+  }
+
+  heading("Scores")
+  if (consensus) {
+    write(`Alignment: ${evaluation.alignment_percentage}% (runs: ${consensus.spreads.alignment_percentage})`)
+  }
+  write(`Technical: ${evaluation.technical_score}/10${consensus ? ` (runs: ${consensus.spreads.technical_score})` : ""}`)
+  write(`Problem solving: ${evaluation.problem_solving_score}/10${consensus ? ` (runs: ${consensus.spreads.problem_solving_score})` : ""}`)
+  write(`Communication: ${evaluation.communication_score}/10${consensus ? ` (runs: ${consensus.spreads.communication_score})` : ""}`)
+
+  heading("Summary")
+  write(evaluation.summary)
+
+  heading("Strengths")
+  bulletList(evaluation.strengths).forEach((item) => write(item, { indent: 8 }))
+
+  heading("Areas for Improvement")
+  bulletList(evaluation.weaknesses).forEach((item) => write(item, { indent: 8 }))
+
+  const flagged = describeFlaggedAnswers(report)
+  if (flagged.length > 0) {
+    heading("Flagged Answers")
+    write(FLAGGED_NOTICE, { color: RED })
+    flagged.forEach((item) => {
+      space(2)
+      write(`${item.heading}: ${item.reasons}`, { indent: 8, bold: true })
+      item.excerpts.forEach((excerpt) =>
+        write(`"${excerpt}"`, { indent: 20, size: 9, italic: true, color: GRAY })
+      )
+    })
+  }
+
+  if (blueprint) {
+    heading("Interview Focus")
+    bulletList(blueprint.focus_areas).forEach((item) => write(item, { indent: 8 }))
+  }
+
+  heading("Transcript")
+  report.conversation_history.forEach((answer, i) => {
+    const section = describeAnswer(report, answer, i)
+
+    space(4)
+    write(`${section.heading}: ${answer.question}`, { bold: true })
+    write(answer.answer || (section.code ? "No spoken answer" : "No answer provided"), {
+      indent: 12,
+      italic: !answer.answer,
+    })
+    if (section.recognised) {
+      write(`Recognised speech, before the candidate's corrections: ${section.recognised}`, {
+        indent: 12,
+        size: 8,
+        color: GRAY,
+      })
+    }
+    if (section.timing) write(section.timing, { indent: 12, size: 8, color: GRAY })
+    if (section.injection) write(`Flagged: ${section.injection}`, { indent: 12, size: 8, color: RED })
+    if (section.code) {
+      space(2)
+      write(section.code.source.replace(/\t/g, "    ").trimEnd(), { indent: 12, size: 8, mono: true })
+      space(2)
+      write(section.code.summary, { indent: 12, size: 9, italic: true })
+      section.code.failures.forEach((failure) =>
+        write(`- ${failure}`, { indent: 20, size: 8, color: GRAY })
+      )
+    }
+
+    if (section.scores) {
+      write(section.scores, { indent: 12, size: 9, bold: true })
+      if (section.rationale) write(section.rationale, { indent: 12, size: 9 })
+      section.evidence.forEach((quote) =>
+        write(`"${quote}"`, { indent: 20, size: 9, italic: true, color: GRAY })
+      )
+    }
+  })
+
+  const provenance = describeProvenance(report)
+  if (provenance.length > 0) {
+    heading("Provenance")
+    provenance.forEach((line) => write(line, { indent: 8, size: 9, color: GRAY }))
+  }
+
+  return pdf.save()
+}
+
+/* ---------- helpers ---------- */
+
+function wrapText(
+  text: string,
+  font: PDFFont,
+  size: number,
+  width: number
+): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split("\n")) {
+    let line = ""
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+      line = word
+      // A single word wider than the page is broken by character
+      while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+        let cut = line.length - 1
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) {
+          cut--
+        }
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+// Code keeps its indentation and is broken by character, not word
+function wrapCode(
+  text: string,
+  font: PDFFont,
+  size: number,
+  width: number
+): string[] {
+  const perLine = Math.max(1, Math.floor(width / font.widthOfTextAtSize("m", size)))
+
+  return text.split("\n").flatMap((line) => {
+    const lines: string[] = []
+    for (let i = 0; i < line.length; i += perLine) {
+      lines.push(line.slice(i, i + perLine))
+    }
+    return lines.length > 0 ? lines : [""]
+  })
+}
+
+const TRANSLITERATIONS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "–": "-",
+  "—": "-",
+  "•": "-",
+  "…": "...",
+  "\u00a0": " ",
+  "\t": " ",
+}
+
+// The standard fonts only cover WinAnsi (roughly Latin-1)
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\n\x20-\x7e\xa1-\xff]/g, (char) => TRANSLITERATIONS[char] ?? "?")
+}
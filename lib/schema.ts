@@ -0,0 +1,208 @@
+/**
+ * Small declarative runtime schemas. Each schema validates an unknown value
+ * and reports every problem with its path, e.g.
+ *   `technical_score: expected a number between 0 and 10, got 12`
+ * so the messages can be shown to a model (repair prompts) or to an API
+ * client (400 responses) as they are.
+ *
+ *   const blueprintSchema = object({ key_skills: array(string()) })
+ *   type Blueprint = Infer<typeof blueprintSchema>
+ */
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] }
+
+export interface Schema<T> {
+  validate(value: unknown, path?: string): ValidationResult<T>
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export function string(options: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    validate(value, path = "value") {
+      if (typeof value !== "string") return fail(path, "a string", value)
+      if (options.min !== undefined && value.trim().length < options.min) {
+        return fail(path, `a string of at least ${options.min} characters`, value)
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return fail(path, `a string of at most ${options.max} characters`, value)
+      }
+      return { ok: true, value }
+    },
+  }
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  const { min, max, integer } = options
+  const expected =
+    min !== undefined && max !== undefined
+      ? `a number between ${min} and ${max}`
+      : min !== undefined
+        ? `a number of at least ${min}`
+        : max !== undefined
+          ? `a number of at most ${max}`
+          : "a number"
+
+  return {
+    validate(value, path = "value") {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail(path, expected, value)
+      }
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        return fail(path, expected, value)
+      }
+      if (integer && !Number.isInteger(value)) {
+        return fail(path, "an integer", value)
+      }
+      return { ok: true, value }
+    },
+  }
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    validate(value, path = "value") {
+      return typeof value === "boolean"
+        ? { ok: true, value }
+        : fail(path, "a boolean", value)
+    },
+  }
+}
+
+// Any JSON value, taken as is (test case arguments and expected results)
+export function jsonValue(): Schema<unknown> {
+  return {
+    validate(value, path = "value") {
+      return value !== undefined && typeof value !== "function"
+        ? { ok: true, value }
+        : fail(path, "a JSON value", value)
+    },
+  }
+}
+
+export function literal<const T extends readonly (string | number)[]>(
+  ...options: T
+): Schema<T[number]> {
+  return {
+    validate(value, path = "value") {
+      return options.includes(value as T[number])
+        ? { ok: true, value: value as T[number] }
+        : fail(path, `one of ${options.map((o) => JSON.stringify(o)).join(", ")}`, value)
+    },
+  }
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    validate(value, path = "value") {
+      if (!Array.isArray(value)) return fail(path, "an array", value)
+      if (options.min !== undefined && value.length < options.min) {
+        return { ok: false, errors: [`${path}: expected at least ${options.min} items, got ${value.length}`] }
+      }
+      if (options.max !== undefined && value.length > options.max) {
+        return { ok: false, errors: [`${path}: expected at most ${options.max} items, got ${value.length}`] }
+      }
+
+      const errors: string[] = []
+      const items: T[] = []
+      value.forEach((entry, i) => {
+        const result = item.validate(entry, `${path}[${i}]`)
+        if (result.ok) items.push(result.value)
+        else errors.push(...result.errors)
+      })
+
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value: items }
+    },
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never
+}[keyof S]
+
+type ObjectOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>
+}
+
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    validate(value, path = "value") {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return fail(path, "an object", value)
+      }
+
+      const errors: string[] = []
+      const out: Record<string, unknown> = {}
+      const input = value as Record<string, unknown>
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = path === "value" ? key : `${path}.${key}`
+        const result = schema.validate(input[key], fieldPath)
+        if (result.ok) {
+          if (result.value !== undefined) out[key] = result.value
+        } else {
+          errors.push(...result.errors)
+        }
+      }
+
+      return errors.length > 0
+        ? { ok: false, errors }
+        : { ok: true, value: out as ObjectOf<S> }
+    },
+  }
+}
+
+// Any object, taken as a T without looking inside. For values that are
+// checked field by field elsewhere, e.g. a client's copy of the interview
+// state, which the state machine compares with its own.
+export function opaqueObject<T extends object>(): Schema<T> {
+  return {
+    validate(value, path = "value") {
+      return value && typeof value === "object" && !Array.isArray(value)
+        ? { ok: true, value: value as T }
+        : fail(path, "an object", value)
+    },
+  }
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    validate(value, path) {
+      return value === undefined ? { ok: true, value: undefined } : schema.validate(value, path)
+    },
+  }
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    validate(value, path) {
+      return value === null ? { ok: true, value: null } : schema.validate(value, path)
+    },
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function fail(path: string, expected: string, value: unknown): { ok: false; errors: string[] } {
+  return { ok: false, errors: [`${path}: expected ${expected}, got ${describe(value)}`] }
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing"
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "object") return "an object"
+  const text = JSON.stringify(value)
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto"
+import type {
+  InterviewSession,
+  InterviewSetup,
+  UpdateSessionRequest,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import {
+  DEFAULT_DIFFICULTY,
+  createInitialInterviewState,
+} from "@/lib/interview-state"
+import { getRedactionSettings } from "@/lib/redaction/sessions"
+
+const store = createJsonStore<InterviewSession>("sessions")
+
+export async function createSession(
+  setup: InterviewSetup
+): Promise<InterviewSession> {
+  const now = new Date().toISOString()
+
+  const timeLimits = {
+    question_time_limit_seconds: setup.questionTimeLimitSeconds,
+    total_time_limit_seconds: setup.totalTimeLimitMinutes
+      ? setup.totalTimeLimitMinutes * 60
+      : undefined,
+  }
+
+  // Static interviews ask the admin's questions in order, with no follow-ups
+  // and at no particular difficulty
+  const questionCount = setup.questions?.length ?? 0
+  const state = isDynamicSetup(setup)
+    ? createInitialInterviewState(
+        setup.maxQuestions ?? 7,
+        setup.maxFollowups ?? 2,
+        { ...timeLimits, difficulty: DEFAULT_DIFFICULTY }
+      )
+    : createInitialInterviewState(
+        Math.min(questionCount, setup.maxQuestions ?? questionCount),
+        0,
+        timeLimits
+      )
+
+  return store.save({
+    id: randomUUID(),
+    // Records which redaction applied, including the environment's default
+    setup: { ...setup, redaction: getRedactionSettings(setup) },
+    state,
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+export async function getSession(
+  id: string
+): Promise<InterviewSession | null> {
+  return store.get(id)
+}
+
+export async function listSessions(): Promise<InterviewSession[]> {
+  const sessions = await store.list()
+  return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function saveSession(
+  session: InterviewSession
+): Promise<InterviewSession> {
+  return store.save({ ...session, updatedAt: new Date().toISOString() })
+}
+
+export function isDynamicSetup(setup: InterviewSetup): boolean {
+  return Boolean(setup.useDynamicQuestions && setup.resume)
+}
+
+export async function updateSession(
+  id: string,
+  patch: UpdateSessionRequest
+): Promise<InterviewSession | null> {
+  const session = await store.get(id)
+  if (!session) return null
+
+  return store.save({
+    ...session,
+    ...pickUpdatableFields(patch),
+    id: session.id,
+    updatedAt: new Date().toISOString(),
+  })
+}
+
+/* ---------- helpers ---------- */
+
+function pickUpdatableFields(patch: UpdateSessionRequest): UpdateSessionRequest {
+  const fields: UpdateSessionRequest = {}
+  if (patch.blueprint !== undefined) fields.blueprint = patch.blueprint
+  return fields
+}
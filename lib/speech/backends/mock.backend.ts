@@ -0,0 +1,18 @@
+import type { SpeechTranscriber } from "../transcriber"
+
+/**
+ * Returns a fixed transcript without looking at the audio, so the fallback
+ * path can be exercised without an engine installed. STT_MOCK_TEXT replaces
+ * the text.
+ */
+export const mockTranscriber: SpeechTranscriber = {
+  name: "mock",
+
+  async transcribe({ audio }) {
+    if (audio.length === 0) return ""
+    return (
+      process.env.STT_MOCK_TEXT?.trim() ||
+      "This is a mock transcript of the recorded answer."
+    )
+  },
+}
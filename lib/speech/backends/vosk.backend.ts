@@ -0,0 +1,48 @@
+import { readFile } from "fs/promises"
+import { join } from "path"
+import type { SpeechTranscriber } from "../transcriber"
+import {
+  convertToWav,
+  runBinary,
+  withScratchDir,
+  writeAudio,
+} from "../local-process"
+
+/**
+ * Vosk (https://alphacephei.com/vosk) through the vosk-transcriber CLI that
+ * ships with the Python package.
+ *
+ *   VOSK_MODEL=/models/vosk-model-small-en-us-0.15   model directory
+ *   VOSK_BIN=vosk-transcriber                        binary, default on PATH
+ *
+ * Without VOSK_MODEL, vosk-transcriber picks a model for the request's
+ * language.
+ */
+export const voskTranscriber: SpeechTranscriber = {
+  name: "vosk",
+
+  async transcribe({ audio, mimeType, language }) {
+    const model = process.env.VOSK_MODEL?.trim()
+
+    return withScratchDir(async (dir) => {
+      const wav = await convertToWav(dir, await writeAudio(dir, audio, mimeType))
+      const output = join(dir, "transcript.txt")
+
+      await runBinary(process.env.VOSK_BIN?.trim() || "vosk-transcriber", [
+        "-i",
+        wav,
+        "-o",
+        output,
+        "-t",
+        "txt",
+        ...(model
+          ? ["-m", model]
+          : language
+            ? ["-l", language.split("-")[0].toLowerCase()]
+            : []),
+      ])
+
+      return readFile(output, "utf8")
+    })
+  },
+}
@@ -0,0 +1,40 @@
+import type { SpeechTranscriber } from "../transcriber"
+import {
+  convertToWav,
+  runBinary,
+  withScratchDir,
+  writeAudio,
+} from "../local-process"
+
+/**
+ * whisper.cpp (https://github.com/ggerganov/whisper.cpp) through its CLI.
+ *
+ *   WHISPER_CPP_MODEL=/models/ggml-base.en.bin   required
+ *   WHISPER_CPP_BIN=whisper-cli                  binary, default on PATH
+ *
+ * Audio is converted to WAV with ffmpeg first.
+ */
+export const whisperCppTranscriber: SpeechTranscriber = {
+  name: "whisper-cpp",
+
+  async transcribe({ audio, mimeType, language }) {
+    const model = process.env.WHISPER_CPP_MODEL?.trim()
+    if (!model) throw new Error("WHISPER_CPP_MODEL is not set")
+
+    return withScratchDir(async (dir) => {
+      const wav = await convertToWav(dir, await writeAudio(dir, audio, mimeType))
+
+      // -nt: no timestamps, -np: print nothing but the transcript
+      return runBinary(process.env.WHISPER_CPP_BIN?.trim() || "whisper-cli", [
+        "-m",
+        model,
+        "-f",
+        wav,
+        "-l",
+        language ? language.split("-")[0].toLowerCase() : "auto",
+        "-nt",
+        "-np",
+      ])
+    })
+  },
+}
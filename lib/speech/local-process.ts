@@ -0,0 +1,94 @@
+import { execFile } from "child_process"
+import { mkdtemp, rm, writeFile } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+
+/**
+ * Shared plumbing for the local STT backends: a scratch directory per
+ * request, audio conversion through ffmpeg, and running a binary with a time
+ * limit.
+ */
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000
+
+export async function withScratchDir<T>(
+  run: (dir: string) => Promise<T>
+): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "komyra-stt-"))
+  try {
+    return await run(dir)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+export async function writeAudio(
+  dir: string,
+  audio: Buffer,
+  mimeType: string
+): Promise<string> {
+  const file = join(dir, `input.${getAudioExtension(mimeType)}`)
+  await writeFile(file, audio)
+  return file
+}
+
+/**
+ * Browsers record WebM/Ogg Opus (or MP4 on Safari); the engines want 16 kHz
+ * mono 16-bit PCM WAV. FFMPEG_BIN overrides the ffmpeg on PATH.
+ */
+export async function convertToWav(dir: string, input: string): Promise<string> {
+  const output = join(dir, "input.wav")
+  await runBinary(process.env.FFMPEG_BIN?.trim() || "ffmpeg", [
+    "-nostdin",
+    "-loglevel",
+    "error",
+    "-y",
+    "-i",
+    input,
+    "-ar",
+    "16000",
+    "-ac",
+    "1",
+    "-c:a",
+    "pcm_s16le",
+    output,
+  ])
+  return output
+}
+
+// STT_TIMEOUT_MS bounds every process a transcription starts
+export function runBinary(command: string, args: string[]): Promise<string> {
+  const timeout = Number(process.env.STT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { timeout, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new Error(
+              `${command} failed: ${error.message}${
+                stderr ? `\n${String(stderr).trim()}` : ""
+              }`
+            )
+          )
+          return
+        }
+        resolve(String(stdout))
+      }
+    )
+  })
+}
+
+/* ---------- helpers ---------- */
+
+function getAudioExtension(mimeType: string): string {
+  const type = mimeType.split(";")[0].trim().toLowerCase()
+  if (type === "audio/ogg") return "ogg"
+  if (type === "audio/mp4" || type === "audio/aac") return "m4a"
+  if (type === "audio/wav" || type === "audio/x-wav") return "wav"
+  if (type === "audio/mpeg") return "mp3"
+  return "webm"
+}
@@ -0,0 +1,68 @@
+/**
+ * Browser-side recording for server transcription. A MediaRecorder chunk is
+ * not playable without the ones before it, so rather than slicing a single
+ * recording the recorder is restarted every segment: each segment is a
+ * complete audio file that can be uploaded and transcribed while the
+ * candidate keeps talking.
+ */
+
+const DEFAULT_SEGMENT_MS = 15 * 1000
+
+export interface SegmentRecorder {
+  // Resolves once the last segment has been handed to onSegment
+  stop(): Promise<void>
+}
+
+export function isSegmentRecordingSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.MediaRecorder !== "undefined"
+}
+
+export function startSegmentRecorder(
+  stream: MediaStream,
+  onSegment: (audio: Blob) => void,
+  segmentMs = DEFAULT_SEGMENT_MS
+): SegmentRecorder {
+  // Audio only; the camera track would bloat every upload
+  const audio = new MediaStream(stream.getAudioTracks())
+  let active = true
+  let recorder: MediaRecorder
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let finish: () => void = () => {}
+  const finished = new Promise<void>((resolve) => {
+    finish = resolve
+  })
+
+  const record = () => {
+    const current = new MediaRecorder(audio)
+    const chunks: Blob[] = []
+
+    current.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    current.onstop = () => {
+      if (chunks.length > 0) {
+        onSegment(new Blob(chunks, { type: current.mimeType || chunks[0].type }))
+      }
+      if (active) record()
+      else finish()
+    }
+
+    recorder = current
+    current.start()
+    timer = setTimeout(() => {
+      if (current.state !== "inactive") current.stop()
+    }, segmentMs)
+  }
+
+  record()
+
+  return {
+    stop() {
+      active = false
+      clearTimeout(timer)
+      // An inactive recorder is between segments; its onstop still finishes
+      if (recorder.state !== "inactive") recorder.stop()
+      return finished
+    },
+  }
+}
@@ -0,0 +1,72 @@
+import { whisperCppTranscriber } from "./backends/whisper-cpp.backend"
+import { voskTranscriber } from "./backends/vosk.backend"
+import { mockTranscriber } from "./backends/mock.backend"
+
+/**
+ * Server-side speech-to-text, used by the interview page when the browser has
+ * no Speech Recognition API. Audio never leaves the server: every real
+ * backend runs a local binary. The backend is chosen from the environment:
+ *
+ *   STT_BACKEND=whisper-cpp|vosk|mock
+ *
+ * With nothing configured, whisper.cpp is used when WHISPER_CPP_MODEL is set
+ * and Vosk when VOSK_MODEL is set; otherwise server transcription is off and
+ * the page reports that speech input is unsupported.
+ */
+
+export interface TranscriptionRequest {
+  audio: Buffer
+  // As recorded by the browser, e.g. "audio/webm;codecs=opus"
+  mimeType: string
+  // BCP 47 tag such as "en-US"; backends fall back to auto-detection or
+  // their model's language
+  language?: string
+}
+
+export interface SpeechTranscriber {
+  name: TranscriberName
+  transcribe(request: TranscriptionRequest): Promise<string>
+}
+
+export type TranscriberName = "whisper-cpp" | "vosk" | "mock"
+
+const transcribers: Record<TranscriberName, SpeechTranscriber> = {
+  "whisper-cpp": whisperCppTranscriber,
+  vosk: voskTranscriber,
+  mock: mockTranscriber,
+}
+
+export function resolveTranscriber(): SpeechTranscriber | null {
+  const name = readEnv("STT_BACKEND")
+  if (name) return getTranscriber(name)
+
+  if (readEnv("WHISPER_CPP_MODEL")) return transcribers["whisper-cpp"]
+  if (readEnv("VOSK_MODEL")) return transcribers.vosk
+  return null
+}
+
+export async function transcribeAudio(
+  request: TranscriptionRequest
+): Promise<{ text: string; backend: TranscriberName }> {
+  const transcriber = resolveTranscriber()
+  if (!transcriber) {
+    throw new Error("Server-side speech-to-text is not configured")
+  }
+
+  const text = await transcriber.transcribe(request)
+  return { text: text.replace(/\s+/g, " ").trim(), backend: transcriber.name }
+}
+
+/* ---------- helpers ---------- */
+
+function getTranscriber(name: string): SpeechTranscriber {
+  if (!Object.hasOwn(transcribers, name)) {
+    throw new Error(`Unknown speech-to-text backend "${name}"`)
+  }
+  return transcribers[name as TranscriberName]
+}
+
+function readEnv(key: string): string | undefined {
+  const value = process.env[key]?.trim()
+  return value ? value : undefined
+}
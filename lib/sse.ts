@@ -0,0 +1,52 @@
+/**
+ * Server-Sent Events over fetch. EventSource only supports GET, and the
+ * interview endpoints take a POST body, so both ends are handled here.
+ */
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split("\n\n")
+    buffer = blocks.pop() ?? ""
+
+    for (const block of blocks) {
+      const parsed = parseBlock(block)
+      if (parsed) onEvent(parsed)
+    }
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function parseBlock(block: string): ServerSentEvent | null {
+  let event = "message"
+  const data: string[] = []
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim()
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+  }
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+/**
+ * Minimal file-backed record store: one JSON file per record under
+ * <data dir>/<collection>/<id>.json. The data dir defaults to ./.data and
+ * can be moved with KOMYRA_DATA_DIR.
+ *
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a half-written record behind.
+ */
+
+export interface StoredRecord {
+  id: string
+}
+
+export interface JsonStore<T extends StoredRecord> {
+  get(id: string): Promise<T | null>
+  list(): Promise<T[]>
+  save(record: T): Promise<T>
+  remove(id: string): Promise<boolean>
+}
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+export function isValidRecordId(id: string): boolean {
+  return ID_PATTERN.test(id)
+}
+
+export function getDataDir(): string {
+  return process.env.KOMYRA_DATA_DIR || path.join(process.cwd(), ".data")
+}
+
+export function createJsonStore<T extends StoredRecord>(
+  collection: string
+): JsonStore<T> {
+  const dir = () => path.join(getDataDir(), collection)
+
+  const fileFor = (id: string) => {
+    if (!isValidRecordId(id)) {
+      throw new Error(`Invalid ${collection} id "${id}"`)
+    }
+    return path.join(dir(), `${id}.json`)
+  }
+
+  return {
+    async get(id) {
+      if (!isValidRecordId(id)) return null
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), "utf8")) as T
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+
+    async list() {
+      let files: string[]
+      try {
+        files = await fs.readdir(dir())
+      } catch (error) {
+        if (isNotFound(error)) return []
+        throw error
+      }
+
+      // A record removed since readdir is skipped, not an error
+      const records = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map(async (file) => {
+            try {
+              return JSON.parse(
+                await fs.readFile(path.join(dir(), file), "utf8")
+              ) as T
+            } catch (error) {
+              if (isNotFound(error)) return null
+              throw error
+            }
+          })
+      )
+      return records.filter((record) => record !== null) as T[]
+    },
+
+    async save(record) {
+      const file = fileFor(record.id)
+      await fs.mkdir(dir(), { recursive: true })
+
+      // Unique per write: the same record can be saved twice at once
+      const tmp = `${file}.${randomUUID()}.tmp`
+      await fs.writeFile(tmp, JSON.stringify(record, null, 2), "utf8")
+      await fs.rename(tmp, file)
+
+      return record
+    },
+
+    async remove(id) {
+      if (!isValidRecordId(id)) return false
+      try {
+        await fs.unlink(fileFor(id))
+        return true
+      } catch (error) {
+        if (isNotFound(error)) return false
+        throw error
+      }
+    },
+  }
+}
+
+/* ---------- helpers ---------- */
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT"
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto"
+import type {
+  InterviewTemplate,
+  InterviewTemplateInput,
+  ScoringPreferences,
+} from "@/types/interview"
+import { createJsonStore } from "@/lib/store/json-store"
+import { INTERVIEW_LANGUAGES } from "@/lib/languages"
+import {
+  CODE_LANGUAGES,
+  checkCodingSetup,
+  manualCodingChallengeSchema,
+} from "@/lib/coding/challenges"
+import { checkRunnableSetup } from "@/lib/coding/runner"
+import {
+  checkPromptVersions,
+  promptVersionsSchema,
+} from "@/lib/ai/prompts/registry"
+import { evaluationRunsSchema } from "@/lib/ai/consensus"
+import { redactionSettingsSchema } from "@/lib/redaction/pii"
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  string,
+  type Schema,
+} from "@/lib/schema"
+
+const store = createJsonStore<InterviewTemplate>("templates")
+
+export const DEFAULT_SCORING: ScoringPreferences = {
+  technical_weight: 1,
+  problem_solving_weight: 1,
+  communication_weight: 1,
+  fit_threshold: 75,
+  reject_threshold: 50,
+}
+
+const weight = number({ min: 0, max: 10 })
+const threshold = number({ min: 0, max: 100 })
+
+export const scoringPreferencesSchema: Schema<ScoringPreferences> = object({
+  technical_weight: weight,
+  problem_solving_weight: weight,
+  communication_weight: weight,
+  fit_threshold: threshold,
+  reject_threshold: threshold,
+})
+
+export const templateInputSchema: Schema<InterviewTemplateInput> = object({
+  name: string({ min: 1, max: 200 }),
+  roleTitle: string({ min: 1, max: 200 }),
+  jobDescription: string({ min: 1 }),
+  questions: array(string({ min: 1 })),
+  maxQuestions: number({ min: 1, max: 30, integer: true }),
+  maxFollowups: number({ min: 0, max: 5, integer: true }),
+  useDynamicQuestions: boolean(),
+  scoring: scoringPreferencesSchema,
+  questionTimeLimitSeconds: optional(number({ min: 10, max: 1800, integer: true })),
+  totalTimeLimitMinutes: optional(number({ min: 1, max: 240, integer: true })),
+  language: optional(literal(...INTERVIEW_LANGUAGES)),
+  reportLanguage: optional(literal(...INTERVIEW_LANGUAGES)),
+  codingLanguage: optional(literal(...CODE_LANGUAGES)),
+  codingChallenges: optional(array(manualCodingChallengeSchema)),
+  promptVersions: optional(promptVersionsSchema),
+  evaluationRuns: optional(evaluationRunsSchema),
+  redaction: optional(redactionSettingsSchema),
+})
+
+/**
+ * Problems with scoring preferences the schema cannot see, as paths and
+ * messages like the schemas report them. An empty list means they are usable.
+ */
+export function checkScoring(scoring: ScoringPreferences): string[] {
+  return scoring.fit_threshold < scoring.reject_threshold
+    ? [`scoring.fit_threshold: must be at least reject_threshold (${scoring.reject_threshold})`]
+    : []
+}
+
+/**
+ * What a session created from the template would be refused for, checked
+ * before it is saved rather than when it is used. An empty list means the
+ * template can be saved.
+ */
+export async function checkTemplate(
+  input: InterviewTemplateInput
+): Promise<string[]> {
+  const codingProblems = checkCodingSetup(input)
+
+  return [
+    ...checkScoring(input.scoring),
+    ...codingProblems,
+    ...(codingProblems.length === 0 ? checkRunnableSetup(input) : []),
+    ...(await checkPromptVersions(input.promptVersions)),
+  ]
+}
+
+export async function listTemplates(): Promise<InterviewTemplate[]> {
+  const templates = await store.list()
+  return templates.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getTemplate(
+  id: string
+): Promise<InterviewTemplate | null> {
+  return store.get(id)
+}
+
+export async function createTemplate(
+  input: InterviewTemplateInput
+): Promise<InterviewTemplate> {
+  const now = new Date().toISOString()
+
+  return store.save({
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+export async function updateTemplate(
+  id: string,
+  input: InterviewTemplateInput
+): Promise<InterviewTemplate | null> {
+  const template = await store.get(id)
+  if (!template) return null
+
+  return store.save({
+    ...input,
+    id: template.id,
+    createdAt: template.createdAt,
+    updatedAt: new Date().toISOString(),
+  })
+}
+
+export async function deleteTemplate(id: string): Promise<boolean> {
+  return store.remove(id)
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { AUTH_COOKIE } from "@/lib/auth/cookie"
+
+/**
+ * Sends visitors of the staff pages without a sign-in cookie to /login.
+ * This only spares them a page of failing requests: the API checks the
+ * session and role behind the cookie on every request (lib/api/handler.ts).
+ * Candidates use /interview/<token>, which needs no account.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(AUTH_COOKIE)) return NextResponse.next()
+
+  const login = new URL("/login", request.url)
+  login.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search)
+
+  return NextResponse.redirect(login)
+}
+
+export const config = {
+  matcher: ["/setup", "/sessions", "/dashboard", "/users", "/result/:path*"],
+}
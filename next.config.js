@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Loaded at runtime to transpile candidates' TypeScript (lib/coding/runner.ts)
+    serverComponentsExternalPackages: ["typescript"],
+  },
+}
 
 module.exports = nextConfig
-
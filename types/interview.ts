@@ -2,32 +2,316 @@
 
 export interface InterviewSetup {
   roleTitle: string
+  candidateName?: string
   jobDescription: string
   resume?: string
   questions?: string[]
   createdAt: string
   useDynamicQuestions?: boolean
   interviewBlueprint?: InterviewBlueprint
+  templateId?: string
+  maxQuestions?: number
+  maxFollowups?: number
+  scoring?: ScoringPreferences
+  // Unset means no limit
+  questionTimeLimitSeconds?: number
+  totalTimeLimitMinutes?: number
+  // What the candidate hears, reads and answers in; unset means English
+  language?: InterviewLanguage
+  // What the evaluation is written in for the hiring team; unset means English
+  reportLanguage?: InterviewLanguage
+  // Dynamic interviews may ask coding questions in this language; unset means none
+  codingLanguage?: CodeLanguage
+  // Turns manual questions into coding questions
+  codingChallenges?: ManualCodingChallenge[]
+  // Pinned prompt versions; prompts not listed use their latest version
+  promptVersions?: PromptVersions
+  // Independent final evaluations to combine; unset means EVALUATION_RUNS
+  evaluationRuns?: number
+  // What is kept from the model and the reviewers; unset means PII_REDACTION
+  redaction?: RedactionSettings
 }
 
+export type InterviewLanguage = "en" | "es" | "de"
+
+// PRIVACY
+
+export type PiiCategory =
+  | "name"
+  | "email"
+  | "phone"
+  | "address"
+  | "link"
+  | "age"
+  | "demographics"
+  | "photo"
+
+export interface RedactionSettings {
+  // Replaced with placeholders before any prompt; empty turns redaction off
+  categories: PiiCategory[]
+  // Blind evaluation: reviewers see the placeholders too, on the result
+  // page, the dashboards and the reports
+  blind?: boolean
+}
+
+// One replaced identifier; the mapping stays on the server
+export interface RedactionEntry {
+  placeholder: string
+  category: PiiCategory
+  value: string
+}
+
+// TEMPLATES
+
+// How the final evaluation weighs the three dimensions (weights are
+// relative) and where the verdict thresholds on alignment_percentage sit.
+export interface ScoringPreferences {
+  technical_weight: number
+  problem_solving_weight: number
+  communication_weight: number
+  fit_threshold: number
+  reject_threshold: number
+}
+
+export interface InterviewTemplate {
+  id: string
+  name: string
+  roleTitle: string
+  jobDescription: string
+  questions: string[]
+  maxQuestions: number
+  maxFollowups: number
+  useDynamicQuestions: boolean
+  scoring: ScoringPreferences
+  questionTimeLimitSeconds?: number
+  totalTimeLimitMinutes?: number
+  language?: InterviewLanguage
+  reportLanguage?: InterviewLanguage
+  codingLanguage?: CodeLanguage
+  codingChallenges?: ManualCodingChallenge[]
+  promptVersions?: PromptVersions
+  evaluationRuns?: number
+  redaction?: RedactionSettings
+  createdAt: string
+  updatedAt: string
+}
+
+export type InterviewTemplateInput = Omit<
+  InterviewTemplate,
+  "id" | "createdAt" | "updatedAt"
+>
+
+export type InterviewPhase =
+  | "initializing"
+  | "in_progress"
+  | "evaluating"
+  | "completed"
+
 export interface InterviewState {
   current_question_index: number
   question_type: "main" | "followup"
   followup_count: number
   max_questions: number
   max_followups: number
-  interview_phase: "initializing" | "in_progress" | "completed" | "evaluating"
+  interview_phase: InterviewPhase
   current_question_id?: string
   conversation_history: InterviewAnswer[]
+  question_time_limit_seconds?: number
+  total_time_limit_seconds?: number
+  // Server clock; set when the first question and the current question were asked
+  started_at?: string
+  current_question_asked_at?: string
+  // Blueprint items the open question probes
+  current_question_targets?: BlueprintTarget[]
+  // Level questions are pitched at; only set for adaptive (dynamic) interviews
+  difficulty?: QuestionDifficulty
 }
 
 export interface InterviewAnswer {
   question: string
+  // As submitted, including the candidate's corrections
   answer: string
+  // As recognised from speech, before any corrections
+  rawAnswer?: string
   timestamp: string
   questionId?: string
   questionType?: "main" | "followup"
+  // Index of the main question this answer belongs to (itself, for a main answer)
   mainQuestionIndex?: number
+  questionGeneration?: GenerationInfo
+  // When the question appeared and when the candidate started and stopped
+  // answering. Reported by the browser, clamped to the server's clock.
+  questionShownAt?: string
+  answerStartedAt?: string
+  answerEndedAt?: string
+  timedOut?: boolean
+  targets?: BlueprintTarget[]
+  difficulty?: QuestionDifficulty
+  // Depth of the answer as graded by the interviewer model
+  quality?: AnswerQuality
+  // Camera/microphone recording of the answer
+  media?: AnswerMediaRef
+  // Final code of a coding question, with its test run
+  code?: CodeSubmission
+  // Set when the answer looks like an attempt to instruct the model
+  injection?: InjectionFlag
+}
+
+// What a flagged answer tried to get the model to do
+export type InjectionKind = "override" | "role" | "scoring" | "escape"
+
+export interface InjectionFlag {
+  kinds: InjectionKind[]
+  // The sentences that matched, as the candidate wrote them
+  excerpts: string[]
+}
+
+// A flagged answer, as listed on the evaluation for reviewers
+export interface FlaggedAnswer extends InjectionFlag {
+  question_id: string
+  question: string
+}
+
+export type QuestionDifficulty = "easy" | "medium" | "hard"
+
+export type AnswerQuality = "weak" | "adequate" | "strong"
+
+// Browser-reported answer timing, as ISO timestamps
+export interface AnswerTiming {
+  question_shown_at?: string
+  answer_started_at?: string
+  answer_ended_at?: string
+}
+
+// Recording of one answer, stored with the session (lib/answer-media.ts)
+export interface AnswerMedia {
+  id: string
+  sessionId: string
+  questionId: string
+  mimeType: string
+  size: number
+  createdAt: string
+}
+
+export type AnswerMediaRef = Pick<AnswerMedia, "id" | "mimeType">
+
+export interface AnswerMediaUploadResponse {
+  media_id: string
+}
+
+// CODING QUESTIONS
+
+export type CodeLanguage = "javascript" | "typescript" | "python"
+
+// One call of the candidate's function: JSON arguments and the JSON value it
+// must return. Hidden cases are never shown to the candidate.
+export interface CodingTestCase {
+  args: unknown[]
+  expected: unknown
+  hidden?: boolean
+}
+
+export interface CodingChallenge {
+  language: CodeLanguage
+  // The function the candidate implements and the tests call
+  function_name: string
+  starter_code: string
+  tests: CodingTestCase[]
+}
+
+// A challenge for a manual question, by its 1-based position in questions
+export interface ManualCodingChallenge extends CodingChallenge {
+  question_number: number
+}
+
+// What the candidate sees of a challenge: the visible cases only
+export interface CandidateChallenge {
+  language: CodeLanguage
+  function_name: string
+  starter_code: string
+  examples: Pick<CodingTestCase, "args" | "expected">[]
+}
+
+export interface CodeTestResult {
+  passed: boolean
+  hidden: boolean
+  // Omitted from the candidate's view of hidden cases
+  args?: unknown[]
+  expected?: unknown
+  actual?: unknown
+  // What the function printed during this case
+  output?: string
+  error?: string
+}
+
+export interface CodeRunResult {
+  // "error": the code did not load (syntax error, missing function, crash)
+  status: "passed" | "failed" | "error" | "timeout"
+  passed: number
+  total: number
+  tests: CodeTestResult[]
+  error?: string
+  duration_ms: number
+}
+
+export interface CodeSubmission {
+  language: CodeLanguage
+  code: string
+  result: CodeRunResult
+}
+
+// POST /api/interview/[token]/code
+export interface CodeRunRequest {
+  question_id: string
+  code: string
+}
+
+// SESSIONS
+
+export interface InterviewSession {
+  id: string
+  setup: InterviewSetup
+  state: InterviewState
+  blueprint?: InterviewBlueprint
+  current_question?: string
+  current_question_generation?: GenerationInfo
+  // Starter code and tests when the open question is a coding question
+  current_challenge?: CodingChallenge
+  evaluation?: EvaluationResult
+  createdAt: string
+  updatedAt: string
+}
+
+// CANDIDATE INVITES
+
+// The invite token doubles as the record id; it is the only thing a
+// candidate ever holds.
+export interface InterviewInvite {
+  id: string
+  sessionId: string
+  expiresAt: string
+  createdAt: string
+}
+
+export interface CreateInviteRequest {
+  expiresInHours?: number
+}
+
+export interface InviteLink {
+  token: string
+  url: string
+  expiresAt: string
+}
+
+// What the candidate's page is given. Never includes the resume, blueprint,
+// evaluation or AI provenance.
+export interface CandidateInterview {
+  roleTitle: string
+  language: InterviewLanguage
+  state: InterviewState
+  current_question?: string
+  current_challenge?: CandidateChallenge
+  expiresAt: string
 }
 
 //BLUEPRINT & ANALYSIS
@@ -38,14 +322,140 @@ export interface InterviewBlueprint {
   notable_projects: string[]
   focus_areas: string[]
   suggested_question_themes: string[]
+  generation?: GenerationInfo
+}
+
+// The blueprint lists a question can probe. notable_projects are context for
+// the interviewer, not something to cover.
+export type BlueprintCategory =
+  | "key_skills"
+  | "skill_gaps"
+  | "focus_areas"
+  | "suggested_question_themes"
+
+export interface BlueprintTarget {
+  category: BlueprintCategory
+  item: string
+}
+
+// Where an AI result came from. A "fallback" result is canned, not a model
+// judgement, and must not be read as one.
+export type OutputSource = "model" | "repair" | "fallback"
+
+export interface GenerationInfo {
+  source: OutputSource
+  attempts: number
+  errors?: string[]
+  // The prompt and model behind the result; missing on results from before
+  // prompts were versioned
+  prompt_id?: PromptId
+  prompt_version?: number
+  // SHA-256 of the rendered prompt, to check a reconstruction against
+  prompt_sha256?: string
+  provider?: string
+  model?: string
+}
+
+// PROMPTS
+
+// One prompt per AI task
+export type PromptId =
+  | "analyze-profile"
+  | "main-question"
+  | "follow-up"
+  | "evaluate"
+  | "final-evaluation"
+
+export type PromptVersions = Partial<Record<PromptId, number>>
+
+// A version of a prompt: text with {{variable}} placeholders. Versions are
+// never changed once created, so a version number always names the same text.
+export interface PromptTemplate {
+  // "<promptId>-v<version>"
+  id: string
+  promptId: PromptId
+  version: number
+  description?: string
+  template: string
+  // Shipped with the app rather than added through /api/prompts
+  builtin: boolean
+  createdAt?: string
+}
+
+export interface CreatePromptVersionRequest {
+  promptId: PromptId
+  template: string
+  description?: string
+}
+
+// ACCOUNTS
+
+// Admins set up interviews and manage accounts; reviewers read and evaluate
+// finished interviews. Candidates have no account: their invite link is
+// their access to their own interview, and to nothing else.
+export type UserRole = "admin" | "reviewer" | "candidate"
+
+export type StaffRole = Exclude<UserRole, "candidate">
+
+// A staff account as the API shows it; the password hash never leaves the
+// server
+export interface StaffUser {
+  id: string
+  username: string
+  role: StaffRole
+  createdAt: string
+  updatedAt: string
+  lastLoginAt?: string
+}
+
+export interface LoginRequest {
+  username: string
+  password: string
+}
+
+export interface CreateUserRequest {
+  username: string
+  password: string
+  role: StaffRole
+}
+
+export interface UpdateUserRequest {
+  role?: StaffRole
+  password?: string
 }
 
 // API CONTRACTS
 
+// What went wrong, for clients to branch on; the message is for people
+export type ApiErrorCode =
+  | "invalid_json"
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "gone"
+  | "conflict"
+  | "state_conflict"
+  | "payload_too_large"
+  | "unsupported_media_type"
+  | "unprocessable"
+  | "rate_limited"
+  | "internal_error"
+  | "unavailable"
+
+// Every error response of the API
+export interface ApiErrorResponse {
+  error: string
+  code: ApiErrorCode
+  // One line per problem with the request, e.g. "setup.roleTitle: expected a string, got nothing"
+  details?: string[]
+}
+
 export interface AnalyzeProfileRequest {
   jobDescription: string
   resume: string
   roleTitle: string
+  promptVersions?: PromptVersions
 }
 
 
@@ -55,13 +465,75 @@ export interface AnalyzeProfileResponse {
   blueprint: InterviewBlueprint
 }
 
+export interface ParseDocumentResponse {
+  fileName: string
+  kind: "pdf" | "docx" | "markdown" | "text"
+  text: string
+}
+
+// Server-side speech-to-text, for browsers without Speech Recognition
+export interface TranscriptionStatus {
+  available: boolean
+  backend?: string
+}
+
+export interface TranscriptionResponse {
+  text: string
+  backend: string
+}
+
+export interface CreateSessionRequest {
+  setup: InterviewSetup
+}
+
+// State, current question and evaluation are only ever changed by the
+// server-side interview controller.
+export type UpdateSessionRequest = Partial<Pick<InterviewSession, "blueprint">>
+
 export interface NextQuestionRequest {
+  session_id: string
+  interview_state: InterviewState
+  last_answer?: string
+  // Recognised text last_answer was edited from
+  raw_answer?: string
+  skip?: boolean
+  answer_timing?: AnswerTiming
+  // The question's time limit ran out; last_answer may then be empty
+  timed_out?: boolean
+  // Recording of the answer, uploaded for the open question beforehand
+  media_id?: string
+  // Final code, for a coding question; it is run against every test case
+  code?: string
+}
+
+// Candidate variant of NextQuestionRequest; the session comes from the token
+export type CandidateNextQuestionRequest = Omit<NextQuestionRequest, "session_id">
+
+export interface QuestionGenerationRequest {
   jobDescription: string
   resume: string
   roleTitle: string
   interview_state: InterviewState
+  question_type: "main" | "followup"
   last_answer?: string
   blueprint?: InterviewBlueprint
+  // Questions the hiring team wants covered, from the setup or template
+  seed_questions?: string[]
+  language?: InterviewLanguage
+  // Main questions may be coding questions in this language
+  coding_language?: CodeLanguage
+  prompt_versions?: PromptVersions
+}
+
+export interface QuestionProposal {
+  question: string | null
+  reasoning?: string
+  generation?: GenerationInfo
+  targets?: BlueprintTarget[]
+  // Grade of the last answer, when the proposal graded one
+  answer_quality?: AnswerQuality
+  // Makes the question a coding question
+  challenge?: CodingChallenge
 }
 
 export interface NextQuestionResponse {
@@ -71,6 +543,28 @@ export interface NextQuestionResponse {
   updated_state: InterviewState
   interview_complete: boolean
   reasoning?: string
+  // Set when the question is a coding question
+  challenge?: CandidateChallenge
+}
+
+export interface StateViolationResponse extends ApiErrorResponse {
+  violations: string[]
+}
+
+// Server-Sent Events from /api/next-question/stream and
+// /api/interview/[token]/next-question:
+//   question-delta -> QuestionDeltaEvent (repeated)
+//   done           -> NextQuestionResponse
+//   error          -> NextQuestionStreamError
+export interface QuestionDeltaEvent {
+  text: string
+}
+
+export interface NextQuestionStreamError {
+  status: number
+  error: string
+  code: ApiErrorCode
+  violations?: string[]
 }
 
 // FINAL EVALUATION
@@ -80,6 +574,7 @@ export interface EvaluationRequest {
   questions: string[]
   answers: InterviewAnswer[]
   resume?: string
+  prompt_versions?: PromptVersions
 }
 
 
@@ -90,8 +585,62 @@ export interface EvaluationResult {
   communication_score: number
   strengths: string[]
   weaknesses: string[]
-  final_verdict: "Fit" | "Maybe" | "Reject"
+  final_verdict: Verdict
   summary: string
+  answer_breakdown?: AnswerAssessment[]
+  generation?: GenerationInfo
+  // Set when the result combines several independent evaluation runs
+  consensus?: EvaluationConsensus
+  // Answers that tried to instruct the model, for reviewers to check
+  flagged_answers?: FlaggedAnswer[]
+}
+
+export type Verdict = "Fit" | "Maybe" | "Reject"
+
+export type ScoreDimension =
+  | "alignment_percentage"
+  | "technical_score"
+  | "problem_solving_score"
+  | "communication_score"
+
+export type ConsensusConfidence = "high" | "medium" | "low"
+
+// How far the runs that produced a score agreed on it
+export interface DimensionConsensus {
+  median: number
+  min: number
+  max: number
+  stdev: number
+  confidence: ConsensusConfidence
+}
+
+// One run's overall result, kept so the consensus can be checked
+export interface EvaluationSample {
+  scores: Record<ScoreDimension, number>
+  final_verdict: Verdict
+  generation?: GenerationInfo
+}
+
+export interface EvaluationConsensus {
+  runs: number
+  // Runs that returned a model judgement; fallbacks are left out
+  succeeded: number
+  dimensions: Record<ScoreDimension, DimensionConsensus>
+  verdict_votes: Record<Verdict, number>
+  // Share of the succeeded runs that reached the final verdict, 0..1
+  verdict_agreement: number
+  confidence: ConsensusConfidence
+  samples: EvaluationSample[]
+}
+
+// Per-answer scores, keyed by InterviewAnswer.questionId
+export interface AnswerAssessment {
+  question_id: string
+  technical_score: number
+  problem_solving_score: number
+  communication_score: number
+  rationale: string
+  evidence: string[]
 }
 
 export interface FinalEvaluationRequest {
@@ -100,4 +649,85 @@ export interface FinalEvaluationRequest {
   roleTitle: string
   conversation_history: InterviewAnswer[]
   blueprint?: InterviewBlueprint
+  scoring?: ScoringPreferences
+  question_time_limit_seconds?: number
+  // The transcript's language, and the one to write the evaluation in
+  language?: InterviewLanguage
+  report_language?: InterviewLanguage
+  prompt_versions?: PromptVersions
+  // Independent evaluation runs to combine; unset means EVALUATION_RUNS
+  evaluation_runs?: number
+}
+
+export interface SessionEvaluationRequest {
+  session_id: string
+}
+
+// COMPARISON
+
+// One evaluated interview, as listed on the comparison dashboard
+export interface CandidateSummary {
+  session_id: string
+  candidateName?: string
+  createdAt: string
+  alignment_percentage: number
+  technical_score: number
+  problem_solving_score: number
+  communication_score: number
+  final_verdict: EvaluationResult["final_verdict"]
+  answer_count: number
+  evaluation_source?: OutputSource
+  // Answers flagged as possible prompt injections
+  flagged_count?: number
+}
+
+// Evaluated interviews grouped by template, or by role title without one
+export interface RoleSummary {
+  key: string
+  roleTitle: string
+  templateId?: string
+  templateName?: string
+  candidates: CandidateSummary[]
+}
+
+export interface ComparedCandidate extends CandidateSummary {
+  strengths: string[]
+  weaknesses: string[]
+  summary: string
+}
+
+// A main question with its follow-ups, as one candidate answered it
+export interface ComparedAnswer {
+  question: string
+  answer: string
+  followups: Pick<InterviewAnswer, "question" | "answer">[]
+  assessment?: AnswerAssessment
+}
+
+// Answers to the same main question (by position), one per candidate and in
+// candidate order; null where that candidate was not asked it
+export interface ComparedQuestion {
+  label: string
+  answers: (ComparedAnswer | null)[]
+}
+
+export interface CandidateComparison {
+  candidates: ComparedCandidate[]
+  questions: ComparedQuestion[]
+}
+
+// REPORTS
+
+export type ReportFormat = "json" | "markdown" | "pdf"
+
+// Machine-readable export of an evaluated interview. Setup metadata only:
+// the resume text is not part of the bundle.
+export interface EvaluationReport {
+  format_version: 1
+  generated_at: string
+  session: Pick<InterviewSession, "id" | "createdAt" | "updatedAt">
+  setup: Omit<InterviewSetup, "resume" | "interviewBlueprint">
+  blueprint?: InterviewBlueprint
+  conversation_history: InterviewAnswer[]
+  evaluation: EvaluationResult
 }
@@ -0,0 +1,6 @@
+// The package entry point runs a self-test when bundled; the library file
+// itself is imported instead and has the same signature.
+declare module "pdf-parse/lib/pdf-parse.js" {
+  import pdfParse from "pdf-parse"
+  export default pdfParse
+}